@@ -2,6 +2,7 @@ import 'dotenv/config';
 import express from 'express';
 import { prisma } from './lib/prisma.ts';
 import { initWhatsApp } from './lib/whatsapp.ts';
+import { scheduleIdempotencyKeyPurge } from './src/services/idempotency.service.ts';
 import routes from './src/routes/index.ts';
 import { errorHandler, notFoundHandler } from './src/middleware/error.middleware.ts';
 
@@ -9,14 +10,23 @@ const app = express();
 const port = process.env.PORT || 3000;
 
 // Middleware
-app.use(express.json());
+app.use(
+  express.json({
+    // Keep the raw body of payment and courier callbacks for signature verification
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith('/api/payments/webhooks/') || req.url?.startsWith('/api/couriers/webhooks/')) {
+        (req as any).rawBody = buf;
+      }
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true }));
 
 // CORS (if needed)
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, Idempotency-Key, X-Guest-Token');
   
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
@@ -41,6 +51,9 @@ app.use(errorHandler);
 app.listen(port, async () => {
   console.log(`🚀 Server running on port ${port}`);
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  // Expired idempotency keys are purged hourly
+  scheduleIdempotencyKeyPurge();
   
   // Initialize WhatsApp connection (shows QR code in terminal if needed)
   await initWhatsApp();
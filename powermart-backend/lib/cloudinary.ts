@@ -38,6 +38,7 @@ export const CloudinaryFolders = {
   // Secure folders (private/authenticated)
   KYC_DOCUMENTS: 'powermart/secure/kyc',
   VENDOR_DOCUMENTS: 'powermart/secure/vendor-docs',
+  RETURN_EVIDENCE: 'powermart/secure/returns',
 } as const;
 
 /**
@@ -68,18 +69,53 @@ export function generateSignedUrl(
  */
 export function generatePrivateUrl(
   publicId: string,
-  expiresInSeconds: number = 3600
+  expiresInSeconds: number = 3600,
+  resourceType: 'image' | 'video' | 'raw' = 'image'
 ): string {
   const timestamp = Math.floor(Date.now() / 1000) + expiresInSeconds;
   
   return cloudinary.url(publicId, {
     sign_url: true,
     type: 'private',
+    resource_type: resourceType,
     expires_at: timestamp,
     secure: true,
   });
 }
 
+/**
+ * Extract the public ID and resource type from a stored Cloudinary URL
+ * Values that are not URLs are treated as public IDs already
+ * @param value - Cloudinary delivery URL or public ID
+ * @returns Public ID (without extension for images/videos) and resource type
+ */
+export function parseAssetReference(value: string): {
+  publicId: string;
+  resourceType: 'image' | 'video' | 'raw';
+} {
+  if (!/^https?:\/\//.test(value)) {
+    return { publicId: value, resourceType: 'image' };
+  }
+
+  // https://res.cloudinary.com/<cloud>/<resource_type>/<type>/[s--sig--/][v123/]<public_id>
+  const path = new URL(value).pathname.split('/').filter(Boolean);
+  const resourceType = (['image', 'video', 'raw'].includes(path[1] ?? '') ? path[1] : 'image') as
+    'image' | 'video' | 'raw';
+
+  const rest = path.slice(3).filter((segment) => !/^s--.+--$/.test(segment));
+  if (rest[0] && /^v\d+$/.test(rest[0])) {
+    rest.shift();
+  }
+
+  const publicId = decodeURIComponent(rest.join('/'));
+
+  // Raw assets keep their extension in the public ID
+  return {
+    publicId: resourceType === 'raw' ? publicId : publicId.replace(/\.[^/.]+$/, ''),
+    resourceType,
+  };
+}
+
 /**
  * Delete an asset from Cloudinary
  * @param publicId - The public ID of the asset to delete
@@ -0,0 +1,38 @@
+import { courierSimulator } from './simulator.ts';
+import type { CourierAdapter } from './types.ts';
+
+export type * from './types.ts';
+export { buildSimulatorWebhook } from './simulator.ts';
+
+/**
+ * Registered courier adapters, by name. Courier integrations (TCS,
+ * Leopards, PostEx) are added here once configured.
+ */
+const couriers = new Map<string, CourierAdapter>();
+
+export function registerCourier(courier: CourierAdapter): void {
+  couriers.set(courier.name, courier);
+}
+
+// The simulator is never available in production
+if (process.env.NODE_ENV !== 'production') {
+  registerCourier(courierSimulator);
+}
+
+/**
+ * Get a courier by name, defaulting to COURIER_PROVIDER
+ */
+export function getCourier(name?: string): CourierAdapter {
+  const courierName = name ?? process.env.COURIER_PROVIDER ?? 'simulator';
+  const courier = couriers.get(courierName);
+
+  if (!courier) {
+    throw new Error(`Courier "${courierName}" is not configured`);
+  }
+
+  return courier;
+}
+
+export function listCouriers(): CourierAdapter[] {
+  return [...couriers.values()];
+}
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import type {
+  AirwayBill,
+  BookConsignmentInput,
+  Consignment,
+  CourierAdapter,
+  CourierTracking,
+  CourierTrackingEvent,
+  CourierTrackingStatus,
+  CourierWebhookEvent,
+  CourierWebhookHeaders,
+} from './types.ts';
+
+/**
+ * Local courier simulator
+ *
+ * Behaves like a courier API without leaving the app: consignments are kept
+ * in memory, and moving one along (through the simulator endpoint) posts a
+ * signed tracking callback to the webhook the same way a real courier would.
+ * Consignments do not survive a restart.
+ *
+ * Signature header: `x-courier-signature: t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ * computed over `<t>.<raw body>` with COURIER_SIMULATOR_SECRET.
+ */
+
+const SIGNATURE_HEADER = 'x-courier-signature';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const DELIVERY_DAYS = 3;
+
+interface SimulatedConsignment {
+  input: BookConsignmentInput;
+  events: CourierTrackingEvent[];
+}
+
+const consignments = new Map<string, SimulatedConsignment>();
+
+function getSecret(): string {
+  const secret = process.env.COURIER_SIMULATOR_SECRET;
+  if (!secret) {
+    throw new Error('Courier "simulator" is not configured: COURIER_SIMULATOR_SECRET is missing');
+  }
+  return secret;
+}
+
+function computeSignature(timestamp: string, rawBody: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+function getConsignment(trackingCode: string): SimulatedConsignment {
+  const consignment = consignments.get(trackingCode);
+  if (!consignment) {
+    throw new Error('Consignment not found');
+  }
+  return consignment;
+}
+
+function currentStatus(consignment: SimulatedConsignment): CourierTrackingStatus {
+  return consignment.events[consignment.events.length - 1]?.status ?? 'BOOKED';
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Move a simulated consignment to `status` and build the signed callback
+ * the courier would send for it
+ */
+export function buildSimulatorWebhook(
+  trackingCode: string,
+  status: CourierTrackingStatus,
+  location?: string
+): { rawBody: Buffer; headers: CourierWebhookHeaders } {
+  const consignment = getConsignment(trackingCode);
+  const event: CourierTrackingEvent = {
+    status,
+    description: `Consignment ${status.toLowerCase().replace(/_/g, ' ')}`,
+    location: location ?? (status === 'DELIVERED' ? consignment.input.consignee.city : null),
+    occurredAt: new Date(),
+  };
+  consignment.events.push(event);
+
+  const body = JSON.stringify({
+    id: `trk_${crypto.randomUUID()}`,
+    cn: trackingCode,
+    status: event.status,
+    description: event.description,
+    location: event.location,
+    timestamp: event.occurredAt.toISOString(),
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  return {
+    rawBody: Buffer.from(body),
+    headers: { [SIGNATURE_HEADER]: `t=${timestamp},v1=${computeSignature(timestamp, body)}` },
+  };
+}
+
+export const courierSimulator: CourierAdapter = {
+  name: 'simulator',
+  displayName: 'Courier Simulator',
+
+  async bookConsignment(input: BookConsignmentInput): Promise<Consignment> {
+    const trackingCode = `SIM${crypto.randomInt(100000000, 999999999)}`;
+    const apiUrl = process.env.API_URL ?? `http://localhost:${process.env.PORT ?? 3000}`;
+
+    consignments.set(trackingCode, {
+      input,
+      events: [
+        {
+          status: 'BOOKED',
+          description: 'Consignment booked',
+          location: input.shipper.city,
+          occurredAt: new Date(),
+        },
+      ],
+    });
+
+    return {
+      trackingCode,
+      trackingUrl: `${apiUrl}/api/couriers/simulator/${trackingCode}`,
+      estimatedDelivery: new Date(Date.now() + DELIVERY_DAYS * 24 * 60 * 60 * 1000),
+    };
+  },
+
+  async getAirwayBill(trackingCode: string): Promise<AirwayBill> {
+    const { input } = getConsignment(trackingCode);
+    const row = (label: string, value: string | number | null) =>
+      `<tr><th>${label}</th><td>${escapeHtml(String(value ?? '-'))}</td></tr>`;
+
+    const html = [
+      '<!doctype html><html><head><meta charset="utf-8">',
+      `<title>Airway bill ${trackingCode}</title></head><body>`,
+      `<h1>${trackingCode}</h1><table>`,
+      row('Order', input.orderNumber),
+      row('From', `${input.shipper.name}, ${input.shipper.address ?? ''} ${input.shipper.city}`),
+      row('Shipper phone', input.shipper.phone),
+      row('To', `${input.consignee.name}, ${input.consignee.address}, ${input.consignee.city}`),
+      row('Consignee phone', input.consignee.phone),
+      row('Pieces', input.pieces),
+      row('Weight (kg)', input.weightKg),
+      row('COD amount (PKR)', input.codAmount),
+      row('Contents', input.description),
+      '</table></body></html>',
+    ].join('');
+
+    return {
+      filename: `${trackingCode}.html`,
+      contentType: 'text/html; charset=utf-8',
+      content: Buffer.from(html),
+    };
+  },
+
+  async cancelConsignment(trackingCode: string): Promise<void> {
+    const consignment = getConsignment(trackingCode);
+    const status = currentStatus(consignment);
+
+    if (status !== 'BOOKED') {
+      throw new Error(`Consignment is already ${status.toLowerCase().replace(/_/g, ' ')}`);
+    }
+
+    consignment.events.push({
+      status: 'CANCELLED',
+      description: 'Booking cancelled by shipper',
+      location: null,
+      occurredAt: new Date(),
+    });
+  },
+
+  async getTracking(trackingCode: string): Promise<CourierTracking> {
+    const consignment = getConsignment(trackingCode);
+
+    return {
+      trackingCode,
+      status: currentStatus(consignment),
+      events: [...consignment.events],
+    };
+  },
+
+  parseWebhook(rawBody: Buffer, headers: CourierWebhookHeaders): CourierWebhookEvent {
+    const header = headers[SIGNATURE_HEADER];
+    const parts = Object.fromEntries(
+      (typeof header === 'string' ? header : '').split(',').map((part) => part.trim().split('='))
+    );
+    const timestamp = parts.t;
+    const signature = parts.v1;
+
+    if (!timestamp || !signature) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error('Webhook timestamp outside tolerance');
+    }
+
+    const expected = computeSignature(timestamp, rawBody.toString('utf8'));
+    const valid =
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+
+    if (!valid) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const payload = JSON.parse(rawBody.toString('utf8'));
+
+    return {
+      eventId: String(payload.id),
+      trackingCode: String(payload.cn),
+      status: payload.status as CourierTrackingStatus,
+      description: payload.description ?? null,
+      location: payload.location ?? null,
+      occurredAt: new Date(payload.timestamp),
+      payload,
+    };
+  },
+};
@@ -0,0 +1,103 @@
+/**
+ * Courier contract
+ *
+ * Every courier (the local simulator, TCS, Leopards, PostEx) is an adapter
+ * implementing CourierAdapter. The courier service only talks to this
+ * interface, so adding a courier means writing an adapter and registering
+ * it in ./index.ts.
+ */
+
+export type CourierWebhookHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Tracking statuses, normalised across couriers
+ */
+export type CourierTrackingStatus =
+  | 'BOOKED'
+  | 'PICKED_UP'
+  | 'IN_TRANSIT'
+  | 'OUT_FOR_DELIVERY'
+  | 'DELIVERED'
+  | 'FAILED_ATTEMPT'
+  | 'RETURNED'
+  | 'CANCELLED';
+
+export interface BookConsignmentInput {
+  shipmentId: string; // Our Shipment id, used as the courier's order reference
+  orderNumber: string;
+  shipper: {
+    name: string;
+    phone: string | null;
+    address: string | null;
+    city: string;
+  };
+  consignee: {
+    name: string;
+    phone: string;
+    address: string;
+    city: string;
+    postalCode: string | null;
+  };
+  pieces: number;
+  weightKg: number;
+  codAmount: number; // Amount the rider collects; 0 for prepaid orders
+  description: string;
+  webhookUrl: string; // Where the courier posts tracking updates
+}
+
+export interface Consignment {
+  trackingCode: string;
+  trackingUrl: string | null;
+  estimatedDelivery: Date | null;
+}
+
+export interface AirwayBill {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface CourierTrackingEvent {
+  status: CourierTrackingStatus;
+  description: string | null;
+  location: string | null;
+  occurredAt: Date;
+}
+
+export interface CourierTracking {
+  trackingCode: string;
+  status: CourierTrackingStatus;
+  events: CourierTrackingEvent[]; // Oldest first
+}
+
+/**
+ * A verified tracking callback, normalised across couriers
+ */
+export interface CourierWebhookEvent extends CourierTrackingEvent {
+  eventId: string; // Unique per callback; used to ignore redeliveries
+  trackingCode: string;
+  payload: Record<string, unknown>;
+}
+
+export interface CourierAdapter {
+  readonly name: string;
+  readonly displayName: string; // Stored as the shipment's carrier
+
+  /** Book a pickup and get the consignment's tracking code */
+  bookConsignment(input: BookConsignmentInput): Promise<Consignment>;
+
+  /** Get the printable airway bill to stick on the parcel */
+  getAirwayBill(trackingCode: string): Promise<AirwayBill>;
+
+  /** Cancel a consignment that has not been picked up yet */
+  cancelConsignment(trackingCode: string): Promise<void>;
+
+  /** Fetch the consignment's tracking history from the courier */
+  getTracking(trackingCode: string): Promise<CourierTracking>;
+
+  /**
+   * Verify a callback's signature against the raw request body and parse it.
+   * Must throw if the signature is missing or invalid.
+   */
+  parseWebhook(rawBody: Buffer, headers: CourierWebhookHeaders): CourierWebhookEvent;
+}
@@ -283,3 +283,340 @@ Start exploring and enjoy your shopping experience!
 
   return sendEmail({ to: email, subject, html, text });
 }
+
+/**
+ * Send a guest their order confirmation with its tracking link
+ */
+export async function sendGuestOrderEmail(
+  email: string,
+  orderNumber: string,
+  trackingUrl: string,
+  customerName?: string
+): Promise<boolean> {
+  const subject = `${appName} - Order ${orderNumber} Placed`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${appName}</h1>
+        </div>
+        <div class="content">
+          <h2>Thank You for Your Order</h2>
+          <p>Hello${customerName ? ` ${customerName}` : ''},</p>
+          <p>Your order <strong>${orderNumber}</strong> has been placed. You can follow it at any time using the link below:</p>
+          <div style="text-align: center;">
+            <a href="${trackingUrl}" class="button">Track Your Order</a>
+          </div>
+          <p>Create an account with this email address to keep all your orders in one place.</p>
+        </div>
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} ${appName}. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+${appName} - Order ${orderNumber} Placed
+
+Hello${customerName ? ` ${customerName}` : ''},
+
+Your order ${orderNumber} has been placed. Track it here:
+
+${trackingUrl}
+
+Create an account with this email address to keep all your orders in one place.
+  `;
+
+  return sendEmail({ to: email, subject, html, text });
+}
+
+/**
+ * Send the OTP for claiming guest orders into an account
+ */
+export async function sendOrderClaimEmail(
+  email: string,
+  otpCode: string,
+  userName?: string
+): Promise<boolean> {
+  const subject = `${appName} - Add Your Orders to Your Account`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .otp-box { background: #4F46E5; color: white; font-size: 32px; font-weight: bold; text-align: center; padding: 20px; margin: 20px 0; border-radius: 8px; letter-spacing: 8px; }
+        .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${appName}</h1>
+        </div>
+        <div class="content">
+          <h2>Add Your Orders to Your Account</h2>
+          <p>Hello${userName ? ` ${userName}` : ''},</p>
+          <p>Use the following OTP to add the orders placed with this email address to your account:</p>
+          <div class="otp-box">${otpCode}</div>
+          <p>This code will expire in <strong>5 minutes</strong>.</p>
+          <p>If you didn't request this, please ignore this email.</p>
+        </div>
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} ${appName}. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+${appName} - Add Your Orders to Your Account
+
+Hello${userName ? ` ${userName}` : ''},
+
+Your code for adding the orders placed with this email address to your account is:
+
+${otpCode}
+
+This code will expire in 5 minutes.
+
+If you didn't request this, please ignore this email.
+  `;
+
+  return sendEmail({ to: email, subject, html, text });
+}
+
+/**
+ * Tell a vendor a shopper asked about one of their products
+ */
+export async function sendProductQuestionEmail(
+  email: string,
+  productName: string,
+  question: string,
+  vendorName?: string
+): Promise<boolean> {
+  const subject = `${appName} - New Question About ${productName}`;
+  const questionsUrl = `${process.env.FRONTEND_URL ?? 'http://localhost:3000'}/vendor/questions`;
+  // Shopper-written, so keep it from being read as markup
+  const questionHtml = question.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .question { background: white; border-left: 4px solid #4F46E5; padding: 15px; margin: 20px 0; }
+        .button { display: inline-block; background: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${appName}</h1>
+        </div>
+        <div class="content">
+          <h2>New Question About ${productName}</h2>
+          <p>Hello${vendorName ? ` ${vendorName}` : ''},</p>
+          <p>A shopper asked:</p>
+          <div class="question">${questionHtml}</div>
+          <p>Answering quickly helps shoppers decide and shows on your product page for everyone.</p>
+          <div style="text-align: center;">
+            <a href="${questionsUrl}" class="button">Answer Question</a>
+          </div>
+        </div>
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} ${appName}. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+${appName} - New Question About ${productName}
+
+Hello${vendorName ? ` ${vendorName}` : ''},
+
+A shopper asked:
+
+${question}
+
+Answer it here: ${questionsUrl}
+  `;
+
+  return sendEmail({ to: email, subject, html, text });
+}
+
+// What a back-in-stock or price-drop alert says
+export interface ProductAlertNotice {
+  type: 'BACK_IN_STOCK' | 'PRICE_DROP';
+  productName: string;
+  price: number;
+  productUrl: string;
+  unsubscribeUrl: string;
+}
+
+/**
+ * Send a back-in-stock or price-drop alert
+ */
+export async function sendProductAlertEmail(
+  email: string,
+  notice: ProductAlertNotice,
+  userName?: string
+): Promise<boolean> {
+  const headline = notice.type === 'BACK_IN_STOCK'
+    ? `${notice.productName} is back in stock`
+    : `${notice.productName} dropped to Rs. ${notice.price}`;
+  const subject = `${appName} - ${headline}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .button { display: inline-block; background: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${appName}</h1>
+        </div>
+        <div class="content">
+          <h2>${headline}</h2>
+          <p>Hello${userName ? ` ${userName}` : ''},</p>
+          <p>You asked us to let you know about <strong>${notice.productName}</strong>. It is now available for <strong>Rs. ${notice.price}</strong>.</p>
+          <div style="text-align: center;">
+            <a href="${notice.productUrl}" class="button">View Product</a>
+          </div>
+          <p>This alert has now been used up; set a new one any time.</p>
+        </div>
+        <div class="footer">
+          <p><a href="${notice.unsubscribeUrl}">Unsubscribe from this alert</a></p>
+          <p>&copy; ${new Date().getFullYear()} ${appName}. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+${appName} - ${headline}
+
+Hello${userName ? ` ${userName}` : ''},
+
+You asked us to let you know about ${notice.productName}. It is now available for Rs. ${notice.price}.
+
+${notice.productUrl}
+
+Unsubscribe from this alert: ${notice.unsubscribeUrl}
+  `;
+
+  return sendEmail({ to: email, subject, html, text });
+}
+
+/**
+ * Send vendor KYC review decision
+ */
+export async function sendKYCDecisionEmail(
+  email: string,
+  approved: boolean,
+  vendorName?: string,
+  reason?: string | null
+): Promise<boolean> {
+  const subject = approved
+    ? `${appName} - Your Vendor Account is Approved`
+    : `${appName} - Action Required on Your KYC Submission`;
+  const kycUrl = `${process.env.FRONTEND_URL ?? 'http://localhost:3000'}/vendor/kyc`;
+  const reasonHtml = reason?.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: ${approved ? '#10B981' : '#EF4444'}; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+        .reason-box { background: #FEF2F2; border-left: 4px solid #EF4444; padding: 12px 16px; margin: 20px 0; }
+        .btn { display: inline-block; background: #4F46E5; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+        .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${approved ? '✓ KYC Approved' : 'KYC Not Approved'}</h1>
+        </div>
+        <div class="content">
+          <p>Hello${vendorName ? ` ${vendorName}` : ''},</p>
+          ${approved
+            ? `<p>Your KYC documents have been verified. Your shops and products are now visible to customers on ${appName}.</p>
+          <p>Happy selling!</p>`
+            : `<p>We could not approve your KYC submission.</p>
+          ${reason ? `<div class="reason-box"><strong>Reason:</strong> ${reasonHtml}</div>` : ''}
+          <p>Please correct the issue and resubmit your documents.</p>
+          <p style="text-align: center;">
+            <a href="${kycUrl}" class="btn">Resubmit KYC</a>
+          </p>`}
+        </div>
+        <div class="footer">
+          <p>&copy; ${new Date().getFullYear()} ${appName}. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = approved
+    ? `
+${appName} - KYC Approved
+
+Hello${vendorName ? ` ${vendorName}` : ''},
+
+Your KYC documents have been verified. Your shops and products are now visible to customers on ${appName}.
+  `
+    : `
+${appName} - KYC Not Approved
+
+Hello${vendorName ? ` ${vendorName}` : ''},
+
+We could not approve your KYC submission.
+${reason ? `Reason: ${reason}\n` : ''}
+Please correct the issue and resubmit your documents at:
+${kycUrl}
+  `;
+
+  return sendEmail({ to: email, subject, html, text });
+}
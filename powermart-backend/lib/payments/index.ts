@@ -0,0 +1,38 @@
+import { mockPaymentProvider } from './mock.ts';
+import type { PaymentProvider } from './types.ts';
+
+export type * from './types.ts';
+export { buildMockWebhook, verifyMockCheckoutToken } from './mock.ts';
+
+/**
+ * Registered payment providers, by name. Gateway adapters (JazzCash,
+ * Easypaisa, card acquirers) are added here once configured.
+ */
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+// The mock provider is never available in production
+if (process.env.NODE_ENV !== 'production') {
+  registerPaymentProvider(mockPaymentProvider);
+}
+
+/**
+ * Get a provider by name, defaulting to PAYMENT_PROVIDER
+ */
+export function getPaymentProvider(name?: string): PaymentProvider {
+  const providerName = name ?? process.env.PAYMENT_PROVIDER ?? 'mock';
+  const provider = providers.get(providerName);
+
+  if (!provider) {
+    throw new Error(`Payment provider "${providerName}" is not configured`);
+  }
+
+  return provider;
+}
+
+export function isPaymentProviderRegistered(name: string): boolean {
+  return providers.has(name);
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import type {
+  CreatePaymentSessionInput,
+  PaymentOutcome,
+  PaymentProvider,
+  PaymentSession,
+  PaymentWebhookEvent,
+  PaymentWebhookHeaders,
+} from './types.ts';
+
+/**
+ * Local mock payment provider
+ *
+ * Behaves like a hosted-checkout gateway without leaving the app: the
+ * redirect URL points at our own mock checkout endpoint, which posts a
+ * signed callback to the webhook the same way a real gateway would.
+ *
+ * Signature header: `x-mock-signature: t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ * computed over `<t>.<raw body>` with MOCK_PAYMENT_SECRET.
+ *
+ * The checkout page is reached by a plain browser redirect, so instead of a
+ * bearer token its URL carries `?token=<expiry>.<hex HMAC-SHA256>` over
+ * `<reference>.<buyer id>.<expiry>`, valid for the life of the session.
+ */
+
+const SIGNATURE_HEADER = 'x-mock-signature';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const SESSION_TTL_MINUTES = 30;
+
+function getSecret(): string {
+  const secret = process.env.MOCK_PAYMENT_SECRET;
+  if (!secret) {
+    throw new Error('Payment provider "mock" is not configured: MOCK_PAYMENT_SECRET is missing');
+  }
+  return secret;
+}
+
+function computeSignature(timestamp: string, rawBody: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+function computeCheckoutSignature(reference: string, userId: string, expires: string): string {
+  return crypto
+    .createHmac('sha256', getSecret())
+    .update(`${reference}.${userId}.${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Check a checkout link's token against the session and its buyer
+ */
+export function verifyMockCheckoutToken(reference: string, userId: string, token: string): boolean {
+  const [expires, signature] = token.split('.');
+  if (!expires || !signature || Date.now() / 1000 > Number(expires)) {
+    return false;
+  }
+
+  const expected = computeCheckoutSignature(reference, userId, expires);
+  return (
+    expected.length === signature.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  );
+}
+
+/**
+ * Build the signed callback the mock gateway would send for a session
+ */
+export function buildMockWebhook(
+  providerReference: string,
+  outcome: Exclude<PaymentOutcome, 'PENDING'>,
+  amount: number
+): { rawBody: Buffer; headers: PaymentWebhookHeaders } {
+  const body = JSON.stringify({
+    id: `evt_${crypto.randomUUID()}`,
+    reference: providerReference,
+    status: outcome === 'SUCCEEDED' ? 'succeeded' : 'failed',
+    amount,
+    failureReason: outcome === 'FAILED' ? 'Card declined' : null,
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  return {
+    rawBody: Buffer.from(body),
+    headers: { [SIGNATURE_HEADER]: `t=${timestamp},v1=${computeSignature(timestamp, body)}` },
+  };
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  async createSession(input: CreatePaymentSessionInput): Promise<PaymentSession> {
+    const providerReference = `mock_${crypto.randomUUID()}`;
+    const apiUrl = process.env.API_URL ?? `http://localhost:${process.env.PORT ?? 3000}`;
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000);
+    const expires = Math.floor(expiresAt.getTime() / 1000).toString();
+    const token = `${expires}.${computeCheckoutSignature(providerReference, input.customer.id, expires)}`;
+
+    return {
+      providerReference,
+      redirectUrl: `${apiUrl}/api/payments/mock/checkout/${providerReference}?token=${token}`,
+      expiresAt,
+    };
+  },
+
+  parseWebhook(rawBody: Buffer, headers: PaymentWebhookHeaders): PaymentWebhookEvent {
+    const header = headers[SIGNATURE_HEADER];
+    const parts = Object.fromEntries(
+      (typeof header === 'string' ? header : '').split(',').map((part) => part.trim().split('='))
+    );
+    const timestamp = parts.t;
+    const signature = parts.v1;
+
+    if (!timestamp || !signature) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error('Webhook timestamp outside tolerance');
+    }
+
+    const expected = computeSignature(timestamp, rawBody.toString('utf8'));
+    const valid =
+      expected.length === signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+
+    if (!valid) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const payload = JSON.parse(rawBody.toString('utf8'));
+
+    return {
+      eventId: String(payload.id),
+      providerReference: String(payload.reference),
+      outcome:
+        payload.status === 'succeeded'
+          ? 'SUCCEEDED'
+          : payload.status === 'failed'
+            ? 'FAILED'
+            : 'PENDING',
+      amount: typeof payload.amount === 'number' ? payload.amount : null,
+      failureReason: payload.failureReason ?? null,
+      payload,
+    };
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Payment provider contract
+ *
+ * Every gateway (the local mock, JazzCash, Easypaisa, card acquirers) is an
+ * adapter implementing PaymentProvider. The payment service only talks to
+ * this interface, so adding a gateway means writing an adapter and
+ * registering it in ./index.ts.
+ */
+
+export type PaymentWebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface CreatePaymentSessionInput {
+  intentId: string; // Our PaymentIntent id, echoed back in callbacks
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  currency: string;
+  customer: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+  returnUrl: string; // Where the buyer lands after the hosted page
+  webhookUrl: string; // Where the provider posts the outcome
+}
+
+export interface PaymentSession {
+  providerReference: string;
+  redirectUrl: string;
+  expiresAt: Date | null;
+}
+
+export type PaymentOutcome = 'SUCCEEDED' | 'FAILED' | 'PENDING';
+
+/**
+ * A verified provider callback, normalised across providers
+ */
+export interface PaymentWebhookEvent {
+  eventId: string; // Unique per callback; used to ignore redeliveries
+  providerReference: string;
+  outcome: PaymentOutcome;
+  amount: number | null;
+  failureReason: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  /** Open a redirect/hosted-checkout session for an intent */
+  createSession(input: CreatePaymentSessionInput): Promise<PaymentSession>;
+
+  /**
+   * Verify a callback's signature against the raw request body and parse it.
+   * Must throw if the signature is missing or invalid.
+   */
+  parseWebhook(rawBody: Buffer, headers: PaymentWebhookHeaders): PaymentWebhookEvent;
+}
@@ -15,7 +15,10 @@
 
 export {
   sendPhoneVerificationOTP,
+  sendGuestOrderMessage,
+  sendProductAlertMessage,
   sendVendorPhoneOTP,
+  sendKYCDecisionMessage,
   isSMSConfigured,
   isWhatsAppReady,
   initWhatsApp,
@@ -20,6 +20,7 @@ import { Boom } from '@hapi/boom';
 import qrcode from 'qrcode-terminal';
 import { existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import type { ProductAlertNotice } from './email.ts';
 
 const appName = process.env.APP_NAME ?? 'PowerMart';
 const SESSION_DIR = join(process.cwd(), 'whatsapp-session');
@@ -217,6 +218,34 @@ export async function sendPhoneVerificationOTP(
   return sendMessage(phoneNumber, message);
 }
 
+/**
+ * Send a guest their order's tracking link via WhatsApp
+ */
+export async function sendGuestOrderMessage(
+  phoneNumber: string,
+  orderNumber: string,
+  trackingUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  const message = `*${appName}*\n\n🛒 Your order *${orderNumber}* has been placed.\n\n📦 Track it here:\n${trackingUrl}`;
+
+  return sendMessage(phoneNumber, message);
+}
+
+/**
+ * Send a back-in-stock or price-drop alert via WhatsApp
+ */
+export async function sendProductAlertMessage(
+  phoneNumber: string,
+  notice: ProductAlertNotice
+): Promise<{ success: boolean; error?: string }> {
+  const headline = notice.type === 'BACK_IN_STOCK'
+    ? `🔔 *${notice.productName}* is back in stock!`
+    : `📉 *${notice.productName}* dropped to *Rs. ${notice.price}*!`;
+  const message = `*${appName}*\n\n${headline}\n\n🛒 ${notice.productUrl}\n\nStop this alert: ${notice.unsubscribeUrl}`;
+
+  return sendMessage(phoneNumber, message);
+}
+
 /**
  * Send vendor KYC phone verification OTP via WhatsApp
  */
@@ -231,6 +260,23 @@ export async function sendVendorPhoneOTP(
   return sendMessage(phoneNumber, message);
 }
 
+/**
+ * Send vendor KYC review decision via WhatsApp
+ */
+export async function sendKYCDecisionMessage(
+  phoneNumber: string,
+  approved: boolean,
+  vendorName?: string,
+  reason?: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const greeting = vendorName ? `Hi ${vendorName}!\n\n` : '';
+  const message = approved
+    ? `${greeting}*${appName} KYC Approved* ✅\n\nYour documents have been verified. Your shops are now live for customers.`
+    : `${greeting}*${appName} KYC Not Approved* ❌\n\n${reason ? `Reason: ${reason}\n\n` : ''}Please fix the issue and resubmit your KYC from your vendor dashboard.`;
+  
+  return sendMessage(phoneNumber, message);
+}
+
 /**
  * Check if WhatsApp is connected and ready
  */
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "order_addresses" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "defaultAddressId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_defaultAddressId_key" ON "users"("defaultAddressId");
+
+-- CreateIndex
+CREATE INDEX "order_addresses_userId_idx" ON "order_addresses"("userId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_defaultAddressId_fkey" FOREIGN KEY ("defaultAddressId") REFERENCES "order_addresses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "vendor_kyc" ADD COLUMN     "rejectionReason" TEXT,
+ADD COLUMN     "reviewedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "vendor_kyc_status_idx" ON "vendor_kyc"("status");
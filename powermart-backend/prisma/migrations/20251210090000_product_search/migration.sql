@@ -0,0 +1,95 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "searchVector" tsvector;
+
+-- CreateFunction
+-- Name and category are indexed with both the English (stemmed) and simple
+-- (unstemmed) configs so Roman Urdu words survive without being mangled.
+CREATE OR REPLACE FUNCTION "product_search_document"(
+  "productName" TEXT,
+  "productDescription" TEXT,
+  "categoryName" TEXT,
+  "shopName" TEXT
+) RETURNS tsvector LANGUAGE sql IMMUTABLE AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, coalesce("productName", '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce("productName", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("categoryName", '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce("categoryName", '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce("shopName", '')), 'C') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("productDescription", '')), 'D') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce("productDescription", '')), 'D')
+$$;
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "products_search_vector_trigger"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW."searchVector" := "product_search_document"(
+    NEW."name",
+    NEW."description",
+    (SELECT c."name" FROM "categories" c WHERE c."id" = NEW."categoryId"),
+    (SELECT s."name" FROM "shops" s WHERE s."id" = NEW."shopId")
+  );
+  RETURN NEW;
+END
+$$;
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "categories_search_vector_trigger"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE "products" p
+  SET "searchVector" = "product_search_document"(p."name", p."description", NEW."name", s."name")
+  FROM "shops" s
+  WHERE s."id" = p."shopId" AND p."categoryId" = NEW."id";
+  RETURN NULL;
+END
+$$;
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "shops_search_vector_trigger"() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE "products" p
+  SET "searchVector" = "product_search_document"(
+    p."name",
+    p."description",
+    (SELECT c."name" FROM "categories" c WHERE c."id" = p."categoryId"),
+    NEW."name"
+  )
+  WHERE p."shopId" = NEW."id";
+  RETURN NULL;
+END
+$$;
+
+-- CreateTrigger
+CREATE TRIGGER "products_search_vector_update"
+BEFORE INSERT OR UPDATE OF "name", "description", "categoryId", "shopId" ON "products"
+FOR EACH ROW EXECUTE FUNCTION "products_search_vector_trigger"();
+
+-- CreateTrigger
+CREATE TRIGGER "categories_search_vector_update"
+AFTER UPDATE OF "name" ON "categories"
+FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name")
+EXECUTE FUNCTION "categories_search_vector_trigger"();
+
+-- CreateTrigger
+CREATE TRIGGER "shops_search_vector_update"
+AFTER UPDATE OF "name" ON "shops"
+FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name")
+EXECUTE FUNCTION "shops_search_vector_trigger"();
+
+-- Backfill
+UPDATE "products" p
+SET "searchVector" = "product_search_document"(
+  p."name",
+  p."description",
+  (SELECT c."name" FROM "categories" c WHERE c."id" = p."categoryId"),
+  (SELECT s."name" FROM "shops" s WHERE s."id" = p."shopId")
+);
+
+-- CreateIndex
+CREATE INDEX "products_searchVector_idx" ON "products" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "products_name_idx" ON "products" USING GIN ("name" gin_trgm_ops);
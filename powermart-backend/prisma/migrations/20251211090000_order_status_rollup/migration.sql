@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PARTIALLY_SHIPPED' AFTER 'CONFIRMED';
+ALTER TYPE "OrderStatus" ADD VALUE 'PARTIALLY_DELIVERED' AFTER 'SHIPPED';
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "OrderEventType" AS ENUM ('ORDER_STATUS', 'ITEM_STATUS', 'PAYMENT_STATUS', 'TRACKING');
+
+-- CreateEnum
+CREATE TYPE "OrderActorRole" AS ENUM ('CUSTOMER', 'VENDOR', 'ADMIN', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "order_status_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT,
+    "type" "OrderEventType" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" "OrderActorRole" NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_events_orderId_createdAt_idx" ON "order_status_events"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_status_events_orderItemId_idx" ON "order_status_events"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "ReturnStatus" AS ENUM ('REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED', 'REFUNDED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ReturnReason" AS ENUM ('DAMAGED', 'DEFECTIVE', 'WRONG_ITEM', 'NOT_AS_DESCRIBED', 'MISSING_PARTS', 'SIZE_ISSUE', 'CHANGED_MIND', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "return_requests" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" "ReturnReason" NOT NULL,
+    "description" TEXT,
+    "evidence" TEXT[],
+    "status" "ReturnStatus" NOT NULL DEFAULT 'REQUESTED',
+    "vendorNote" TEXT,
+    "rejectionReason" TEXT,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "refundAmount" DOUBLE PRECISION,
+    "approvedAt" TIMESTAMP(3),
+    "rejectedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "refundedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "return_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "return_requests_orderItemId_idx" ON "return_requests"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "return_requests_userId_idx" ON "return_requests"("userId");
+
+-- CreateIndex
+CREATE INDEX "return_requests_shopId_status_idx" ON "return_requests"("shopId", "status");
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
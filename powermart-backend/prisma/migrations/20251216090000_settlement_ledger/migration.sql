@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('SHOP_PAYABLE', 'PLATFORM_REVENUE', 'CUSTOMER_FUNDS', 'BANK_PAYOUT');
+
+-- CreateEnum
+CREATE TYPE "LedgerTransactionType" AS ENUM ('SALE', 'REFUND', 'PAYOUT', 'PAYOUT_REVERSAL');
+
+-- CreateEnum
+CREATE TYPE "PayoutBatchStatus" AS ENUM ('GENERATED', 'PAID', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ledger_transactions" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerTransactionType" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "description" TEXT,
+    "orderItemId" TEXT,
+    "returnRequestId" TEXT,
+    "payoutItemId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "shopId" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payout_batches" (
+    "id" TEXT NOT NULL,
+    "status" "PayoutBatchStatus" NOT NULL DEFAULT 'GENERATED',
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "createdById" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payout_items" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "accountTitle" TEXT NOT NULL,
+    "bankName" TEXT NOT NULL,
+    "branchCode" TEXT,
+    "iban" TEXT,
+    "accountNumber" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_transactions_reference_key" ON "ledger_transactions"("reference");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_orderItemId_idx" ON "ledger_transactions"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_payoutItemId_idx" ON "ledger_transactions"("payoutItemId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_shopId_account_availableAt_idx" ON "ledger_entries"("shopId", "account", "availableAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transactionId_idx" ON "ledger_entries"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "payout_batches_status_idx" ON "payout_batches"("status");
+
+-- CreateIndex
+CREATE INDEX "payout_items_batchId_idx" ON "payout_items"("batchId");
+
+-- CreateIndex
+CREATE INDEX "payout_items_vendorId_idx" ON "payout_items"("vendorId");
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "return_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_payoutItemId_fkey" FOREIGN KEY ("payoutItemId") REFERENCES "payout_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "ledger_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_batches" ADD CONSTRAINT "payout_batches_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_items" ADD CONSTRAINT "payout_items_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "payout_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_items" ADD CONSTRAINT "payout_items_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
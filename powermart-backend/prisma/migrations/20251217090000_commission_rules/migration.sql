@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "CommissionScope" AS ENUM ('DEFAULT', 'CATEGORY', 'VENDOR', 'SHOP');
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "commissionAmount" DOUBLE PRECISION,
+ADD COLUMN     "commissionRate" DOUBLE PRECISION,
+ADD COLUMN     "commissionRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "commission_rules" (
+    "id" TEXT NOT NULL,
+    "scope" "CommissionScope" NOT NULL,
+    "categoryId" TEXT,
+    "vendorId" TEXT,
+    "shopId" TEXT,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "commission_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "commission_rules_scope_effectiveFrom_idx" ON "commission_rules"("scope", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "commission_rules_categoryId_idx" ON "commission_rules"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "commission_rules_vendorId_idx" ON "commission_rules"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "commission_rules_shopId_idx" ON "commission_rules"("shopId");
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_commissionRuleId_fkey" FOREIGN KEY ("commissionRuleId") REFERENCES "commission_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_rules" ADD CONSTRAINT "commission_rules_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_rules" ADD CONSTRAINT "commission_rules_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_rules" ADD CONSTRAINT "commission_rules_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_rules" ADD CONSTRAINT "commission_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
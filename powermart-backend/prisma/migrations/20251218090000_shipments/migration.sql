@@ -0,0 +1,88 @@
+-- CreateEnum
+CREATE TYPE "ShipmentStatus" AS ENUM ('PENDING', 'CONFIRMED', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'RETURNED');
+
+-- CreateTable
+CREATE TABLE "shipments" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "status" "ShipmentStatus" NOT NULL DEFAULT 'PENDING',
+    "carrier" TEXT,
+    "trackingCode" TEXT,
+    "trackingUrl" TEXT,
+    "weightKg" DOUBLE PRECISION,
+    "estimatedDelivery" TIMESTAMP(3),
+    "shippedAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipments_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "shipmentId" TEXT;
+
+-- Backfill one shipment per shop for existing orders, carrying over the
+-- tracking details previously stored on items and orders
+INSERT INTO "shipments" (
+    "id", "orderId", "shopId", "status", "carrier", "trackingCode", "trackingUrl",
+    "estimatedDelivery", "deliveredAt", "createdAt", "updatedAt"
+)
+SELECT
+    gen_random_uuid()::text,
+    oi."orderId",
+    oi."shopId",
+    (CASE
+        WHEN bool_and(oi."status" = 'CANCELLED') THEN 'CANCELLED'
+        WHEN bool_and(oi."status" IN ('RETURNED', 'CANCELLED')) THEN 'RETURNED'
+        WHEN bool_and(oi."status" IN ('DELIVERED', 'RETURNED', 'CANCELLED')) THEN 'DELIVERED'
+        WHEN bool_and(oi."status" IN ('SHIPPED', 'DELIVERED', 'RETURNED', 'CANCELLED')) THEN 'SHIPPED'
+        WHEN bool_and(oi."status" <> 'PENDING') THEN 'CONFIRMED'
+        ELSE 'PENDING'
+    END)::"ShipmentStatus",
+    COALESCE(MAX(oi."carrier"), MAX(o."carrier")),
+    COALESCE(MAX(oi."trackingCode"), MAX(o."trackingCode")),
+    COALESCE(MAX(oi."trackingUrl"), MAX(o."trackingUrl")),
+    MAX(o."estimatedDelivery"),
+    MAX(oi."deliveredAt"),
+    MIN(oi."createdAt"),
+    CURRENT_TIMESTAMP
+FROM "order_items" oi
+JOIN "orders" o ON o."id" = oi."orderId"
+GROUP BY oi."orderId", oi."shopId";
+
+UPDATE "order_items" oi
+SET "shipmentId" = s."id"
+FROM "shipments" s
+WHERE s."orderId" = oi."orderId" AND s."shopId" = oi."shopId";
+
+-- AlterTable
+ALTER TABLE "order_items" DROP COLUMN "carrier",
+DROP COLUMN "trackingCode",
+DROP COLUMN "trackingUrl";
+
+-- AlterTable
+ALTER TABLE "orders" DROP COLUMN "carrier",
+DROP COLUMN "estimatedDelivery",
+DROP COLUMN "trackingCode",
+DROP COLUMN "trackingUrl";
+
+-- CreateIndex
+CREATE INDEX "order_items_shipmentId_idx" ON "order_items"("shipmentId");
+
+-- CreateIndex
+CREATE INDEX "shipments_shopId_status_idx" ON "shipments"("shopId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipments_orderId_shopId_key" ON "shipments"("orderId", "shopId");
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
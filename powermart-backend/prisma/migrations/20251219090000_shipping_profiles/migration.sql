@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "ShippingZone" AS ENUM ('SAME_CITY', 'MAJOR_CITY', 'OTHER_CITY', 'REMOTE');
+
+-- CreateEnum
+CREATE TYPE "ShippingRateBasis" AS ENUM ('WEIGHT', 'QUANTITY');
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "weightKg" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "shipments" ADD COLUMN     "shippingFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "zone" "ShippingZone";
+
+-- AlterTable
+ALTER TABLE "ledger_transactions" ADD COLUMN     "shipmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "shipping_profiles" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "basis" "ShippingRateBasis" NOT NULL DEFAULT 'WEIGHT',
+    "originCity" TEXT NOT NULL,
+    "freeShippingThreshold" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipping_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shipping_rates" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "zone" "ShippingZone" NOT NULL,
+    "upTo" DOUBLE PRECISION,
+    "fee" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "shipping_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipping_profiles_shopId_key" ON "shipping_profiles"("shopId");
+
+-- CreateIndex
+CREATE INDEX "shipping_rates_profileId_zone_idx" ON "shipping_rates"("profileId", "zone");
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipping_profiles" ADD CONSTRAINT "shipping_profiles_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "shipping_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "CourierTrackingStatus" AS ENUM ('BOOKED', 'PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY', 'DELIVERED', 'FAILED_ATTEMPT', 'RETURNED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "shipments" ADD COLUMN     "courier" TEXT,
+ADD COLUMN     "courierStatus" "CourierTrackingStatus",
+ADD COLUMN     "bookedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "shipment_tracking_events" (
+    "id" TEXT NOT NULL,
+    "shipmentId" TEXT NOT NULL,
+    "courier" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "status" "CourierTrackingStatus" NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shipment_tracking_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipments_courier_trackingCode_key" ON "shipments"("courier", "trackingCode");
+
+-- CreateIndex
+CREATE INDEX "shipment_tracking_events_shipmentId_occurredAt_idx" ON "shipment_tracking_events"("shipmentId", "occurredAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipment_tracking_events_courier_eventId_key" ON "shipment_tracking_events"("courier", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "shipment_tracking_events" ADD CONSTRAINT "shipment_tracking_events_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "order_number_counters" (
+    "day" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_number_counters_pkey" PRIMARY KEY ("day")
+);
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "ContactChannel" AS ENUM ('EMAIL', 'PHONE');
+
+-- AlterTable
+ALTER TABLE "carts" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "guestId" TEXT;
+
+-- AlterTable
+ALTER TABLE "order_addresses" ALTER COLUMN "userId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "orders" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "guestEmail" TEXT,
+ADD COLUMN     "guestPhone" TEXT,
+ADD COLUMN     "trackingTokenHash" TEXT,
+ADD COLUMN     "claimedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "order_claim_otp" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" "ContactChannel" NOT NULL,
+    "destination" TEXT NOT NULL,
+    "otpCode" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "verified" BOOLEAN NOT NULL DEFAULT false,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_claim_otp_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "carts_guestId_key" ON "carts"("guestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_trackingTokenHash_key" ON "orders"("trackingTokenHash");
+
+-- CreateIndex
+CREATE INDEX "orders_guestEmail_idx" ON "orders"("guestEmail");
+
+-- CreateIndex
+CREATE INDEX "orders_guestPhone_idx" ON "orders"("guestPhone");
+
+-- CreateIndex
+CREATE INDEX "order_claim_otp_userId_idx" ON "order_claim_otp"("userId");
+
+-- AddForeignKey
+ALTER TABLE "order_claim_otp" ADD CONSTRAINT "order_claim_otp_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "ProductAlertType" AS ENUM ('BACK_IN_STOCK', 'PRICE_DROP');
+
+-- CreateTable
+CREATE TABLE "product_alerts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "type" "ProductAlertType" NOT NULL,
+    "targetPrice" DOUBLE PRECISION,
+    "channel" "ContactChannel" NOT NULL,
+    "phoneNumber" TEXT,
+    "unsubscribeToken" TEXT NOT NULL,
+    "triggeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_alerts_unsubscribeToken_key" ON "product_alerts"("unsubscribeToken");
+
+-- CreateIndex
+CREATE INDEX "product_alerts_userId_idx" ON "product_alerts"("userId");
+
+-- CreateIndex
+CREATE INDEX "product_alerts_productId_triggeredAt_idx" ON "product_alerts"("productId", "triggeredAt");
+
+-- AddForeignKey
+ALTER TABLE "product_alerts" ADD CONSTRAINT "product_alerts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_alerts" ADD CONSTRAINT "product_alerts_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_alerts" ADD CONSTRAINT "product_alerts_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "ProductQAStatus" AS ENUM ('PUBLISHED', 'HIDDEN');
+
+-- CreateEnum
+CREATE TYPE "ProductAnswerRole" AS ENUM ('VENDOR', 'VERIFIED_BUYER');
+
+-- CreateTable
+CREATE TABLE "product_questions" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" "ProductQAStatus" NOT NULL DEFAULT 'PUBLISHED',
+    "moderationNote" TEXT,
+    "vendorAnsweredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_answers" (
+    "id" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "authorRole" "ProductAnswerRole" NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" "ProductQAStatus" NOT NULL DEFAULT 'PUBLISHED',
+    "moderationNote" TEXT,
+    "upvoteCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_answer_upvotes" (
+    "answerId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_answer_upvotes_pkey" PRIMARY KEY ("answerId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "product_questions_productId_status_idx" ON "product_questions"("productId", "status");
+
+-- CreateIndex
+CREATE INDEX "product_questions_userId_idx" ON "product_questions"("userId");
+
+-- CreateIndex
+CREATE INDEX "product_answers_questionId_idx" ON "product_answers"("questionId");
+
+-- CreateIndex
+CREATE INDEX "product_answers_userId_idx" ON "product_answers"("userId");
+
+-- CreateIndex
+CREATE INDEX "product_answer_upvotes_userId_idx" ON "product_answer_upvotes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "product_questions" ADD CONSTRAINT "product_questions_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_questions" ADD CONSTRAINT "product_questions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_answers" ADD CONSTRAINT "product_answers_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "product_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_answers" ADD CONSTRAINT "product_answers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_answer_upvotes" ADD CONSTRAINT "product_answer_upvotes_answerId_fkey" FOREIGN KEY ("answerId") REFERENCES "product_answers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_answer_upvotes" ADD CONSTRAINT "product_answer_upvotes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
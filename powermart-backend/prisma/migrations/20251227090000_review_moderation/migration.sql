@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('PENDING', 'PUBLISHED', 'HIDDEN');
+
+-- CreateEnum
+CREATE TYPE "ReviewReportReason" AS ENUM ('SPAM', 'OFFENSIVE', 'IRRELEVANT', 'FAKE', 'OTHER');
+
+-- DropIndex
+DROP INDEX "product_reviews_productId_idx";
+
+-- AlterTable: reviews written before moderation stay published; new ones start pending
+ALTER TABLE "product_reviews" ADD COLUMN     "status" "ReviewStatus" NOT NULL DEFAULT 'PUBLISHED',
+ADD COLUMN     "moderationNote" TEXT,
+ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "vendorReply" TEXT,
+ADD COLUMN     "vendorRepliedAt" TIMESTAMP(3),
+ADD COLUMN     "helpfulCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "reportCount" INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE "product_reviews" ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- CreateTable
+CREATE TABLE "review_helpful_votes" (
+    "reviewId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_helpful_votes_pkey" PRIMARY KEY ("reviewId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "review_reports" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" "ReviewReportReason" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_reviews_productId_status_idx" ON "product_reviews"("productId", "status");
+
+-- CreateIndex
+CREATE INDEX "product_reviews_status_idx" ON "product_reviews"("status");
+
+-- CreateIndex
+CREATE INDEX "review_helpful_votes_userId_idx" ON "review_helpful_votes"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_reports_reviewId_userId_key" ON "review_reports"("reviewId", "userId");
+
+-- CreateIndex
+CREATE INDEX "review_reports_userId_idx" ON "review_reports"("userId");
+
+-- AddForeignKey
+ALTER TABLE "review_helpful_votes" ADD CONSTRAINT "review_helpful_votes_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "product_reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_helpful_votes" ADD CONSTRAINT "review_helpful_votes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_reports" ADD CONSTRAINT "review_reports_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "product_reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_reports" ADD CONSTRAINT "review_reports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
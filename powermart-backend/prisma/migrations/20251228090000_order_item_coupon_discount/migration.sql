@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "couponDiscount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: spread the coupon discount of existing orders over the lines the
+-- coupon's shop or product scope covers, in proportion to their totals
+WITH "eligible" AS (
+    SELECT oi."id",
+           o."discountAmount",
+           oi."totalPrice",
+           SUM(oi."totalPrice") OVER (PARTITION BY oi."orderId") AS "eligibleTotal"
+    FROM "order_items" oi
+    JOIN "orders" o ON o."id" = oi."orderId"
+    LEFT JOIN "coupons" c ON c."id" = o."couponId"
+    WHERE o."couponId" IS NOT NULL
+      AND o."discountAmount" > 0
+      AND (c."scope" IS DISTINCT FROM 'SHOP' OR oi."shopId" = c."shopId")
+      AND (c."scope" IS DISTINCT FROM 'PRODUCT' OR oi."productId" = c."productId")
+)
+UPDATE "order_items" oi
+SET "couponDiscount" = ROUND((e."discountAmount" * e."totalPrice" / e."eligibleTotal")::numeric, 2)
+FROM "eligible" e
+WHERE oi."id" = e."id" AND e."eligibleTotal" > 0;
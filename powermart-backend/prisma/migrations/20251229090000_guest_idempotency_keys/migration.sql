@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "idempotency_keys" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "guestId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_keys_guestId_key_key" ON "idempotency_keys"("guestId", "key");
@@ -0,0 +1,169 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as addressService from '../services/address.service.ts';
+
+/**
+ * Get the user's address book
+ * GET /api/addresses
+ */
+export async function getAddresses(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const addresses = await addressService.getAddresses(req.user.userId);
+    res.status(200).json({ success: true, data: addresses });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get addresses';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get the user's default address
+ * GET /api/addresses/default
+ */
+export async function getDefaultAddress(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const address = await addressService.getDefaultAddress(req.user.userId);
+    if (!address) {
+      res.status(404).json({ success: false, error: 'No default address set' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: address });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get default address';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a single address
+ * GET /api/addresses/:addressId
+ */
+export async function getAddressById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const addressId = req.params.addressId;
+    if (!addressId) {
+      res.status(400).json({ success: false, error: 'Address ID is required' });
+      return;
+    }
+
+    const address = await addressService.getAddressById(req.user.userId, addressId);
+    res.status(200).json({ success: true, data: address });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get address';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Add an address
+ * POST /api/addresses
+ */
+export async function createAddress(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const address = await addressService.createAddress(req.user.userId, req.body);
+    res.status(201).json({ success: true, data: address });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create address';
+    res.status(400).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Update an address
+ * PUT /api/addresses/:addressId
+ */
+export async function updateAddress(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const addressId = req.params.addressId;
+    if (!addressId) {
+      res.status(400).json({ success: false, error: 'Address ID is required' });
+      return;
+    }
+
+    const address = await addressService.updateAddress(req.user.userId, addressId, req.body);
+    res.status(200).json({ success: true, data: address });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update address';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Set an address as default
+ * PATCH /api/addresses/:addressId/default
+ */
+export async function setDefaultAddress(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const addressId = req.params.addressId;
+    if (!addressId) {
+      res.status(400).json({ success: false, error: 'Address ID is required' });
+      return;
+    }
+
+    const address = await addressService.setDefaultAddress(req.user.userId, addressId);
+    res.status(200).json({ success: true, data: address });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to set default address';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Delete an address
+ * DELETE /api/addresses/:addressId
+ */
+export async function deleteAddress(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const addressId = req.params.addressId;
+    if (!addressId) {
+      res.status(400).json({ success: false, error: 'Address ID is required' });
+      return;
+    }
+
+    await addressService.deleteAddress(req.user.userId, addressId);
+    res.status(200).json({ success: true, message: 'Address deleted successfully' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete address';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
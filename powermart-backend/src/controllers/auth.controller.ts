@@ -35,7 +35,7 @@ export async function register(req: AuthenticatedRequest, res: Response): Promis
   try {
     const data: RegisterRequest = req.body;
 
-    const result = await registerUser(data);
+    const result = await registerUser(data, req.guest?.guestId);
 
     res.status(201).json({
       success: true,
@@ -57,7 +57,7 @@ export async function login(req: AuthenticatedRequest, res: Response): Promise<v
   try {
     const data: LoginRequest = req.body;
 
-    const result = await loginUser(data);
+    const result = await loginUser(data, req.guest?.guestId);
 
     res.status(200).json({
       success: true,
@@ -1,22 +1,33 @@
 import type { Response } from 'express';
 import type { AuthenticatedRequest } from '../types/express.types.ts';
 import * as cartService from '../services/cart.service.ts';
+import type { CartOwner } from '../types/cart.types.ts';
+
+// Helper to tell whose cart a request is for: the signed-in user's or the guest's
+function getCartOwner(req: AuthenticatedRequest): CartOwner | null {
+  if (req.user) return { userId: req.user.userId };
+  if (req.guest) return { guestId: req.guest.guestId };
+  return null;
+}
 
 /**
- * Get user's cart
+ * Get the cart with a shipping quote (?addressId= overrides the default address)
  */
 export async function getCart(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
-    if (!req.user) {
+    const owner = getCartOwner(req);
+    if (!owner) {
       res.status(401).json({ success: false, error: 'Authentication required' });
       return;
     }
 
-    const cart = await cartService.getCart(req.user.userId);
+    const addressId = req.query.addressId as string | undefined;
+    const cart = await cartService.getCart(owner, addressId);
     res.status(200).json({ success: true, data: cart });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to get cart';
-    res.status(500).json({ success: false, error: message });
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
   }
 }
 
@@ -25,12 +36,13 @@ export async function getCart(req: AuthenticatedRequest, res: Response): Promise
  */
 export async function addToCart(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
-    if (!req.user) {
+    const owner = getCartOwner(req);
+    if (!owner) {
       res.status(401).json({ success: false, error: 'Authentication required' });
       return;
     }
 
-    const cart = await cartService.addToCart(req.user.userId, req.body);
+    const cart = await cartService.addToCart(owner, req.body);
     res.status(200).json({ success: true, data: cart });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to add item to cart';
@@ -44,7 +56,8 @@ export async function addToCart(req: AuthenticatedRequest, res: Response): Promi
  */
 export async function updateCartItem(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
-    if (!req.user) {
+    const owner = getCartOwner(req);
+    if (!owner) {
       res.status(401).json({ success: false, error: 'Authentication required' });
       return;
     }
@@ -55,7 +68,7 @@ export async function updateCartItem(req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    const cart = await cartService.updateCartItem(req.user.userId, itemId, req.body);
+    const cart = await cartService.updateCartItem(owner, itemId, req.body);
     res.status(200).json({ success: true, data: cart });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to update cart item';
@@ -69,7 +82,8 @@ export async function updateCartItem(req: AuthenticatedRequest, res: Response):
  */
 export async function removeFromCart(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
-    if (!req.user) {
+    const owner = getCartOwner(req);
+    if (!owner) {
       res.status(401).json({ success: false, error: 'Authentication required' });
       return;
     }
@@ -80,7 +94,7 @@ export async function removeFromCart(req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    const cart = await cartService.removeFromCart(req.user.userId, itemId);
+    const cart = await cartService.removeFromCart(owner, itemId);
     res.status(200).json({ success: true, data: cart });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to remove item from cart';
@@ -94,12 +108,13 @@ export async function removeFromCart(req: AuthenticatedRequest, res: Response):
  */
 export async function clearCart(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
-    if (!req.user) {
+    const owner = getCartOwner(req);
+    if (!owner) {
       res.status(401).json({ success: false, error: 'Authentication required' });
       return;
     }
 
-    const cart = await cartService.clearCart(req.user.userId);
+    const cart = await cartService.clearCart(owner);
     res.status(200).json({ success: true, data: cart, message: 'Cart cleared successfully' });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to clear cart';
@@ -112,15 +127,75 @@ export async function clearCart(req: AuthenticatedRequest, res: Response): Promi
  */
 export async function validateCart(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
-    if (!req.user) {
+    const owner = getCartOwner(req);
+    if (!owner) {
       res.status(401).json({ success: false, error: 'Authentication required' });
       return;
     }
 
-    const result = await cartService.validateCartForCheckout(req.user.userId);
+    const result = await cartService.validateCartForCheckout(owner);
     res.status(200).json({ success: true, data: result });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to validate cart';
     res.status(500).json({ success: false, error: message });
   }
 }
+
+/**
+ * Accept the current prices of lines whose price changed
+ */
+export async function acknowledgePriceChanges(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const owner = getCartOwner(req);
+    if (!owner) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const cart = await cartService.acknowledgePriceChanges(owner, req.body.itemIds);
+    res.status(200).json({ success: true, data: cart });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to acknowledge price changes';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Apply a coupon code to the cart
+ */
+export async function applyCoupon(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const owner = getCartOwner(req);
+    if (!owner) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const cart = await cartService.applyCoupon(owner, req.body.code);
+    res.status(200).json({ success: true, data: cart });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to apply coupon';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Remove the applied coupon from the cart
+ */
+export async function removeCoupon(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const owner = getCartOwner(req);
+    if (!owner) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const cart = await cartService.removeCoupon(owner);
+    res.status(200).json({ success: true, data: cart });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to remove coupon';
+    res.status(500).json({ success: false, error: message });
+  }
+}
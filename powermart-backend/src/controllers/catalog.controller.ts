@@ -0,0 +1,89 @@
+import type { Request, Response } from 'express';
+import * as catalogService from '../services/catalog.service.ts';
+import * as searchService from '../services/search.service.ts';
+import type { CatalogFilters, CatalogSort } from '../types/catalog.types.ts';
+
+// Helper to parse the shared catalog filter query params
+function parseCatalogFilters(req: Request): CatalogFilters {
+  const { categoryId, category, shopId, minPrice, maxPrice, minRating, inStock, sort } = req.query;
+
+  const filters: CatalogFilters = {};
+  if (categoryId) filters.categoryId = categoryId as string;
+  if (category) filters.categorySlug = category as string;
+  if (shopId) filters.shopId = shopId as string;
+  if (minPrice) filters.minPrice = parseFloat(minPrice as string);
+  if (maxPrice) filters.maxPrice = parseFloat(maxPrice as string);
+  if (minRating) filters.minRating = parseFloat(minRating as string);
+  if (inStock) filters.inStock = inStock === 'true';
+  if (sort) filters.sort = sort as CatalogSort;
+
+  return filters;
+}
+
+/**
+ * Browse storefront products across all shops
+ * GET /api/products
+ */
+export async function getProducts(req: Request, res: Response): Promise<void> {
+  try {
+    const { page, limit } = req.query;
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await catalogService.getCatalogProducts(parseCatalogFilters(req), pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get products';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Search storefront products across all shops
+ * GET /api/products/search?q=
+ */
+export async function searchProducts(req: Request, res: Response): Promise<void> {
+  try {
+    const { q, page, limit } = req.query;
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await searchService.searchCatalogProducts(
+      q as string,
+      parseCatalogFilters(req),
+      pageNum,
+      limitNum
+    );
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to search products';
+    const statusCode = message.includes('not found') ? 404 : message.includes('Search query') ? 400 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a storefront product
+ * GET /api/products/:productId
+ */
+export async function getProductById(req: Request, res: Response): Promise<void> {
+  try {
+    const productId = req.params.productId;
+    if (!productId) {
+      res.status(400).json({ success: false, error: 'Product ID is required' });
+      return;
+    }
+
+    const product = await catalogService.getCatalogProductById(productId);
+    if (!product) {
+      res.status(404).json({ success: false, error: 'Product not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: product });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get product';
+    res.status(500).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,70 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as commissionService from '../services/commission.service.ts';
+import type { CommissionRuleFilters } from '../types/commission.types.ts';
+
+/**
+ * Add a commission rule
+ * POST /api/admin/commission-rules
+ */
+export async function createCommissionRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const rule = await commissionService.createCommissionRule(req.user.userId, req.body);
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create commission rule';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * List commission rules
+ * GET /api/admin/commission-rules
+ */
+export async function getCommissionRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const { scope, categoryId, vendorId, shopId, page, limit } = req.query;
+
+    const filters: CommissionRuleFilters = {};
+    if (scope) filters.scope = scope as any;
+    if (categoryId) filters.categoryId = categoryId as string;
+    if (vendorId) filters.vendorId = vendorId as string;
+    if (shopId) filters.shopId = shopId as string;
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await commissionService.getCommissionRules(filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get commission rules';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Delete a rule that has not taken effect yet
+ * DELETE /api/admin/commission-rules/:ruleId
+ */
+export async function deleteCommissionRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const ruleId = req.params.ruleId;
+    if (!ruleId) {
+      res.status(400).json({ success: false, error: 'Rule ID is required' });
+      return;
+    }
+
+    await commissionService.deleteCommissionRule(ruleId);
+    res.status(200).json({ success: true, message: 'Commission rule deleted' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete commission rule';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
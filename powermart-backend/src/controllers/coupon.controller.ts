@@ -0,0 +1,93 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as couponService from '../services/coupon.service.ts';
+import type { CouponFilters } from '../types/coupon.types.ts';
+
+/**
+ * Create a coupon
+ * POST /api/admin/coupons
+ */
+export async function createCoupon(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const coupon = await couponService.createCoupon(req.body);
+    res.status(201).json({ success: true, data: coupon });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create coupon';
+    const statusCode = message.includes('not found')
+      ? 404
+      : message.includes('already exists')
+        ? 409
+        : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * List coupons
+ * GET /api/admin/coupons
+ */
+export async function getCoupons(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const { scope, isActive, search, page, limit } = req.query;
+
+    const filters: CouponFilters = {};
+    if (scope) filters.scope = scope as any;
+    if (isActive !== undefined) filters.isActive = isActive === 'true';
+    if (search) filters.search = search as string;
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await couponService.getCoupons(filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get coupons';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a coupon
+ * GET /api/admin/coupons/:couponId
+ */
+export async function getCouponById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const couponId = req.params.couponId;
+    if (!couponId) {
+      res.status(400).json({ success: false, error: 'Coupon ID is required' });
+      return;
+    }
+
+    const coupon = await couponService.getCouponById(couponId);
+    if (!coupon) {
+      res.status(404).json({ success: false, error: 'Coupon not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: coupon });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get coupon';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Update a coupon
+ * PATCH /api/admin/coupons/:couponId
+ */
+export async function updateCoupon(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const couponId = req.params.couponId;
+    if (!couponId) {
+      res.status(400).json({ success: false, error: 'Coupon ID is required' });
+      return;
+    }
+
+    const coupon = await couponService.updateCoupon(couponId, req.body);
+    res.status(200).json({ success: true, data: coupon });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update coupon';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,184 @@
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as courierService from '../services/courier.service.ts';
+
+/**
+ * List the couriers shipments can be booked with
+ * GET /api/couriers
+ */
+export async function getCouriers(_req: Request, res: Response): Promise<void> {
+  res.status(200).json({ success: true, data: courierService.getCouriers() });
+}
+
+/**
+ * Receive a signed courier tracking callback
+ * POST /api/couriers/webhooks/:courier
+ */
+export async function handleWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const courier = req.params.courier;
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!courier || !rawBody) {
+      res.status(400).json({ success: false, error: 'Invalid webhook request' });
+      return;
+    }
+
+    const result = await courierService.handleCourierWebhook(courier, rawBody, req.headers);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to process webhook';
+    const statusCode = message.includes('signature') || message.includes('tolerance')
+      ? 401
+      : message.includes('not found') || message.includes('not configured')
+        ? 404
+        : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Tracking page of a simulated consignment (non-production only)
+ * GET /api/couriers/simulator/:trackingCode
+ */
+export async function getSimulatedTracking(req: Request, res: Response): Promise<void> {
+  try {
+    const trackingCode = req.params.trackingCode;
+    if (!trackingCode) {
+      res.status(400).json({ success: false, error: 'Tracking code is required' });
+      return;
+    }
+
+    const tracking = await courierService.getSimulatedTracking(trackingCode);
+    res.status(200).json({ success: true, data: tracking });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get tracking';
+    const statusCode = message.includes('not found') || message.includes('not configured') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Move a simulated consignment along, sending its tracking callback
+ * (non-production only)
+ * POST /api/couriers/simulator/:trackingCode/advance
+ */
+export async function advanceSimulatedConsignment(req: Request, res: Response): Promise<void> {
+  try {
+    const trackingCode = req.params.trackingCode;
+    if (!trackingCode) {
+      res.status(400).json({ success: false, error: 'Tracking code is required' });
+      return;
+    }
+
+    const result = await courierService.advanceSimulatedConsignment(
+      trackingCode,
+      req.body.status,
+      req.body.location
+    );
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to advance consignment';
+    const statusCode = message.includes('not found') || message.includes('not configured') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Book a shipment with a courier
+ * POST /api/vendor/shipments/:shipmentId/book
+ */
+export async function bookShipment(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const vendor = (req as any).vendor;
+    const shipmentId = req.params.shipmentId;
+    if (!shipmentId) {
+      res.status(400).json({ success: false, error: 'Shipment ID is required' });
+      return;
+    }
+
+    const shipment = await courierService.bookShipment(vendor.id, req.user.userId, shipmentId, req.body);
+    res.status(200).json({ success: true, data: shipment });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to book shipment';
+    const statusCode = message.includes('not found') || message.includes('not configured') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Cancel a shipment's courier booking
+ * POST /api/vendor/shipments/:shipmentId/cancel-booking
+ */
+export async function cancelBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const vendor = (req as any).vendor;
+    const shipmentId = req.params.shipmentId;
+    if (!shipmentId) {
+      res.status(400).json({ success: false, error: 'Shipment ID is required' });
+      return;
+    }
+
+    const shipment = await courierService.cancelBooking(vendor.id, req.user.userId, shipmentId);
+    res.status(200).json({ success: true, data: shipment });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to cancel booking';
+    const statusCode = message.includes('not found') || message.includes('not configured') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Download a shipment's airway bill
+ * GET /api/vendor/shipments/:shipmentId/airway-bill
+ */
+export async function getAirwayBill(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const shipmentId = req.params.shipmentId;
+    if (!shipmentId) {
+      res.status(400).json({ success: false, error: 'Shipment ID is required' });
+      return;
+    }
+
+    const airwayBill = await courierService.getAirwayBill(vendor.id, shipmentId);
+    res.setHeader('Content-Type', airwayBill.contentType);
+    res.setHeader('Content-Disposition', `inline; filename="${airwayBill.filename}"`);
+    res.status(200).send(airwayBill.content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get airway bill';
+    const statusCode = message.includes('not found') || message.includes('not configured') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Fetch a shipment's tracking from its courier
+ * GET /api/vendor/shipments/:shipmentId/tracking
+ */
+export async function getShipmentTracking(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const shipmentId = req.params.shipmentId;
+    if (!shipmentId) {
+      res.status(400).json({ success: false, error: 'Shipment ID is required' });
+      return;
+    }
+
+    const tracking = await courierService.getShipmentTracking(vendor.id, shipmentId);
+    res.status(200).json({ success: true, data: tracking });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get tracking';
+    const statusCode = message.includes('not found') || message.includes('not configured') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,102 @@
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as guestCheckoutService from '../services/guestCheckout.service.ts';
+import { InsufficientStockError } from '../services/inventory.service.ts';
+import { PriceChangedError } from '../services/cart.service.ts';
+
+/**
+ * Start a guest session for an anonymous cart
+ * POST /api/cart/guest
+ */
+export async function createGuestSession(_req: Request, res: Response): Promise<void> {
+  res.status(201).json({ success: true, data: guestCheckoutService.createGuestSession() });
+}
+
+/**
+ * Place the guest's cart as an order
+ * POST /api/orders/guest-checkout
+ */
+export async function guestCheckout(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.guest) {
+      res.status(401).json({ success: false, error: 'Guest token required' });
+      return;
+    }
+
+    const result = await guestCheckoutService.guestCheckout(req.guest.guestId, req.body);
+    res.status(201).json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      res.status(409).json({ success: false, error: error.message, failedItems: error.failures });
+      return;
+    }
+    if (error instanceof PriceChangedError) {
+      res.status(409).json({ success: false, error: error.message, priceChanges: error.changes });
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to checkout';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * View a guest order through its tracking link
+ * GET /api/orders/track/:token
+ */
+export async function getGuestOrder(req: Request, res: Response): Promise<void> {
+  try {
+    const token = req.params.token;
+    if (!token) {
+      res.status(400).json({ success: false, error: 'Tracking token is required' });
+      return;
+    }
+
+    const order = await guestCheckoutService.getGuestOrderByTrackingToken(token);
+    res.status(200).json({ success: true, data: order });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get order';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Send the code for claiming guest orders placed with an email or phone number
+ * POST /api/orders/claim/send-otp
+ */
+export async function sendOrderClaimOTP(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const result = await guestCheckoutService.sendOrderClaimOTP(req.user.userId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to send verification code';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Claim guest orders into the user's account
+ * POST /api/orders/claim
+ */
+export async function claimGuestOrders(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const result = await guestCheckoutService.claimGuestOrders(req.user.userId, req.body);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to claim orders';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
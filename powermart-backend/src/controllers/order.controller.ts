@@ -1,6 +1,8 @@
 import type { Response } from 'express';
 import type { AuthenticatedRequest } from '../types/express.types.ts';
 import * as orderService from '../services/order.service.ts';
+import { InsufficientStockError } from '../services/inventory.service.ts';
+import { PriceChangedError } from '../services/cart.service.ts';
 import type { OrderFilters, UpdateOrderItemStatusRequest } from '../types/order.types.ts';
 
 export async function createOrder(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -13,6 +15,10 @@ export async function createOrder(req: AuthenticatedRequest, res: Response): Pro
     const order = await orderService.createOrder(req.user.userId, req.body);
     res.status(201).json({ success: true, data: order });
   } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      res.status(409).json({ success: false, error: error.message, failedItems: error.failures });
+      return;
+    }
     const message = error instanceof Error ? error.message : 'Failed to create order';
     res.status(400).json({ success: false, error: message });
   }
@@ -46,6 +52,63 @@ export async function getOrderById(req: AuthenticatedRequest, res: Response): Pr
   }
 }
 
+/**
+ * Look up one of the user's orders by its number
+ * GET /api/orders/lookup/:orderNumber
+ */
+export async function getOrderByNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const orderNumber = req.params.orderNumber;
+    if (!orderNumber) {
+      res.status(400).json({ success: false, error: 'Order number is required' });
+      return;
+    }
+
+    const order = await orderService.getOrderByNumber(orderNumber, req.user.userId);
+    if (!order) {
+      res.status(404).json({ success: false, error: 'Order not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: order });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to look up order';
+    const statusCode = message.includes('Invalid order number') ? 400 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Look up any order by its number (admin)
+ * GET /api/admin/orders/lookup/:orderNumber
+ */
+export async function adminGetOrderByNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const orderNumber = req.params.orderNumber;
+    if (!orderNumber) {
+      res.status(400).json({ success: false, error: 'Order number is required' });
+      return;
+    }
+
+    const order = await orderService.getOrderByNumber(orderNumber);
+    if (!order) {
+      res.status(404).json({ success: false, error: 'Order not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: order });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to look up order';
+    const statusCode = message.includes('Invalid order number') ? 400 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
 export async function getUserOrders(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
     if (!req.user) {
@@ -91,7 +154,12 @@ export async function updateOrderStatus(req: AuthenticatedRequest, res: Response
       return;
     }
 
-    const order = await orderService.updateOrderStatus(orderId, req.body, req.user.userId);
+    const order = await orderService.updateOrderStatus(
+      orderId,
+      req.body,
+      req.user.userId,
+      req.user.role
+    );
     res.status(200).json({ success: true, data: order });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to update order status';
@@ -113,7 +181,12 @@ export async function updatePaymentStatus(req: AuthenticatedRequest, res: Respon
       return;
     }
 
-    const order = await orderService.updatePaymentStatus(orderId, req.body, req.user.userId);
+    const order = await orderService.updatePaymentStatus(
+      orderId,
+      req.body,
+      req.user.userId,
+      req.user.role
+    );
     res.status(200).json({ success: true, data: order });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to update payment status';
@@ -136,12 +209,7 @@ export async function updateOrderItemStatus(req: AuthenticatedRequest, res: Resp
       return;
     }
 
-    const payload: UpdateOrderItemStatusRequest = {
-      ...req.body,
-      estimatedDelivery: req.body.estimatedDelivery
-        ? new Date(req.body.estimatedDelivery)
-        : undefined,
-    };
+    const payload: UpdateOrderItemStatusRequest = req.body;
 
     const order = await orderService.updateOrderItemStatus(
       orderId,
@@ -171,7 +239,12 @@ export async function cancelOrder(req: AuthenticatedRequest, res: Response): Pro
       return;
     }
 
-    const order = await orderService.cancelOrder(orderId, req.user.userId);
+    const order = await orderService.cancelOrder(
+      orderId,
+      req.user.userId,
+      req.user.role,
+      req.body?.note
+    );
     res.status(200).json({ success: true, data: order });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to cancel order';
@@ -180,6 +253,32 @@ export async function cancelOrder(req: AuthenticatedRequest, res: Response): Pro
   }
 }
 
+/**
+ * Get order status history (buyer, vendors of its items, admins)
+ * GET /api/orders/:orderId/timeline
+ */
+export async function getOrderTimeline(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const orderId = req.params.orderId;
+    if (!orderId) {
+      res.status(400).json({ success: false, error: 'Order ID is required' });
+      return;
+    }
+
+    const timeline = await orderService.getOrderTimeline(orderId, req.user.userId, req.user.role);
+    res.status(200).json({ success: true, data: timeline });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get order timeline';
+    const statusCode = message.includes('Unauthorized') ? 403 : message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
 /**
  * Create order from cart (checkout)
  */
@@ -193,6 +292,14 @@ export async function checkoutFromCart(req: AuthenticatedRequest, res: Response)
     const order = await orderService.checkoutFromCart(req.user.userId, req.body);
     res.status(201).json({ success: true, data: order });
   } catch (error) {
+    if (error instanceof InsufficientStockError) {
+      res.status(409).json({ success: false, error: error.message, failedItems: error.failures });
+      return;
+    }
+    if (error instanceof PriceChangedError) {
+      res.status(409).json({ success: false, error: error.message, priceChanges: error.changes });
+      return;
+    }
     const message = error instanceof Error ? error.message : 'Failed to checkout';
     const statusCode = message.includes('not found') ? 404 : 400;
     res.status(statusCode).json({ success: false, error: message });
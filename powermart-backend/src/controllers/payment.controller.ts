@@ -0,0 +1,109 @@
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as paymentService from '../services/payment.service.ts';
+
+/**
+ * Start an online payment for an order
+ * POST /api/payments/intents
+ */
+export async function createPaymentIntent(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const intent = await paymentService.createPaymentIntent(req.user.userId, req.body);
+    res.status(201).json({ success: true, data: intent });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to start payment';
+    const statusCode = message.includes('Unauthorized') ? 403 : message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a payment intent
+ * GET /api/payments/intents/:intentId
+ */
+export async function getPaymentIntent(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const intentId = req.params.intentId;
+    if (!intentId) {
+      res.status(400).json({ success: false, error: 'Payment intent ID is required' });
+      return;
+    }
+
+    const intent = await paymentService.getPaymentIntent(req.user.userId, intentId);
+    if (!intent) {
+      res.status(404).json({ success: false, error: 'Payment intent not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: intent });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get payment intent';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Receive a signed payment provider callback
+ * POST /api/payments/webhooks/:provider
+ */
+export async function handleWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const provider = req.params.provider;
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!provider || !rawBody) {
+      res.status(400).json({ success: false, error: 'Invalid webhook request' });
+      return;
+    }
+
+    const result = await paymentService.handlePaymentWebhook(provider, rawBody, req.headers);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to process webhook';
+    const statusCode = message.includes('signature') || message.includes('tolerance')
+      ? 401
+      : message.includes('not found') || message.includes('not configured')
+        ? 404
+        : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Hosted checkout page of the mock provider (non-production only).
+ * Reached by redirect, so the buyer is identified by the link's `?token`.
+ * `?outcome=failed` simulates a declined payment.
+ * GET /api/payments/mock/checkout/:reference
+ */
+export async function completeMockCheckout(req: Request, res: Response): Promise<void> {
+  try {
+    const reference = req.params.reference;
+    if (!reference) {
+      res.status(400).json({ success: false, error: 'Payment reference is required' });
+      return;
+    }
+
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const outcome = req.query.outcome === 'failed' ? 'FAILED' : 'SUCCEEDED';
+    const returnUrl = await paymentService.completeMockCheckout(reference, token, outcome);
+    res.redirect(returnUrl);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to complete mock checkout';
+    const statusCode =
+      message.includes('not found') || message.includes('not configured')
+        ? 404
+        : message.includes('Unauthorized')
+          ? 403
+          : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,166 @@
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as productAlertService from '../services/productAlert.service.ts';
+
+/**
+ * Get the user's back-in-stock and price-drop alerts
+ * GET /api/alerts
+ */
+export async function getAlerts(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const alerts = await productAlertService.getAlerts(req.user.userId);
+    res.status(200).json({ success: true, data: alerts });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get alerts';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Subscribe to a back-in-stock or price-drop alert
+ * POST /api/alerts
+ */
+export async function createAlert(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const alert = await productAlertService.createAlert(req.user.userId, req.body);
+    res.status(201).json({ success: true, data: alert });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create alert';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Delete an alert
+ * DELETE /api/alerts/:alertId
+ */
+export async function deleteAlert(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const alertId = req.params.alertId;
+    if (!alertId) {
+      res.status(400).json({ success: false, error: 'Alert ID is required' });
+      return;
+    }
+
+    await productAlertService.deleteAlert(req.user.userId, alertId);
+    res.status(200).json({ success: true, message: 'Alert deleted successfully' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete alert';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Unsubscribe through the link sent with an alert (public).
+ * Answers the confirmation page's form with a page, API clients with JSON.
+ * POST /api/alerts/unsubscribe/:token
+ */
+export async function unsubscribeAlert(req: Request, res: Response): Promise<void> {
+  const wantsPage = req.accepts(['json', 'html']) === 'html';
+
+  try {
+    const token = req.params.token;
+    if (!token) {
+      if (wantsPage) {
+        res.status(400).type('html').send(renderUnsubscribePage('Invalid link', 'This unsubscribe link is not valid.'));
+        return;
+      }
+      res.status(400).json({ success: false, error: 'Unsubscribe token is required' });
+      return;
+    }
+
+    const result = await productAlertService.unsubscribeAlert(token);
+    if (wantsPage) {
+      res.status(200).type('html').send(renderUnsubscribePage('Unsubscribed', result.message));
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to unsubscribe';
+    const statusCode = message.includes('not found') ? 404 : 400;
+
+    if (wantsPage) {
+      const page = message.includes('not found')
+        ? renderUnsubscribePage('Already unsubscribed', 'This alert was not found or you have already unsubscribed.')
+        : renderUnsubscribePage('Something went wrong', 'We could not unsubscribe you just now. Please try the link again later.');
+      res.status(message.includes('not found') ? 404 : 500).type('html').send(page);
+      return;
+    }
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+// Helper to render the pages an emailed unsubscribe link leads to.
+// With `formAction` the page asks for confirmation and posts there.
+function renderUnsubscribePage(title: string, message: string, formAction?: string): string {
+  const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+  const appName = process.env.APP_NAME ?? 'PowerMart';
+
+  const action = formAction
+    ? `<form method="post" action="${formAction}">
+      <button type="submit" class="button">Unsubscribe</button>
+    </form>`
+    : `<a href="${frontendUrl}" class="button">Continue shopping on ${appName}</a>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title} - ${appName}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; background: #f9fafb; }
+    .container { max-width: 480px; margin: 60px auto; padding: 30px; background: white; border-radius: 8px; text-align: center; }
+    .button { display: inline-block; background: #4F46E5; color: white; padding: 10px 24px; text-decoration: none; border: none; border-radius: 6px; margin-top: 16px; font-size: 16px; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${title}</h1>
+    <p>${message}</p>
+    ${action}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Page the link in an alert message opens. It only asks for confirmation,
+ * so link scanners and prefetchers opening it do not unsubscribe anyone.
+ * GET /api/alerts/unsubscribe/:token
+ */
+export async function unsubscribeAlertPage(req: Request, res: Response): Promise<void> {
+  const token = req.params.token;
+  if (!token) {
+    res.status(400).type('html').send(renderUnsubscribePage('Invalid link', 'This unsubscribe link is not valid.'));
+    return;
+  }
+
+  res
+    .status(200)
+    .type('html')
+    .send(
+      renderUnsubscribePage(
+        'Unsubscribe from this alert?',
+        'You will no longer be notified about this product.',
+        `/api/alerts/unsubscribe/${encodeURIComponent(token)}`
+      )
+    );
+}
@@ -0,0 +1,301 @@
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as productQuestionService from '../services/productQuestion.service.ts';
+import type { AdminQuestionFilters, VendorQuestionFilters } from '../types/productQuestion.types.ts';
+
+// Helper to map service errors to HTTP status codes
+function getErrorStatus(message: string): number {
+  if (message.includes('Unauthorized')) return 403;
+  if (message.includes('not found')) return 404;
+  return 400;
+}
+
+/**
+ * Get a product's questions and answers (public)
+ * GET /api/questions/products/:productId
+ */
+export async function getProductQuestions(req: Request, res: Response): Promise<void> {
+  try {
+    const productId = req.params.productId;
+    if (!productId) {
+      res.status(400).json({ success: false, error: 'Product ID is required' });
+      return;
+    }
+
+    const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
+
+    const result = await productQuestionService.getProductQuestions(productId, page, limit);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get questions';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Ask a question about a product
+ * POST /api/questions/products/:productId
+ */
+export async function askQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const productId = req.params.productId;
+    if (!productId) {
+      res.status(400).json({ success: false, error: 'Product ID is required' });
+      return;
+    }
+
+    const question = await productQuestionService.askQuestion(req.user.userId, productId, req.body);
+    res.status(201).json({ success: true, data: question });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to ask question';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Delete the user's own question
+ * DELETE /api/questions/:questionId
+ */
+export async function deleteQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const questionId = req.params.questionId;
+    if (!questionId) {
+      res.status(400).json({ success: false, error: 'Question ID is required' });
+      return;
+    }
+
+    await productQuestionService.deleteQuestion(req.user.userId, questionId);
+    res.status(200).json({ success: true, message: 'Question deleted successfully' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete question';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Answer a question as a verified buyer
+ * POST /api/questions/:questionId/answers
+ */
+export async function answerQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const questionId = req.params.questionId;
+    if (!questionId) {
+      res.status(400).json({ success: false, error: 'Question ID is required' });
+      return;
+    }
+
+    const answer = await productQuestionService.answerAsBuyer(req.user.userId, questionId, req.body);
+    res.status(201).json({ success: true, data: answer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to answer question';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Delete the user's own answer
+ * DELETE /api/questions/answers/:answerId
+ */
+export async function deleteAnswer(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const answerId = req.params.answerId;
+    if (!answerId) {
+      res.status(400).json({ success: false, error: 'Answer ID is required' });
+      return;
+    }
+
+    await productQuestionService.deleteAnswer(req.user.userId, answerId);
+    res.status(200).json({ success: true, message: 'Answer deleted successfully' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete answer';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Upvote an answer as helpful
+ * POST /api/questions/answers/:answerId/upvote
+ */
+export async function upvoteAnswer(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const answerId = req.params.answerId;
+    if (!answerId) {
+      res.status(400).json({ success: false, error: 'Answer ID is required' });
+      return;
+    }
+
+    const answer = await productQuestionService.upvoteAnswer(req.user.userId, answerId);
+    res.status(200).json({ success: true, data: answer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to upvote answer';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Take back an upvote
+ * DELETE /api/questions/answers/:answerId/upvote
+ */
+export async function removeUpvote(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const answerId = req.params.answerId;
+    if (!answerId) {
+      res.status(400).json({ success: false, error: 'Answer ID is required' });
+      return;
+    }
+
+    const answer = await productQuestionService.removeUpvote(req.user.userId, answerId);
+    res.status(200).json({ success: true, data: answer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to remove upvote';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * The vendor's question queue (unanswered by default)
+ * GET /api/vendor/questions
+ */
+export async function getVendorQuestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const { status, productId, page, limit } = req.query;
+
+    const filters: VendorQuestionFilters = {};
+    if (status) filters.status = status as any;
+    if (productId) filters.productId = productId as string;
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await productQuestionService.getVendorQuestions(vendor.id, filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get questions';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Answer a question about one of the vendor's products
+ * POST /api/vendor/products/:productId/questions/:questionId/answers
+ */
+export async function vendorAnswerQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const { productId, questionId } = req.params;
+    if (!productId || !questionId) {
+      res.status(400).json({ success: false, error: 'Product ID and question ID are required' });
+      return;
+    }
+
+    const answer = await productQuestionService.answerAsVendor(
+      req.user.userId,
+      productId,
+      questionId,
+      req.body
+    );
+    res.status(201).json({ success: true, data: answer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to answer question';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * List questions for moderation
+ * GET /api/admin/questions
+ */
+export async function adminGetQuestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const { status, productId, page, limit } = req.query;
+
+    const filters: AdminQuestionFilters = {};
+    if (status) filters.status = status as any;
+    if (productId) filters.productId = productId as string;
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await productQuestionService.getQuestionsForModeration(filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get questions';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Hide or restore a question
+ * PATCH /api/admin/questions/:questionId
+ */
+export async function moderateQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const questionId = req.params.questionId;
+    if (!questionId) {
+      res.status(400).json({ success: false, error: 'Question ID is required' });
+      return;
+    }
+
+    const question = await productQuestionService.moderateQuestion(questionId, req.body);
+    res.status(200).json({ success: true, data: question });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to moderate question';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Hide or restore an answer
+ * PATCH /api/admin/answers/:answerId
+ */
+export async function moderateAnswer(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const answerId = req.params.answerId;
+    if (!answerId) {
+      res.status(400).json({ success: false, error: 'Answer ID is required' });
+      return;
+    }
+
+    const answer = await productQuestionService.moderateAnswer(answerId, req.body);
+    res.status(200).json({ success: true, data: answer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to moderate answer';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
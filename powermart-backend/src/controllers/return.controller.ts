@@ -0,0 +1,272 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as returnService from '../services/return.service.ts';
+import type { ReturnFilters } from '../types/return.types.ts';
+
+// Helper to map service errors to HTTP status codes
+function getErrorStatus(message: string): number {
+  if (message.includes('Unauthorized')) return 403;
+  if (message.includes('not found')) return 404;
+  if (message.includes('already exists') || message.includes('another request')) return 409;
+  return 400;
+}
+
+// Helper to read list filters and pagination from the query string
+function parseListQuery(req: AuthenticatedRequest) {
+  const { status, shopId, page, limit } = req.query;
+
+  const filters: ReturnFilters = {};
+  if (status) filters.status = status as any;
+  if (shopId) filters.shopId = shopId as string;
+
+  return {
+    filters,
+    page: page ? parseInt(page as string, 10) : 1,
+    limit: limit ? parseInt(limit as string, 10) : 20,
+  };
+}
+
+// ===== Customer =====
+
+/**
+ * Open a return request for a delivered order item
+ * POST /api/returns
+ */
+export async function createReturn(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const returnRequest = await returnService.createReturn(req.user.userId, req.body);
+    res.status(201).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create return request';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * List the customer's return requests
+ * GET /api/returns
+ */
+export async function getUserReturns(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const { filters, page, limit } = parseListQuery(req);
+    const result = await returnService.getUserReturns(req.user.userId, filters, page, limit);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get return requests';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get one of the customer's return requests
+ * GET /api/returns/:returnId
+ */
+export async function getUserReturnById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const returnId = req.params.returnId;
+    if (!returnId) {
+      res.status(400).json({ success: false, error: 'Return ID is required' });
+      return;
+    }
+
+    const returnRequest = await returnService.getUserReturnById(req.user.userId, returnId);
+    if (!returnRequest) {
+      res.status(404).json({ success: false, error: 'Return request not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get return request';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Withdraw a pending return request
+ * POST /api/returns/:returnId/cancel
+ */
+export async function cancelReturn(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const returnId = req.params.returnId;
+    if (!returnId) {
+      res.status(400).json({ success: false, error: 'Return ID is required' });
+      return;
+    }
+
+    const returnRequest = await returnService.cancelReturn(req.user.userId, returnId);
+    res.status(200).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to cancel return request';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+// ===== Vendor =====
+
+/**
+ * List return requests for the vendor's shops
+ * GET /api/vendor/returns
+ */
+export async function getVendorReturns(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const { filters, page, limit } = parseListQuery(req);
+
+    const result = await returnService.getVendorReturns(vendor.id, filters, page, limit);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get return requests';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a return request with signed evidence URLs
+ * GET /api/vendor/returns/:returnId
+ */
+export async function getVendorReturnById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const returnId = req.params.returnId;
+    if (!returnId) {
+      res.status(400).json({ success: false, error: 'Return ID is required' });
+      return;
+    }
+
+    const returnRequest = await returnService.getVendorReturnById(vendor.id, returnId);
+    if (!returnRequest) {
+      res.status(404).json({ success: false, error: 'Return request not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get return request';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Approve a return request
+ * POST /api/vendor/returns/:returnId/approve
+ */
+export async function approveReturn(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const returnId = req.params.returnId;
+    if (!returnId) {
+      res.status(400).json({ success: false, error: 'Return ID is required' });
+      return;
+    }
+
+    const returnRequest = await returnService.approveReturn(vendor.id, returnId, req.body);
+    res.status(200).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to approve return request';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Reject a return request
+ * POST /api/vendor/returns/:returnId/reject
+ */
+export async function rejectReturn(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const returnId = req.params.returnId;
+    if (!returnId) {
+      res.status(400).json({ success: false, error: 'Return ID is required' });
+      return;
+    }
+
+    const returnRequest = await returnService.rejectReturn(vendor.id, returnId, req.body);
+    res.status(200).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to reject return request';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Mark a returned item as received (restocks by default)
+ * POST /api/vendor/returns/:returnId/receive
+ */
+export async function receiveReturn(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const vendor = (req as any).vendor;
+    const returnId = req.params.returnId;
+    if (!returnId) {
+      res.status(400).json({ success: false, error: 'Return ID is required' });
+      return;
+    }
+
+    const returnRequest = await returnService.receiveReturn(
+      vendor.id,
+      req.user.userId,
+      returnId,
+      req.body
+    );
+    res.status(200).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to receive return';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Record the refund for a received return
+ * POST /api/vendor/returns/:returnId/refund
+ */
+export async function refundReturn(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const vendor = (req as any).vendor;
+    const returnId = req.params.returnId;
+    if (!returnId) {
+      res.status(400).json({ success: false, error: 'Return ID is required' });
+      return;
+    }
+
+    const returnRequest = await returnService.refundReturn(
+      vendor.id,
+      req.user.userId,
+      returnId,
+      req.body
+    );
+    res.status(200).json({ success: true, data: returnRequest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to refund return';
+    res.status(getErrorStatus(message)).json({ success: false, error: message });
+  }
+}
@@ -1,6 +1,7 @@
 import type { Response } from 'express';
 import type { AuthenticatedRequest } from '../types/express.types.ts';
 import * as reviewService from '../services/review.service.ts';
+import type { AdminReviewFilters, ReviewSort } from '../types/review.types.ts';
 
 /**
  * Create a product review (buyer only, must have delivered order item)
@@ -96,7 +97,7 @@ export async function getReviewById(req: AuthenticatedRequest, res: Response): P
 }
 
 /**
- * Get reviews for a product (public, paginated)
+ * Get published reviews for a product (public, sorted, paginated)
  */
 export async function getProductReviews(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
@@ -106,10 +107,11 @@ export async function getProductReviews(req: AuthenticatedRequest, res: Response
       return;
     }
 
+    const sort = (req.query.sort as ReviewSort | undefined) ?? 'newest';
     const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
     const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 10;
 
-    const result = await reviewService.getProductReviews(productId, page, limit);
+    const result = await reviewService.getProductReviews(productId, sort, page, limit);
     res.status(200).json({ success: true, data: result });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to get product reviews';
@@ -156,3 +158,161 @@ export async function getUserReviews(req: AuthenticatedRequest, res: Response):
     res.status(500).json({ success: false, error: message });
   }
 }
+
+/**
+ * Report a review for abuse
+ */
+export async function reportReview(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const reviewId = req.params.reviewId;
+    if (!reviewId) {
+      res.status(400).json({ success: false, error: 'Review ID is required' });
+      return;
+    }
+
+    await reviewService.reportReview(req.user.userId, reviewId, req.body);
+    res.status(201).json({ success: true, message: 'Review reported, thank you' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to report review';
+    const statusCode = message.includes('not found') ? 404 : message.includes('already reported') ? 409 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Vote a review as helpful
+ */
+export async function markReviewHelpful(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const reviewId = req.params.reviewId;
+    if (!reviewId) {
+      res.status(400).json({ success: false, error: 'Review ID is required' });
+      return;
+    }
+
+    const review = await reviewService.markReviewHelpful(req.user.userId, reviewId);
+    res.status(200).json({ success: true, data: review });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to vote on review';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Take back a helpful vote
+ */
+export async function removeHelpfulVote(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const reviewId = req.params.reviewId;
+    if (!reviewId) {
+      res.status(400).json({ success: false, error: 'Review ID is required' });
+      return;
+    }
+
+    const review = await reviewService.removeHelpfulVote(req.user.userId, reviewId);
+    res.status(200).json({ success: true, data: review });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to remove vote';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Post or edit the vendor's reply to a review of their product
+ */
+export async function replyToReview(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const { productId, reviewId } = req.params;
+    if (!productId || !reviewId) {
+      res.status(400).json({ success: false, error: 'Product ID and review ID are required' });
+      return;
+    }
+
+    const review = await reviewService.replyToReview(productId, reviewId, req.body);
+    res.status(200).json({ success: true, data: review });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to reply to review';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Remove the vendor's reply to a review
+ */
+export async function deleteReviewReply(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const { productId, reviewId } = req.params;
+    if (!productId || !reviewId) {
+      res.status(400).json({ success: false, error: 'Product ID and review ID are required' });
+      return;
+    }
+
+    const review = await reviewService.deleteReviewReply(productId, reviewId);
+    res.status(200).json({ success: true, data: review });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete reply';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * List reviews for moderation (admin)
+ */
+export async function adminGetReviews(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const { status, reported, productId, page, limit } = req.query;
+
+    const filters: AdminReviewFilters = {};
+    if (status) filters.status = status as any;
+    if (reported !== undefined) filters.reported = reported === 'true';
+    if (productId) filters.productId = productId as string;
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await reviewService.getReviewsForModeration(filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get reviews';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Publish, hide or send back a review (admin)
+ */
+export async function moderateReview(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const reviewId = req.params.reviewId;
+    if (!reviewId) {
+      res.status(400).json({ success: false, error: 'Review ID is required' });
+      return;
+    }
+
+    const review = await reviewService.moderateReview(reviewId, req.body);
+    res.status(200).json({ success: true, data: review });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to moderate review';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
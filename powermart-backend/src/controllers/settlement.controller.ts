@@ -0,0 +1,158 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as settlementService from '../services/settlement.service.ts';
+import type { StatementFilters } from '../types/settlement.types.ts';
+
+// ===== Vendor =====
+
+/**
+ * Get the vendor's settlement statement
+ * GET /api/vendor/settlements/statement
+ */
+export async function getStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const { shopId, page, limit } = req.query;
+
+    const filters: StatementFilters = {};
+    if (shopId) filters.shopId = shopId as string;
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const statement = await settlementService.getVendorStatement(vendor.id, filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: statement });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get statement';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+// ===== Admin =====
+
+/**
+ * Generate a payout batch for vendors with an available balance
+ * POST /api/admin/payouts
+ */
+export async function generatePayoutBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const result = await settlementService.generatePayoutBatch(req.user.userId, req.body);
+    res.status(201).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to generate payout batch';
+    res.status(400).json({ success: false, error: message });
+  }
+}
+
+/**
+ * List payout batches
+ * GET /api/admin/payouts
+ */
+export async function getPayoutBatches(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    const result = await settlementService.getPayoutBatches(page, limit);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get payout batches';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a payout batch with its transfers
+ * GET /api/admin/payouts/:batchId
+ */
+export async function getPayoutBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const batchId = req.params.batchId;
+    if (!batchId) {
+      res.status(400).json({ success: false, error: 'Batch ID is required' });
+      return;
+    }
+
+    const batch = await settlementService.getPayoutBatchById(batchId);
+    if (!batch) {
+      res.status(404).json({ success: false, error: 'Payout batch not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: batch });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get payout batch';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Download a payout batch as a bank upload CSV
+ * GET /api/admin/payouts/:batchId/export
+ */
+export async function exportPayoutBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const batchId = req.params.batchId;
+    if (!batchId) {
+      res.status(400).json({ success: false, error: 'Batch ID is required' });
+      return;
+    }
+
+    const csv = await settlementService.exportPayoutBatchCsv(batchId);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="payout-${batchId}.csv"`);
+    res.status(200).send(csv);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to export payout batch';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Mark a payout batch as paid
+ * POST /api/admin/payouts/:batchId/paid
+ */
+export async function markPayoutBatchPaid(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const batchId = req.params.batchId;
+    if (!batchId) {
+      res.status(400).json({ success: false, error: 'Batch ID is required' });
+      return;
+    }
+
+    const batch = await settlementService.markPayoutBatchPaid(batchId);
+    res.status(200).json({ success: true, data: batch });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update payout batch';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Cancel an unpaid payout batch
+ * POST /api/admin/payouts/:batchId/cancel
+ */
+export async function cancelPayoutBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const batchId = req.params.batchId;
+    if (!batchId) {
+      res.status(400).json({ success: false, error: 'Batch ID is required' });
+      return;
+    }
+
+    const batch = await settlementService.cancelPayoutBatch(batchId);
+    res.status(200).json({ success: true, data: batch });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to cancel payout batch';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
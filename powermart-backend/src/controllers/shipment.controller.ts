@@ -0,0 +1,126 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as shipmentService from '../services/shipment.service.ts';
+import type { ShipmentFilters } from '../types/shipment.types.ts';
+
+/**
+ * List the vendor's shipments
+ * GET /api/vendor/shipments
+ */
+export async function getVendorShipments(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const { status, shopId, page, limit } = req.query;
+
+    const filters: ShipmentFilters = {};
+    if (status) filters.status = status as any;
+    if (shopId) filters.shopId = shopId as string;
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await shipmentService.getVendorShipments(vendor.id, filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get shipments';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a shipment with its items, buyer and address
+ * GET /api/vendor/shipments/:shipmentId
+ */
+export async function getVendorShipmentById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const shipmentId = req.params.shipmentId;
+    if (!shipmentId) {
+      res.status(400).json({ success: false, error: 'Shipment ID is required' });
+      return;
+    }
+
+    const shipment = await shipmentService.getVendorShipmentById(vendor.id, shipmentId);
+    if (!shipment) {
+      res.status(404).json({ success: false, error: 'Shipment not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: shipment });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get shipment';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Confirm several shipments
+ * POST /api/vendor/shipments/confirm
+ */
+export async function bulkConfirmShipments(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const vendor = (req as any).vendor;
+    const result = await shipmentService.bulkConfirmShipments(vendor.id, req.user.userId, req.body);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to confirm shipments';
+    res.status(400).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Ship several shipments with tracking details
+ * POST /api/vendor/shipments/ship
+ */
+export async function bulkShipShipments(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const vendor = (req as any).vendor;
+    const result = await shipmentService.bulkShipShipments(vendor.id, req.user.userId, req.body);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to ship shipments';
+    res.status(400).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Mark a self-delivered shipment as delivered
+ * POST /api/vendor/shipments/:shipmentId/deliver
+ */
+export async function deliverShipment(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const vendor = (req as any).vendor;
+    const shipmentId = req.params.shipmentId;
+    if (!shipmentId) {
+      res.status(400).json({ success: false, error: 'Shipment ID is required' });
+      return;
+    }
+
+    const shipment = await shipmentService.deliverShipment(
+      vendor.id,
+      req.user.userId,
+      shipmentId,
+      req.body.note
+    );
+    res.status(200).json({ success: true, data: shipment });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to deliver shipment';
+    const statusCode = message.includes('Unauthorized') ? 403 : message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,69 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as shippingService from '../services/shipping.service.ts';
+
+/**
+ * Get a shop's shipping profile
+ * GET /api/shops/:shopId/shipping-profile
+ */
+export async function getShippingProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const shopId = req.params.shopId;
+    if (!shopId) {
+      res.status(400).json({ success: false, error: 'Shop ID is required' });
+      return;
+    }
+
+    const profile = await shippingService.getShippingProfile(shopId);
+    if (!profile) {
+      res.status(404).json({ success: false, error: 'Shipping profile not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: profile });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get shipping profile';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Create or replace a shop's shipping profile
+ * PUT /api/shops/:shopId/shipping-profile
+ */
+export async function upsertShippingProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const shopId = req.params.shopId;
+    if (!shopId) {
+      res.status(400).json({ success: false, error: 'Shop ID is required' });
+      return;
+    }
+
+    const profile = await shippingService.upsertShippingProfile(shopId, req.body);
+    res.status(200).json({ success: true, data: profile });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save shipping profile';
+    res.status(400).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Remove a shop's shipping profile
+ * DELETE /api/shops/:shopId/shipping-profile
+ */
+export async function deleteShippingProfile(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const shopId = req.params.shopId;
+    if (!shopId) {
+      res.status(400).json({ success: false, error: 'Shop ID is required' });
+      return;
+    }
+
+    await shippingService.deleteShippingProfile(shopId);
+    res.status(200).json({ success: true, message: 'Shipping profile deleted' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete shipping profile';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
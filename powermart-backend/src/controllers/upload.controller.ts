@@ -290,6 +290,46 @@ export async function uploadVendorDocument(
   }
 }
 
+/**
+ * Upload return photo evidence (private/secure)
+ * POST /api/upload/return/evidence
+ */
+export async function uploadReturnEvidence(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const files = req.files as Express.Multer.File[];
+    if (!files || files.length === 0) {
+      res.status(400).json({ success: false, error: 'No files provided' });
+      return;
+    }
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const results = await uploadService.uploadReturnEvidence(files, userId);
+
+    // Don't expose the direct URL for secure documents
+    res.status(200).json({
+      success: true,
+      data: results.map((result) => ({
+        publicId: result.publicId,
+        format: result.format,
+        bytes: result.bytes,
+        createdAt: result.createdAt,
+      })),
+      message: `Successfully uploaded ${results.length} photo(s)`,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Get secure URL for a private document
  * POST /api/upload/secure-url
@@ -313,9 +353,10 @@ export async function getSecureUrl(
     const isAdmin = req.user?.role === 'ADMIN';
 
     // Check if the publicId belongs to the user/vendor or user is admin
-    // Only KYC and vendor docs are private - products/avatars/shop images are public
+    // Only KYC, vendor docs and return evidence are private - products/avatars/shop images are public
     const isKycDocument = publicId.includes('/kyc/');
     const isVendorDocument = publicId.includes('/vendor-docs/');
+    const isReturnEvidence = publicId.includes('/secure/returns/');
 
     if (isKycDocument) {
       const documentUserId = publicId.split('/kyc/')[1]?.split('/')[0];
@@ -333,6 +374,15 @@ export async function getSecureUrl(
       }
     }
 
+    // Vendors get signed evidence URLs from the return request itself
+    if (isReturnEvidence) {
+      const evidenceUserId = publicId.split('/secure/returns/')[1]?.split('/')[0];
+      if (!isAdmin && evidenceUserId !== userId) {
+        res.status(403).json({ success: false, error: 'Access denied to this document' });
+        return;
+      }
+    }
+
     const expiresInSeconds = expiresIn ?? 3600; // Default 1 hour
     const result = uploadService.getSecureUrl(publicId, true, expiresInSeconds);
 
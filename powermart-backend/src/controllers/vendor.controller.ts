@@ -3,6 +3,8 @@ import type { AuthenticatedRequest } from '../types/express.types.ts';
 import * as vendorService from '../services/vendor.service.ts';
 import * as phoneService from '../services/phone.service.ts';
 import type { SendPhoneOTPRequest, VerifyPhoneRequest } from '../types/auth.types.ts';
+import type { RejectKYCRequest } from '../types/vendor.types.ts';
+import { KYCStatus } from '../../prisma/generated/enums.ts';
 
 export async function registerVendor(req: AuthenticatedRequest, res: Response): Promise<void> {
   try {
@@ -177,3 +179,101 @@ export async function getPhoneStatus(req: AuthenticatedRequest, res: Response):
     res.status(500).json({ success: false, error: message });
   }
 }
+
+// ===== Admin KYC Review =====
+
+/**
+ * List KYC submissions for review
+ * GET /api/admin/kyc
+ */
+export async function getKYCSubmissions(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const status = (req.query.status as KYCStatus | undefined) ?? KYCStatus.PENDING;
+    const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    const result = await vendorService.getKYCSubmissions(status, page, limit);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get KYC submissions';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a KYC submission with signed document URLs
+ * GET /api/admin/kyc/:kycId
+ */
+export async function getKYCSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const kycId = req.params.kycId;
+    if (!kycId) {
+      res.status(400).json({ success: false, error: 'KYC ID is required' });
+      return;
+    }
+
+    const kyc = await vendorService.getKYCSubmissionForReview(kycId);
+    if (!kyc) {
+      res.status(404).json({ success: false, error: 'KYC submission not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: kyc });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get KYC submission';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Approve a KYC submission
+ * POST /api/admin/kyc/:kycId/approve
+ */
+export async function approveKYC(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const kycId = req.params.kycId;
+    if (!kycId) {
+      res.status(400).json({ success: false, error: 'KYC ID is required' });
+      return;
+    }
+
+    const kyc = await vendorService.approveKYC(kycId, req.user.userId);
+    res.status(200).json({ success: true, data: kyc, message: 'KYC approved' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to approve KYC';
+    const statusCode = message.includes('not found') ? 404 : message.includes('already') ? 409 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Reject a KYC submission with a reason
+ * POST /api/admin/kyc/:kycId/reject
+ */
+export async function rejectKYC(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const kycId = req.params.kycId;
+    if (!kycId) {
+      res.status(400).json({ success: false, error: 'KYC ID is required' });
+      return;
+    }
+
+    const { reason }: RejectKYCRequest = req.body;
+    const kyc = await vendorService.rejectKYC(kycId, req.user.userId, reason);
+    res.status(200).json({ success: true, data: kyc, message: 'KYC rejected' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to reject KYC';
+    const statusCode = message.includes('not found') ? 404 : message.includes('already') ? 409 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,90 @@
+import type { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as vendorOrderService from '../services/vendorOrder.service.ts';
+import type { VendorOrderFilters } from '../types/order.types.ts';
+
+/**
+ * List orders containing the vendor's items
+ * GET /api/vendor/orders
+ */
+export async function getVendorOrders(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const { status, shopId, startDate, endDate, page, limit } = req.query;
+
+    const filters: VendorOrderFilters = {};
+    if (status) filters.status = status as any;
+    if (shopId) filters.shopId = shopId as string;
+    if (startDate) filters.startDate = new Date(startDate as string);
+    if (endDate) {
+      filters.endDate = new Date(endDate as string);
+      // A date without a time includes the whole of that day
+      if (/^\d{4}-\d{2}-\d{2}$/.test(endDate as string)) {
+        filters.endDate.setUTCHours(23, 59, 59, 999);
+      }
+    }
+
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    const result = await vendorOrderService.getVendorOrders(vendor.id, filters, pageNum, limitNum);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get orders';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Look up an order with the vendor's items by its number
+ * GET /api/vendor/orders/lookup/:orderNumber
+ */
+export async function getVendorOrderByNumber(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const orderNumber = req.params.orderNumber;
+    if (!orderNumber) {
+      res.status(400).json({ success: false, error: 'Order number is required' });
+      return;
+    }
+
+    const order = await vendorOrderService.getVendorOrderByNumber(vendor.id, orderNumber);
+    if (!order) {
+      res.status(404).json({ success: false, error: 'Order not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: order });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to look up order';
+    const statusCode = message.includes('Invalid order number') ? 400 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get an order with the vendor's items
+ * GET /api/vendor/orders/:orderId
+ */
+export async function getVendorOrderById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    const vendor = (req as any).vendor;
+    const orderId = req.params.orderId;
+    if (!orderId) {
+      res.status(400).json({ success: false, error: 'Order ID is required' });
+      return;
+    }
+
+    const order = await vendorOrderService.getVendorOrderById(vendor.id, orderId);
+    if (!order) {
+      res.status(404).json({ success: false, error: 'Order not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: order });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get order';
+    res.status(500).json({ success: false, error: message });
+  }
+}
@@ -0,0 +1,310 @@
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import * as wishlistService from '../services/wishlist.service.ts';
+
+/**
+ * Get the user's wishlists
+ * GET /api/wishlists
+ */
+export async function getWishlists(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlists = await wishlistService.getWishlists(req.user.userId);
+    res.status(200).json({ success: true, data: wishlists });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get wishlists';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Create a wishlist
+ * POST /api/wishlists
+ */
+export async function createWishlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.createWishlist(req.user.userId, req.body);
+    res.status(201).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create wishlist';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Get a single wishlist with live prices and stock
+ * GET /api/wishlists/:wishlistId
+ */
+export async function getWishlistById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.getWishlistById(req.user.userId, wishlistId);
+    res.status(200).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get wishlist';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Rename a wishlist
+ * PATCH /api/wishlists/:wishlistId
+ */
+export async function updateWishlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.updateWishlist(req.user.userId, wishlistId, req.body);
+    res.status(200).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update wishlist';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Delete a wishlist
+ * DELETE /api/wishlists/:wishlistId
+ */
+export async function deleteWishlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    await wishlistService.deleteWishlist(req.user.userId, wishlistId);
+    res.status(200).json({ success: true, message: 'Wishlist deleted successfully' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete wishlist';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Add a product to a wishlist
+ * POST /api/wishlists/:wishlistId/items
+ */
+export async function addWishlistItem(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.addWishlistItem(req.user.userId, wishlistId, req.body);
+    res.status(200).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to add item to wishlist';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Remove an item from a wishlist
+ * DELETE /api/wishlists/:wishlistId/items/:itemId
+ */
+export async function removeWishlistItem(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    const itemId = req.params.itemId;
+    if (!itemId) {
+      res.status(400).json({ success: false, error: 'Item ID is required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.removeWishlistItem(req.user.userId, wishlistId, itemId);
+    res.status(200).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to remove item from wishlist';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Move a wishlist item into the cart
+ * POST /api/wishlists/:wishlistId/items/:itemId/move-to-cart
+ */
+export async function moveWishlistItemToCart(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    const itemId = req.params.itemId;
+    if (!itemId) {
+      res.status(400).json({ success: false, error: 'Item ID is required' });
+      return;
+    }
+
+    const result = await wishlistService.moveWishlistItemToCart(req.user.userId, wishlistId, itemId, req.body);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to move item to cart';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Move a cart line to a wishlist ("Saved for later" by default)
+ * POST /api/wishlists/from-cart/:cartItemId
+ */
+export async function saveCartItemForLater(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const cartItemId = req.params.cartItemId;
+    if (!cartItemId) {
+      res.status(400).json({ success: false, error: 'Cart item ID is required' });
+      return;
+    }
+
+    const result = await wishlistService.saveCartItemForLater(req.user.userId, cartItemId, req.body);
+    res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to save item for later';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Share a wishlist through a public link
+ * POST /api/wishlists/:wishlistId/share
+ */
+export async function shareWishlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.shareWishlist(req.user.userId, wishlistId);
+    res.status(200).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to share wishlist';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * Stop sharing a wishlist
+ * DELETE /api/wishlists/:wishlistId/share
+ */
+export async function unshareWishlist(req: AuthenticatedRequest, res: Response): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const wishlistId = req.params.wishlistId;
+    if (!wishlistId) {
+      res.status(400).json({ success: false, error: 'Wishlist ID is required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.unshareWishlist(req.user.userId, wishlistId);
+    res.status(200).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to stop sharing wishlist';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
+
+/**
+ * View a shared wishlist (public)
+ * GET /api/wishlists/shared/:shareToken
+ */
+export async function getSharedWishlist(req: Request, res: Response): Promise<void> {
+  try {
+    const shareToken = req.params.shareToken;
+    if (!shareToken) {
+      res.status(400).json({ success: false, error: 'Share token is required' });
+      return;
+    }
+
+    const wishlist = await wishlistService.getSharedWishlist(shareToken);
+    res.status(200).json({ success: true, data: wishlist });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get wishlist';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    res.status(statusCode).json({ success: false, error: message });
+  }
+}
@@ -1,6 +1,6 @@
 import type { Response, NextFunction } from 'express';
 import type { AuthenticatedRequest } from '../types/express.types.ts';
-import { verifyAccessToken } from '../utils/jwt.util.ts';
+import { verifyAccessToken, verifyGuestToken } from '../utils/jwt.util.ts';
 import { UserRole } from '../../prisma/generated/enums.ts';
 
 /**
@@ -59,6 +59,75 @@ export function authenticate(
   }
 }
 
+/**
+ * Guest authentication middleware - verifies the `X-Guest-Token` header
+ * issued to shoppers who have not signed in
+ */
+export function authenticateGuest(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  const token = req.headers['x-guest-token'];
+
+  if (typeof token !== 'string' || !token) {
+    res.status(401).json({
+      success: false,
+      error: 'No guest token provided',
+    });
+    return;
+  }
+
+  try {
+    req.guest = { guestId: verifyGuestToken(token).guestId };
+    next();
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid or expired guest token',
+    });
+  }
+}
+
+/**
+ * Optional guest middleware - attaches the guest from a valid
+ * `X-Guest-Token` header, and otherwise carries on without one
+ */
+export function identifyGuest(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): void {
+  const token = req.headers['x-guest-token'];
+
+  if (typeof token === 'string' && token) {
+    try {
+      req.guest = { guestId: verifyGuestToken(token).guestId };
+    } catch (error) {
+      // An expired guest token only means there is no cart to carry over
+    }
+  }
+
+  next();
+}
+
+/**
+ * Shopper authentication middleware - a signed-in user (Authorization
+ * header) or a guest (X-Guest-Token header)
+ */
+export function authenticateShopper(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (req.headers.authorization) {
+    authenticate(req, res, next);
+    return;
+  }
+
+  authenticateGuest(req, res, next);
+}
+
 /**
  * Authorization middleware - checks user roles
  */
@@ -0,0 +1,120 @@
+import type { Response, NextFunction } from 'express';
+import type { AuthenticatedRequest } from '../types/express.types.ts';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  hashRequest,
+  releaseIdempotencyKey,
+} from '../services/idempotency.service.ts';
+import type { IdempotencyOwner } from '../services/idempotency.service.ts';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Idempotency middleware - honours an optional `Idempotency-Key` header.
+ * The first successful response for a key is stored and replayed for
+ * retries with the same body; reusing the key for a different request is
+ * rejected. The outcome is stored when the handler responds, not when the
+ * connection closes, so a client disconnecting mid-request cannot free the
+ * key for a retry that would repeat the work. Failed requests release the
+ * key so they can be retried.
+ * Use after authenticate (or authenticateGuest) and validate.
+ */
+export async function idempotent(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const key = req.headers[IDEMPOTENCY_HEADER];
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (typeof key !== 'string' || key.trim().length === 0 || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  // Guests (guest checkout) get their own key space
+  const owner: IdempotencyOwner | null = req.user
+    ? { userId: req.user.userId }
+    : req.guest
+      ? { guestId: req.guest.guestId }
+      : null;
+
+  if (!owner) {
+    res.status(401).json({ success: false, error: 'Authentication required' });
+    return;
+  }
+
+  try {
+    const path = req.originalUrl.split('?')[0]!;
+    const claim = await claimIdempotencyKey(
+      owner,
+      key,
+      req.method,
+      path,
+      hashRequest(req.method, path, req.body)
+    );
+
+    if (claim.state === 'MISMATCH') {
+      res.status(422).json({
+        success: false,
+        error: 'Idempotency-Key has already been used for a different request',
+      });
+      return;
+    }
+
+    if (claim.state === 'IN_PROGRESS') {
+      res.status(409).json({
+        success: false,
+        error: 'A request with this Idempotency-Key is still being processed',
+      });
+      return;
+    }
+
+    if (claim.state === 'REPLAY') {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(claim.responseStatus).json(claim.responseBody);
+      return;
+    }
+
+    let settled = false;
+    const settle = (body: unknown) => {
+      if (settled) return;
+      settled = true;
+
+      const succeeded = res.statusCode >= 200 && res.statusCode < 300;
+      const result = succeeded
+        ? completeIdempotencyKey(claim.id, res.statusCode, body)
+        : releaseIdempotencyKey(claim.id);
+
+      result.catch((error) => {
+        console.error('Failed to settle idempotency key:', error);
+      });
+    };
+
+    // Store the outcome as the handler responds, even if the client has gone
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      settle(body);
+      return json(body);
+    };
+
+    // Responses sent without res.json (e.g. the error handler) still settle;
+    // an aborted socket does not, so the key stays claimed until the handler finishes
+    res.on('finish', () => settle(undefined));
+
+    next();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Idempotency check failed',
+    });
+  }
+}
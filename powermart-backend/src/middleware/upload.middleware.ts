@@ -189,6 +189,21 @@ export const uploadVendorDocuments = multer({
   fileFilter: createFileFilter(['jpg', 'jpeg', 'png', 'pdf', 'doc', 'docx']),
 }).array('documents', 10);
 
+/**
+ * Upload middleware for return photo evidence (secure)
+ * - Max 5 images per request
+ * - Max 2MB per file
+ * - Allowed formats: jpg, jpeg, png, webp
+ */
+export const uploadReturnEvidence = multer({
+  storage,
+  limits: {
+    fileSize: MaxFileSizes.image,
+    files: 5,
+  },
+  fileFilter: createFileFilter(['jpg', 'jpeg', 'png', 'webp']),
+}).array('images', 5);
+
 /**
  * Generic upload middleware factory
  * Create custom upload middleware with specific settings
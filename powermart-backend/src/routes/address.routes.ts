@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import * as addressController from '../controllers/address.controller.ts';
+import { isValidPakistaniPhone } from '../utils/address.util.ts';
+
+const router = Router();
+
+// All address routes require authentication
+router.use(authenticate);
+
+// Validation rules
+const createAddressValidation = [
+  body('fullName').notEmpty().trim().isLength({ max: 100 }).withMessage('Full name is required'),
+  body('phoneNumber')
+    .notEmpty()
+    .withMessage('Phone number is required')
+    .custom((value: string) => isValidPakistaniPhone(value))
+    .withMessage('Invalid Pakistani mobile number'),
+  body('line1').notEmpty().trim().isLength({ max: 200 }).withMessage('Address line 1 is required'),
+  body('line2').optional().isString().trim().isLength({ max: 200 }),
+  body('city').notEmpty().trim().withMessage('City is required'),
+  body('state').optional().isString().trim(),
+  body('postalCode').optional().matches(/^\d{5}$/).withMessage('Postal code must be 5 digits'),
+  body('country').optional().isString().trim(),
+  body('notes').optional().isString().trim().isLength({ max: 500 }),
+  body('isDefault').optional().isBoolean(),
+];
+
+const updateAddressValidation = [
+  body('fullName').optional().isString().trim().notEmpty().isLength({ max: 100 }),
+  body('phoneNumber')
+    .optional()
+    .custom((value: string) => isValidPakistaniPhone(value))
+    .withMessage('Invalid Pakistani mobile number'),
+  body('line1').optional().isString().trim().notEmpty().isLength({ max: 200 }),
+  body('line2').optional({ nullable: true }).isString().trim().isLength({ max: 200 }),
+  body('city').optional().isString().trim().notEmpty(),
+  body('state').optional({ nullable: true }).isString().trim(),
+  body('postalCode').optional({ nullable: true }).matches(/^\d{5}$/).withMessage('Postal code must be 5 digits'),
+  body('notes').optional({ nullable: true }).isString().trim().isLength({ max: 500 }),
+  body('isDefault').optional().isBoolean(),
+];
+
+const addressIdValidation = [
+  param('addressId').isUUID().withMessage('Invalid address ID'),
+];
+
+// ===== Address Book Routes =====
+
+// Get all addresses
+router.get('/', addressController.getAddresses);
+
+// Get default address
+router.get('/default', addressController.getDefaultAddress);
+
+// Get address by ID
+router.get('/:addressId', addressIdValidation, validate, addressController.getAddressById);
+
+// Add address
+router.post('/', createAddressValidation, validate, addressController.createAddress);
+
+// Update address (snapshots addresses already used by orders)
+router.put(
+  '/:addressId',
+  addressIdValidation,
+  updateAddressValidation,
+  validate,
+  addressController.updateAddress
+);
+
+// Set default address
+router.patch(
+  '/:addressId/default',
+  addressIdValidation,
+  validate,
+  addressController.setDefaultAddress
+);
+
+// Delete address (archives addresses already used by orders)
+router.delete('/:addressId', addressIdValidation, validate, addressController.deleteAddress);
+
+export default router;
@@ -0,0 +1,279 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate, authorize } from '../middleware/auth.middleware.ts';
+import * as vendorController from '../controllers/vendor.controller.ts';
+import * as couponController from '../controllers/coupon.controller.ts';
+import * as settlementController from '../controllers/settlement.controller.ts';
+import * as commissionController from '../controllers/commission.controller.ts';
+import * as orderController from '../controllers/order.controller.ts';
+import * as productQuestionController from '../controllers/productQuestion.controller.ts';
+import * as reviewController from '../controllers/review.controller.ts';
+import {
+  UserRole,
+  KYCStatus,
+  CouponScope,
+  CouponType,
+  CommissionScope,
+  ProductQAStatus,
+  ReviewStatus,
+} from '../../prisma/generated/enums.ts';
+
+const router = Router();
+
+// All admin routes require authentication and admin role
+router.use(authenticate);
+router.use(authorize(UserRole.ADMIN));
+
+// Validation rules
+const kycIdValidation = [
+  param('kycId').isUUID().withMessage('Invalid KYC ID'),
+];
+
+const kycListValidation = [
+  query('status').optional().isIn(Object.values(KYCStatus)).withMessage('Invalid KYC status'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const rejectKYCValidation = [
+  body('reason')
+    .isString()
+    .trim()
+    .isLength({ min: 5, max: 1000 })
+    .withMessage('Rejection reason must be between 5 and 1000 characters'),
+];
+
+const couponIdValidation = [
+  param('couponId').isUUID().withMessage('Invalid coupon ID'),
+];
+
+const couponListValidation = [
+  query('scope').optional().isIn(Object.values(CouponScope)).withMessage('Invalid coupon scope'),
+  query('isActive').optional().isBoolean(),
+  query('search').optional().isString().trim(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const couponLimitsValidation = [
+  body('description').optional().isString().trim().isLength({ max: 500 }),
+  body('maxDiscount').optional({ values: 'null' }).isFloat({ gt: 0 }).toFloat(),
+  body('minSpend').optional().isFloat({ min: 0 }).toFloat(),
+  body('usageLimit').optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body('perUserLimit').optional({ values: 'null' }).isInt({ min: 1 }).toInt(),
+  body('startsAt').optional({ values: 'null' }).isISO8601().toDate(),
+  body('expiresAt').optional({ values: 'null' }).isISO8601().toDate(),
+  body('isActive').optional().isBoolean().toBoolean(),
+];
+
+const createCouponValidation = [
+  body('code')
+    .isString()
+    .trim()
+    .matches(/^[A-Za-z0-9_-]{3,32}$/)
+    .withMessage('Code must be 3-32 letters, digits, dashes or underscores'),
+  body('type').isIn(Object.values(CouponType)).withMessage('Invalid coupon type'),
+  body('value').isFloat({ gt: 0 }).withMessage('Value must be greater than zero').toFloat(),
+  body('scope').optional().isIn(Object.values(CouponScope)).withMessage('Invalid coupon scope'),
+  body('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  body('categoryId').optional().isUUID().withMessage('Invalid category ID'),
+  body('productId').optional().isUUID().withMessage('Invalid product ID'),
+  ...couponLimitsValidation,
+];
+
+const batchIdValidation = [
+  param('batchId').isUUID().withMessage('Invalid batch ID'),
+];
+
+const batchListValidation = [
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const generatePayoutValidation = [
+  body('minAmount').optional().isFloat({ min: 0 }).withMessage('Minimum amount must be 0 or greater').toFloat(),
+];
+
+const commissionRuleIdValidation = [
+  param('ruleId').isUUID().withMessage('Invalid rule ID'),
+];
+
+const commissionRuleListValidation = [
+  query('scope').optional().isIn(Object.values(CommissionScope)).withMessage('Invalid commission scope'),
+  query('categoryId').optional().isUUID().withMessage('Invalid category ID'),
+  query('vendorId').optional().isUUID().withMessage('Invalid vendor ID'),
+  query('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const orderNumberValidation = [
+  param('orderNumber').isString().trim().isLength({ min: 1, max: 40 }).withMessage('Order number is required'),
+];
+
+const questionListValidation = [
+  query('status').optional().isIn(Object.values(ProductQAStatus)).withMessage('Invalid question status'),
+  query('productId').optional().isUUID().withMessage('Invalid product ID'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const moderateQAValidation = [
+  body('status').isIn(Object.values(ProductQAStatus)).withMessage('Invalid status'),
+  body('note').optional().isString().trim().isLength({ max: 500 }),
+];
+
+const reviewListValidation = [
+  query('status').optional().isIn(Object.values(ReviewStatus)).withMessage('Invalid review status'),
+  query('reported').optional().isBoolean(),
+  query('productId').optional().isUUID().withMessage('Invalid product ID'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const moderateReviewValidation = [
+  param('reviewId').isUUID().withMessage('Invalid review ID'),
+  body('status').isIn(Object.values(ReviewStatus)).withMessage('Invalid review status'),
+  body('note').optional().isString().trim().isLength({ max: 500 }),
+];
+
+const createCommissionRuleValidation = [
+  body('scope').isIn(Object.values(CommissionScope)).withMessage('Invalid commission scope'),
+  body('categoryId').optional().isUUID().withMessage('Invalid category ID'),
+  body('vendorId').optional().isUUID().withMessage('Invalid vendor ID'),
+  body('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  body('rate')
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Rate must be a percentage between 0 and 100')
+    .toFloat(),
+  body('effectiveFrom').optional().isISO8601().withMessage('Invalid effective date').toDate(),
+  body('note').optional().isString().trim().isLength({ max: 500 }),
+];
+
+// ===== KYC Review =====
+
+// List KYC submissions (defaults to pending)
+router.get('/kyc', kycListValidation, validate, vendorController.getKYCSubmissions);
+
+// Get KYC submission with signed document URLs
+router.get('/kyc/:kycId', kycIdValidation, validate, vendorController.getKYCSubmission);
+
+// Approve KYC submission
+router.post('/kyc/:kycId/approve', kycIdValidation, validate, vendorController.approveKYC);
+
+// Reject KYC submission
+router.post(
+  '/kyc/:kycId/reject',
+  kycIdValidation,
+  rejectKYCValidation,
+  validate,
+  vendorController.rejectKYC
+);
+
+// ===== Coupons =====
+
+// Create a coupon
+router.post('/coupons', createCouponValidation, validate, couponController.createCoupon);
+
+// List coupons
+router.get('/coupons', couponListValidation, validate, couponController.getCoupons);
+
+// Get a coupon
+router.get('/coupons/:couponId', couponIdValidation, validate, couponController.getCouponById);
+
+// Update a coupon's limits, window or status
+router.patch(
+  '/coupons/:couponId',
+  couponIdValidation,
+  couponLimitsValidation,
+  validate,
+  couponController.updateCoupon
+);
+
+// ===== Payouts =====
+
+// Generate a payout batch from available vendor balances
+router.post('/payouts', generatePayoutValidation, validate, settlementController.generatePayoutBatch);
+
+// List payout batches
+router.get('/payouts', batchListValidation, validate, settlementController.getPayoutBatches);
+
+// Get a payout batch
+router.get('/payouts/:batchId', batchIdValidation, validate, settlementController.getPayoutBatch);
+
+// Download the bank upload CSV
+router.get('/payouts/:batchId/export', batchIdValidation, validate, settlementController.exportPayoutBatch);
+
+// Mark a batch as paid / cancel an unpaid batch
+router.post('/payouts/:batchId/paid', batchIdValidation, validate, settlementController.markPayoutBatchPaid);
+router.post('/payouts/:batchId/cancel', batchIdValidation, validate, settlementController.cancelPayoutBatch);
+
+// ===== Commission Rules =====
+
+// Add a commission rule, effective now or from a future date
+router.post(
+  '/commission-rules',
+  createCommissionRuleValidation,
+  validate,
+  commissionController.createCommissionRule
+);
+
+// List commission rules
+router.get(
+  '/commission-rules',
+  commissionRuleListValidation,
+  validate,
+  commissionController.getCommissionRules
+);
+
+// Delete a scheduled rule
+router.delete(
+  '/commission-rules/:ruleId',
+  commissionRuleIdValidation,
+  validate,
+  commissionController.deleteCommissionRule
+);
+
+// ===== Orders =====
+
+// Look up any order by its number (for support calls)
+router.get(
+  '/orders/lookup/:orderNumber',
+  orderNumberValidation,
+  validate,
+  orderController.adminGetOrderByNumber
+);
+
+// ===== Product Q&A =====
+
+// List product questions for moderation
+router.get('/questions', questionListValidation, validate, productQuestionController.adminGetQuestions);
+
+// Hide or restore a question
+router.patch(
+  '/questions/:questionId',
+  param('questionId').isUUID().withMessage('Invalid question ID'),
+  moderateQAValidation,
+  validate,
+  productQuestionController.moderateQuestion
+);
+
+// Hide or restore an answer
+router.patch(
+  '/answers/:answerId',
+  param('answerId').isUUID().withMessage('Invalid answer ID'),
+  moderateQAValidation,
+  validate,
+  productQuestionController.moderateAnswer
+);
+
+// ===== Product Reviews =====
+
+// List reviews for moderation (pending and reported ones)
+router.get('/reviews', reviewListValidation, validate, reviewController.adminGetReviews);
+
+// Publish, hide or send back a review
+router.patch('/reviews/:reviewId', moderateReviewValidation, validate, reviewController.moderateReview);
+
+export default router;
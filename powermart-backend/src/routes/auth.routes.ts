@@ -11,7 +11,7 @@ import {
   resetPasswordHandler,
   changePasswordHandler,
 } from '../controllers/auth.controller.ts';
-import { authenticate } from '../middleware/auth.middleware.ts';
+import { authenticate, identifyGuest } from '../middleware/auth.middleware.ts';
 import {
   registerValidation,
   loginValidation,
@@ -21,9 +21,9 @@ import {
 
 const router = Router();
 
-// Public routes - Authentication
-router.post('/register', registerValidation, validate, register);
-router.post('/login', loginValidation, validate, login);
+// Public routes - Authentication (an X-Guest-Token merges that guest cart)
+router.post('/register', identifyGuest, registerValidation, validate, register);
+router.post('/login', identifyGuest, loginValidation, validate, login);
 router.post('/refresh', refreshTokenValidation, validate, refreshToken);
 
 // Public routes - Email verification
@@ -1,13 +1,17 @@
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { validate } from '../middleware/validation.middleware.ts';
-import { authenticate } from '../middleware/auth.middleware.ts';
+import { authenticateShopper } from '../middleware/auth.middleware.ts';
 import * as cartController from '../controllers/cart.controller.ts';
+import * as guestCheckoutController from '../controllers/guestCheckout.controller.ts';
 
 const router = Router();
 
-// All cart routes require authentication
-router.use(authenticate);
+// Start a guest session (returns the X-Guest-Token for an anonymous cart)
+router.post('/guest', guestCheckoutController.createGuestSession);
+
+// All other cart routes need a signed-in user or a guest token
+router.use(authenticateShopper);
 
 // Validation rules
 const addToCartValidation = [
@@ -20,18 +24,39 @@ const updateCartItemValidation = [
   body('quantity').isInt({ min: 0 }).withMessage('Quantity must be 0 or greater'),
 ];
 
+const applyCouponValidation = [
+  body('code').isString().trim().isLength({ min: 3, max: 32 }).withMessage('Valid coupon code is required'),
+];
+
+const acknowledgePriceChangesValidation = [
+  body('itemIds').optional().isArray({ min: 1 }).withMessage('itemIds must be a non-empty array'),
+  body('itemIds.*').isUUID().withMessage('Invalid item ID'),
+];
+
+const getCartValidation = [
+  query('addressId').optional().isUUID().withMessage('Invalid address ID'),
+];
+
 const itemIdValidation = [
   param('itemId').isUUID().withMessage('Invalid item ID'),
 ];
 
 // ===== Cart Routes =====
 
-// Get user's cart
-router.get('/', cartController.getCart);
+// Get the cart (shipping is quoted for signed-in users with an address)
+router.get('/', getCartValidation, validate, cartController.getCart);
 
 // Validate cart for checkout
 router.get('/validate', cartController.validateCart);
 
+// Accept the current prices of changed lines (required for increases before checkout)
+router.post(
+  '/prices/acknowledge',
+  acknowledgePriceChangesValidation,
+  validate,
+  cartController.acknowledgePriceChanges
+);
+
 // Add item to cart
 router.post('/items', addToCartValidation, validate, cartController.addToCart);
 
@@ -52,6 +77,12 @@ router.delete(
   cartController.removeFromCart
 );
 
+// Apply a coupon code
+router.post('/coupon', applyCouponValidation, validate, cartController.applyCoupon);
+
+// Remove the applied coupon
+router.delete('/coupon', cartController.removeCoupon);
+
 // Clear entire cart
 router.delete('/', cartController.clearCart);
 
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import * as catalogController from '../controllers/catalog.controller.ts';
+import { CATALOG_SORTS } from '../types/catalog.types.ts';
+
+const router = Router();
+
+// Validation rules
+const catalogQueryValidation = [
+  query('categoryId').optional().isUUID().withMessage('Invalid category ID'),
+  query('category').optional().matches(/^[a-z0-9-]+$/).withMessage('Invalid category slug'),
+  query('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  query('minPrice').optional().isFloat({ min: 0 }),
+  query('maxPrice').optional().isFloat({ min: 0 }),
+  query('minRating').optional().isFloat({ min: 0, max: 5 }),
+  query('inStock').optional().isIn(['true', 'false']),
+  query('sort').optional().isIn(CATALOG_SORTS).withMessage(`Sort must be one of: ${CATALOG_SORTS.join(', ')}`),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const searchValidation = [
+  query('q').trim().isLength({ min: 2, max: 100 }).withMessage('Search query must be 2-100 characters'),
+];
+
+const productIdValidation = [
+  param('productId').isUUID().withMessage('Invalid product ID'),
+];
+
+// ===== Public Storefront Routes =====
+
+// Browse products across all shops (filters, sorting, pagination)
+router.get('/', catalogQueryValidation, validate, catalogController.getProducts);
+
+// Full-text search across all shops (relevance ranked, typo tolerant)
+router.get('/search', searchValidation, catalogQueryValidation, validate, catalogController.searchProducts);
+
+// Get product details
+router.get('/:productId', productIdValidation, validate, catalogController.getProductById);
+
+export default router;
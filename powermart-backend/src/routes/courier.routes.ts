@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate, authorize } from '../middleware/auth.middleware.ts';
+import * as courierController from '../controllers/courier.controller.ts';
+import { CourierTrackingStatus, UserRole } from '../../prisma/generated/enums.ts';
+
+const router = Router();
+
+// Validation rules
+const trackingCodeValidation = [
+  param('trackingCode').isString().trim().notEmpty(),
+];
+
+const advanceValidation = [
+  ...trackingCodeValidation,
+  body('status').isIn(Object.values(CourierTrackingStatus)).withMessage('Invalid tracking status'),
+  body('location').optional().isString().trim().isLength({ max: 100 }),
+];
+
+// ===== Couriers =====
+
+// List the couriers shipments can be booked with
+router.get('/', authenticate, courierController.getCouriers);
+
+// ===== Courier Callbacks (public, verified by signature) =====
+
+router.post('/webhooks/:courier', courierController.handleWebhook);
+
+// Courier simulator's tracking page, and controls for admins
+if (process.env.NODE_ENV !== 'production') {
+  router.get(
+    '/simulator/:trackingCode',
+    trackingCodeValidation,
+    validate,
+    courierController.getSimulatedTracking
+  );
+
+  router.post(
+    '/simulator/:trackingCode/advance',
+    authenticate,
+    authorize(UserRole.ADMIN),
+    advanceValidation,
+    validate,
+    courierController.advanceSimulatedConsignment
+  );
+}
+
+export default router;
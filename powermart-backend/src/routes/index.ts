@@ -8,7 +8,21 @@ import categoryRoutes from './category.routes.ts';
 import orderRoutes from './order.routes.ts';
 import reviewRoutes from './review.routes.ts';
 import cartRoutes from './cart.routes.ts';
+import wishlistRoutes from './wishlist.routes.ts';
+import productAlertRoutes from './productAlert.routes.ts';
+import productQuestionRoutes from './productQuestion.routes.ts';
 import uploadRoutes from './upload.routes.ts';
+import addressRoutes from './address.routes.ts';
+import adminRoutes from './admin.routes.ts';
+import catalogRoutes from './catalog.routes.ts';
+import vendorOrderRoutes from './vendorOrder.routes.ts';
+import vendorShipmentRoutes from './vendorShipment.routes.ts';
+import returnRoutes from './return.routes.ts';
+import vendorReturnRoutes from './vendorReturn.routes.ts';
+import paymentRoutes from './payment.routes.ts';
+import courierRoutes from './courier.routes.ts';
+import vendorSettlementRoutes from './vendorSettlement.routes.ts';
+import vendorQuestionRoutes from './vendorQuestion.routes.ts';
 
 const router = Router();
 
@@ -17,11 +31,25 @@ router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/vendors', vendorRoutes);
 router.use('/shops', shopRoutes);
+router.use('/vendor/orders', vendorOrderRoutes); // Vendor order inbox (before /vendor)
+router.use('/vendor/shipments', vendorShipmentRoutes); // Vendor fulfilment per shipment (before /vendor)
+router.use('/vendor/returns', vendorReturnRoutes); // Vendor return requests (before /vendor)
+router.use('/vendor/settlements', vendorSettlementRoutes); // Vendor settlement statement (before /vendor)
+router.use('/vendor/questions', vendorQuestionRoutes); // Vendor product question queue (before /vendor)
 router.use('/vendor', productRoutes); // Product routes under /vendor prefix
 router.use('/categories', categoryRoutes);
 router.use('/orders', orderRoutes);
 router.use('/reviews', reviewRoutes);
 router.use('/cart', cartRoutes);
+router.use('/wishlists', wishlistRoutes);
+router.use('/alerts', productAlertRoutes); // Back-in-stock and price-drop alerts
+router.use('/questions', productQuestionRoutes); // Product questions and answers
+router.use('/returns', returnRoutes);
+router.use('/payments', paymentRoutes);
+router.use('/couriers', courierRoutes);
 router.use('/upload', uploadRoutes);
+router.use('/addresses', addressRoutes);
+router.use('/admin', adminRoutes);
+router.use('/products', catalogRoutes); // Public storefront catalog
 
 export default router;
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { body, param } from 'express-validator';
 import { validate } from '../middleware/validation.middleware.ts';
-import { authenticate, authorize } from '../middleware/auth.middleware.ts';
+import { authenticate, authenticateGuest, authorize } from '../middleware/auth.middleware.ts';
+import { idempotent } from '../middleware/idempotency.middleware.ts';
 import * as orderController from '../controllers/order.controller.ts';
-import { UserRole, OrderItemStatus } from '../../prisma/generated/enums.ts';
+import * as guestCheckoutController from '../controllers/guestCheckout.controller.ts';
+import { UserRole, OrderItemStatus, ContactChannel } from '../../prisma/generated/enums.ts';
 
 const router = Router();
 
@@ -33,12 +35,16 @@ const updatePaymentStatusValidation = [
 
 const updateOrderItemStatusValidation = [
   body('status')
-    .isIn(Object.values(OrderItemStatus))
-    .withMessage('Invalid order item status'),
-  body('trackingCode').optional().isString().trim(),
-  body('carrier').optional().isString().trim(),
-  body('trackingUrl').optional().isString().trim(),
-  body('estimatedDelivery').optional().isISO8601().toDate(),
+    .isIn([OrderItemStatus.CONFIRMED, OrderItemStatus.CANCELLED])
+    .withMessage('Items can only be confirmed or cancelled; ship them through their shipment'),
+];
+
+const noteValidation = [
+  body('note').optional().isString().trim().isLength({ max: 500 }),
+];
+
+const orderNumberValidation = [
+  param('orderNumber').isString().trim().isLength({ min: 1, max: 40 }).withMessage('Order number is required'),
 ];
 
 const orderIdValidation = [
@@ -51,41 +57,98 @@ const checkoutValidation = [
   body('notes').optional().isString().trim(),
 ];
 
-// All routes require authentication
+const guestCheckoutValidation = [
+  body('email').optional().isEmail().withMessage('Invalid email address'),
+  body('phoneNumber').optional().isString().trim().notEmpty(),
+  body('address.fullName').isString().trim().notEmpty().withMessage('Full name is required'),
+  body('address.phoneNumber').isString().trim().notEmpty().withMessage('Phone number is required'),
+  body('address.line1').isString().trim().notEmpty().withMessage('Address line 1 is required'),
+  body('address.line2').optional().isString().trim(),
+  body('address.city').isString().trim().notEmpty().withMessage('City is required'),
+  body('address.state').optional().isString().trim(),
+  body('address.postalCode').optional().isString().trim(),
+  body('address.notes').optional().isString().trim(),
+  body('paymentMethod').optional().isIn(['COD']).withMessage('Guest orders are cash on delivery only'),
+  body('notes').optional().isString().trim(),
+];
+
+const trackingTokenValidation = [
+  param('token').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid tracking link'),
+];
+
+const sendOrderClaimOTPValidation = [
+  body('channel').isIn(Object.values(ContactChannel)).withMessage('Invalid contact channel'),
+  body('destination').isString().trim().notEmpty().withMessage('Email or phone number is required'),
+];
+
+const claimGuestOrdersValidation = [
+  ...sendOrderClaimOTPValidation,
+  body('otpCode').isString().trim().isLength({ min: 6, max: 6 }).withMessage('Valid verification code is required'),
+];
+
+// ===== Guest Routes =====
+
+// Place the guest's cart as an order (X-Guest-Token)
+router.post(
+  '/guest-checkout',
+  authenticateGuest,
+  guestCheckoutValidation,
+  validate,
+  idempotent,
+  guestCheckoutController.guestCheckout
+);
+
+// View a guest order through its tracking link (public)
+router.get('/track/:token', trackingTokenValidation, validate, guestCheckoutController.getGuestOrder);
+
+// All other routes require authentication
 router.use(authenticate);
 
+// ===== Guest Order Claim Routes =====
+
+// Send the code for claiming guest orders placed with an email or phone number
+router.post('/claim/send-otp', sendOrderClaimOTPValidation, validate, guestCheckoutController.sendOrderClaimOTP);
+
+// Claim those guest orders into the user's account
+router.post('/claim', claimGuestOrdersValidation, validate, guestCheckoutController.claimGuestOrders);
+
 // ===== Order CRUD Routes =====
 
 // Create new order (from items array)
-router.post('/', createOrderValidation, validate, orderController.createOrder);
+router.post('/', createOrderValidation, validate, idempotent, orderController.createOrder);
 
 // Create order from cart (checkout)
-router.post('/checkout', checkoutValidation, validate, orderController.checkoutFromCart);
+router.post('/checkout', checkoutValidation, validate, idempotent, orderController.checkoutFromCart);
 
 // Get all orders for the authenticated user (with filters and pagination)
 router.get('/', orderController.getUserOrders);
 
 // ===== Single Order Routes =====
 
+// Look up one of the user's orders by its number
+router.get('/lookup/:orderNumber', orderNumberValidation, validate, orderController.getOrderByNumber);
+
 // Get order by ID
 router.get('/:orderId', orderIdValidation, validate, orderController.getOrderById);
 
-// Vendor: update specific order item status/tracking
+// Vendor: confirm or cancel a specific order item
 router.patch(
   '/:orderId/items/:orderItemId/status',
   authorize(UserRole.VENDOR),
   orderIdValidation,
   [param('orderItemId').isUUID().withMessage('Invalid order item ID')],
   updateOrderItemStatusValidation,
+  noteValidation,
   validate,
   orderController.updateOrderItemStatus
 );
 
-// Update order status
+// Update order status (buyers may only cancel, admins may drive fulfilment)
 router.patch(
   '/:orderId/status',
   orderIdValidation,
   updateOrderStatusValidation,
+  noteValidation,
   validate,
   orderController.updateOrderStatus
 );
@@ -95,11 +158,21 @@ router.patch(
   '/:orderId/payment',
   orderIdValidation,
   updatePaymentStatusValidation,
+  noteValidation,
   validate,
   orderController.updatePaymentStatus
 );
 
 // Cancel order
-router.post('/:orderId/cancel', orderIdValidation, validate, orderController.cancelOrder);
+router.post(
+  '/:orderId/cancel',
+  orderIdValidation,
+  noteValidation,
+  validate,
+  orderController.cancelOrder
+);
+
+// Get order status history
+router.get('/:orderId/timeline', orderIdValidation, validate, orderController.getOrderTimeline);
 
 export default router;
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import { idempotent } from '../middleware/idempotency.middleware.ts';
+import * as paymentController from '../controllers/payment.controller.ts';
+
+const router = Router();
+
+// Validation rules
+const createIntentValidation = [
+  body('orderId').isUUID().withMessage('Valid order ID is required'),
+  body('provider').optional().isString().trim().notEmpty(),
+];
+
+const intentIdValidation = [
+  param('intentId').isUUID().withMessage('Invalid payment intent ID'),
+];
+
+const mockCheckoutValidation = [
+  param('reference').isString().trim().notEmpty(),
+  query('token').isString().notEmpty().withMessage('Checkout token is required'),
+  query('outcome').optional().isIn(['succeeded', 'failed']),
+];
+
+// ===== Provider Callbacks (public, verified by signature) =====
+
+router.post('/webhooks/:provider', paymentController.handleWebhook);
+
+// Mock provider's hosted checkout page (signed link issued to the buyer)
+if (process.env.NODE_ENV !== 'production') {
+  router.get(
+    '/mock/checkout/:reference',
+    mockCheckoutValidation,
+    validate,
+    paymentController.completeMockCheckout
+  );
+}
+
+// ===== Payment Intents =====
+
+// Start an online payment for a card order
+router.post(
+  '/intents',
+  authenticate,
+  createIntentValidation,
+  validate,
+  idempotent,
+  paymentController.createPaymentIntent
+);
+
+// Get a payment intent's status
+router.get(
+  '/intents/:intentId',
+  authenticate,
+  intentIdValidation,
+  validate,
+  paymentController.getPaymentIntent
+);
+
+export default router;
@@ -4,6 +4,8 @@ import { validate } from '../middleware/validation.middleware.ts';
 import { authenticate } from '../middleware/auth.middleware.ts';
 import { isVendor, attachVendor, ownsShop, ownsProduct } from '../middleware/vendor.middleware.ts';
 import * as productController from '../controllers/product.controller.ts';
+import * as productQuestionController from '../controllers/productQuestion.controller.ts';
+import * as reviewController from '../controllers/review.controller.ts';
 
 const router = Router();
 
@@ -16,6 +18,7 @@ const createProductValidation = [
   body('status').optional().isIn(['DRAFT', 'ACTIVE', 'INACTIVE']),
   body('stock').optional().isInt({ min: 0 }),
   body('sku').optional().isString().trim(),
+  body('weightKg').optional().isFloat({ gt: 0 }).withMessage('Weight must be greater than zero').toFloat(),
   body('categoryId').optional().isUUID(),
   body('images').optional().isArray(),
   body('images.*').optional().isURL().withMessage('Invalid image URL'),
@@ -34,6 +37,7 @@ const updateProductValidation = [
   body('status').optional().isIn(['DRAFT', 'ACTIVE', 'INACTIVE']),
   body('stock').optional().isInt({ min: 0 }),
   body('sku').optional().isString().trim(),
+  body('weightKg').optional({ values: 'null' }).isFloat({ gt: 0 }).withMessage('Weight must be greater than zero').toFloat(),
   body('categoryId').optional().isUUID(),
 ];
 
@@ -172,4 +176,40 @@ router.delete(
   productController.deleteProductVariant
 );
 
+// ===== Product Questions =====
+
+// Answer a customer question about the product
+router.post(
+  '/products/:productId/questions/:questionId/answers',
+  productIdValidation,
+  param('questionId').isUUID(),
+  body('body').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Answer must be 1-2000 characters'),
+  validate,
+  ownsProduct,
+  productQuestionController.vendorAnswerQuestion
+);
+
+// ===== Product Reviews =====
+
+// Post or edit the public reply to a review
+router.put(
+  '/products/:productId/reviews/:reviewId/reply',
+  productIdValidation,
+  param('reviewId').isUUID(),
+  body('body').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Reply must be 1-2000 characters'),
+  validate,
+  ownsProduct,
+  reviewController.replyToReview
+);
+
+// Remove the reply to a review
+router.delete(
+  '/products/:productId/reviews/:reviewId/reply',
+  productIdValidation,
+  param('reviewId').isUUID(),
+  validate,
+  ownsProduct,
+  reviewController.deleteReviewReply
+);
+
 export default router;
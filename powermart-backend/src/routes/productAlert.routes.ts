@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import * as productAlertController from '../controllers/productAlert.controller.ts';
+import { ContactChannel, ProductAlertType } from '../../prisma/generated/enums.ts';
+
+const router = Router();
+
+// Validation rules
+const createAlertValidation = [
+  body('productId').isUUID().withMessage('Valid product ID is required'),
+  body('variantId').optional().isUUID().withMessage('Invalid variant ID'),
+  body('type').isIn(Object.values(ProductAlertType)).withMessage('Invalid alert type'),
+  body('targetPrice')
+    .if(body('type').equals(ProductAlertType.PRICE_DROP))
+    .isFloat({ gt: 0 })
+    .withMessage('Target price is required for a price-drop alert')
+    .toFloat(),
+  body('channel').isIn(Object.values(ContactChannel)).withMessage('Invalid alert channel'),
+  body('phoneNumber')
+    .if(body('channel').equals(ContactChannel.PHONE))
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Phone number is required for WhatsApp alerts'),
+];
+
+const alertIdValidation = [
+  param('alertId').isUUID().withMessage('Invalid alert ID'),
+];
+
+const unsubscribeValidation = [
+  param('token').isString().trim().isLength({ min: 16, max: 64 }).withMessage('Invalid unsubscribe link'),
+];
+
+// ===== Unsubscribe (public, from the alert's link) =====
+
+// Link in alert emails and WhatsApp messages; shows a confirmation page that posts below
+router.get('/unsubscribe/:token', unsubscribeValidation, validate, productAlertController.unsubscribeAlertPage);
+
+router.post('/unsubscribe/:token', unsubscribeValidation, validate, productAlertController.unsubscribeAlert);
+
+// All other alert routes require authentication
+router.use(authenticate);
+
+// ===== Alert Routes =====
+
+// Get the user's alerts
+router.get('/', productAlertController.getAlerts);
+
+// Subscribe to a back-in-stock or price-drop alert
+router.post('/', createAlertValidation, validate, productAlertController.createAlert);
+
+// Delete an alert
+router.delete('/:alertId', alertIdValidation, validate, productAlertController.deleteAlert);
+
+export default router;
@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import * as productQuestionController from '../controllers/productQuestion.controller.ts';
+
+const router = Router();
+
+// Validation rules
+const productIdValidation = [
+  param('productId').isUUID().withMessage('Invalid product ID'),
+];
+
+const questionIdValidation = [
+  param('questionId').isUUID().withMessage('Invalid question ID'),
+];
+
+const answerIdValidation = [
+  param('answerId').isUUID().withMessage('Invalid answer ID'),
+];
+
+const paginationValidation = [
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 50 }),
+];
+
+const askQuestionValidation = [
+  body('body').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Question must be 1-500 characters'),
+];
+
+const answerValidation = [
+  body('body').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Answer must be 1-2000 characters'),
+];
+
+// ===== Public Routes =====
+
+// Get a product's questions and answers
+router.get(
+  '/products/:productId',
+  productIdValidation,
+  paginationValidation,
+  validate,
+  productQuestionController.getProductQuestions
+);
+
+// ===== Protected Routes =====
+
+// Ask a question about a product
+router.post(
+  '/products/:productId',
+  authenticate,
+  productIdValidation,
+  askQuestionValidation,
+  validate,
+  productQuestionController.askQuestion
+);
+
+// Delete own question
+router.delete(
+  '/:questionId',
+  authenticate,
+  questionIdValidation,
+  validate,
+  productQuestionController.deleteQuestion
+);
+
+// Answer a question as a verified buyer
+router.post(
+  '/:questionId/answers',
+  authenticate,
+  questionIdValidation,
+  answerValidation,
+  validate,
+  productQuestionController.answerQuestion
+);
+
+// Delete own answer
+router.delete(
+  '/answers/:answerId',
+  authenticate,
+  answerIdValidation,
+  validate,
+  productQuestionController.deleteAnswer
+);
+
+// Upvote an answer as helpful
+router.post(
+  '/answers/:answerId/upvote',
+  authenticate,
+  answerIdValidation,
+  validate,
+  productQuestionController.upvoteAnswer
+);
+
+// Take back an upvote
+router.delete(
+  '/answers/:answerId/upvote',
+  authenticate,
+  answerIdValidation,
+  validate,
+  productQuestionController.removeUpvote
+);
+
+export default router;
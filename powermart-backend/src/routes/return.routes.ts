@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import * as returnController from '../controllers/return.controller.ts';
+import { ReturnReason, ReturnStatus } from '../../prisma/generated/enums.ts';
+
+const router = Router();
+
+// Validation rules
+const createReturnValidation = [
+  body('orderItemId').isUUID().withMessage('Invalid order item ID'),
+  body('quantity').optional().isInt({ min: 1 }).withMessage('Quantity must be at least 1').toInt(),
+  body('reason').isIn(Object.values(ReturnReason)).withMessage('Invalid return reason'),
+  body('description').optional().isString().trim().isLength({ max: 1000 }),
+  body('evidence').optional().isArray({ max: 5 }).withMessage('At most 5 evidence photos are allowed'),
+  body('evidence.*').isString().trim().notEmpty().withMessage('Invalid evidence reference'),
+];
+
+const listReturnsValidation = [
+  query('status').optional().isIn(Object.values(ReturnStatus)).withMessage('Invalid return status'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const returnIdValidation = [
+  param('returnId').isUUID().withMessage('Invalid return ID'),
+];
+
+// All return routes require authentication
+router.use(authenticate);
+
+// Open a return request
+router.post('/', createReturnValidation, validate, returnController.createReturn);
+
+// List the user's return requests
+router.get('/', listReturnsValidation, validate, returnController.getUserReturns);
+
+// Get a return request
+router.get('/:returnId', returnIdValidation, validate, returnController.getUserReturnById);
+
+// Withdraw a pending return request
+router.post('/:returnId/cancel', returnIdValidation, validate, returnController.cancelReturn);
+
+export default router;
@@ -3,6 +3,8 @@ import { body, param, query } from 'express-validator';
 import { validate } from '../middleware/validation.middleware.ts';
 import { authenticate } from '../middleware/auth.middleware.ts';
 import * as reviewController from '../controllers/review.controller.ts';
+import { REVIEW_SORTS } from '../types/review.types.ts';
+import { ReviewReportReason } from '../../prisma/generated/enums.ts';
 
 const router = Router();
 
@@ -32,12 +34,22 @@ const paginationValidation = [
   query('limit').optional().isInt({ min: 1, max: 50 }),
 ];
 
+const sortValidation = [
+  query('sort').optional().isIn(REVIEW_SORTS).withMessage(`Sort must be one of: ${REVIEW_SORTS.join(', ')}`),
+];
+
+const reportReviewValidation = [
+  body('reason').isIn(Object.values(ReviewReportReason)).withMessage('Invalid report reason'),
+  body('details').optional().isString().trim().isLength({ max: 500 }),
+];
+
 // ===== Public Routes =====
 
 // Get reviews for a product (public)
 router.get(
   '/products/:productId/reviews',
   productIdValidation,
+  sortValidation,
   paginationValidation,
   validate,
   reviewController.getProductReviews
@@ -98,4 +110,32 @@ router.delete(
   reviewController.deleteReview
 );
 
+// Report a review for abuse
+router.post(
+  '/:reviewId/report',
+  authenticate,
+  reviewIdValidation,
+  reportReviewValidation,
+  validate,
+  reviewController.reportReview
+);
+
+// Vote a review as helpful
+router.post(
+  '/:reviewId/helpful',
+  authenticate,
+  reviewIdValidation,
+  validate,
+  reviewController.markReviewHelpful
+);
+
+// Take back a helpful vote
+router.delete(
+  '/:reviewId/helpful',
+  authenticate,
+  reviewIdValidation,
+  validate,
+  reviewController.removeHelpfulVote
+);
+
 export default router;
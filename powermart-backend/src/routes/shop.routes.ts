@@ -4,6 +4,8 @@ import { validate } from '../middleware/validation.middleware.ts';
 import { authenticate } from '../middleware/auth.middleware.ts';
 import { isVendor, attachVendor, ownsShop } from '../middleware/vendor.middleware.ts';
 import * as shopController from '../controllers/shop.controller.ts';
+import * as shippingController from '../controllers/shipping.controller.ts';
+import { ShippingRateBasis, ShippingZone } from '../../prisma/generated/enums.ts';
 
 const router = Router();
 
@@ -26,6 +28,16 @@ const shopIdValidation = [
   param('shopId').isUUID().withMessage('Invalid shop ID'),
 ];
 
+const shippingProfileValidation = [
+  body('basis').optional().isIn(Object.values(ShippingRateBasis)).withMessage('Invalid rate basis'),
+  body('originCity').isString().trim().notEmpty().withMessage('Origin city is required'),
+  body('freeShippingThreshold').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat(),
+  body('rates').isArray({ min: 1, max: 50 }).withMessage('Between 1 and 50 rate tiers are required'),
+  body('rates.*.zone').isIn(Object.values(ShippingZone)).withMessage('Invalid shipping zone'),
+  body('rates.*.upTo').optional({ values: 'null' }).isFloat({ gt: 0 }).withMessage('Tier limit must be greater than zero').toFloat(),
+  body('rates.*.fee').isFloat({ min: 0 }).withMessage('Fee must be 0 or greater').toFloat(),
+];
+
 // All shop routes require authentication and vendor role
 router.use(authenticate, isVendor, attachVendor);
 
@@ -59,6 +71,34 @@ router.put(
   shopController.updateShop
 );
 
+// Get the shop's shipping profile
+router.get(
+  '/:shopId/shipping-profile',
+  shopIdValidation,
+  validate,
+  ownsShop,
+  shippingController.getShippingProfile
+);
+
+// Create or replace the shop's shipping profile and rate tiers
+router.put(
+  '/:shopId/shipping-profile',
+  shopIdValidation,
+  shippingProfileValidation,
+  validate,
+  ownsShop,
+  shippingController.upsertShippingProfile
+);
+
+// Remove the shipping profile (falls back to per-product delivery charges)
+router.delete(
+  '/:shopId/shipping-profile',
+  shopIdValidation,
+  validate,
+  ownsShop,
+  shippingController.deleteShippingProfile
+);
+
 // Delete shop
 router.delete(
   '/:shopId',
@@ -131,6 +131,20 @@ router.post(
   uploadController.uploadVendorDocument
 );
 
+/**
+ * Upload return photo evidence (private/secure)
+ * POST /api/upload/return/evidence
+ * Body: multipart/form-data with 'images' field (up to 5 images)
+ * Pass the returned publicIds as `evidence` when opening a return request
+ */
+router.post(
+  '/return/evidence',
+  authenticate,
+  uploadMiddleware.uploadReturnEvidence,
+  uploadController.handleUploadError,
+  uploadController.uploadReturnEvidence
+);
+
 /**
  * Get secure URL for a private document
  * POST /api/upload/secure-url
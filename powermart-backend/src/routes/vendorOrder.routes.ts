@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import { isVendor, attachVendor } from '../middleware/vendor.middleware.ts';
+import * as vendorOrderController from '../controllers/vendorOrder.controller.ts';
+import { OrderItemStatus } from '../../prisma/generated/enums.ts';
+
+const router = Router();
+
+// Validation rules
+const listOrdersValidation = [
+  query('status').optional().isIn(Object.values(OrderItemStatus)).withMessage('Invalid order item status'),
+  query('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const orderNumberValidation = [
+  param('orderNumber').isString().trim().isLength({ min: 1, max: 40 }).withMessage('Order number is required'),
+];
+
+const orderIdValidation = [
+  param('orderId').isUUID().withMessage('Invalid order ID'),
+];
+
+// All routes require authentication and vendor role
+router.use(authenticate, isVendor, attachVendor);
+
+// ===== Vendor Order Inbox =====
+
+// List orders containing the vendor's items (filters and pagination)
+router.get('/', listOrdersValidation, validate, vendorOrderController.getVendorOrders);
+
+// Look up an order by its number
+router.get(
+  '/lookup/:orderNumber',
+  orderNumberValidation,
+  validate,
+  vendorOrderController.getVendorOrderByNumber
+);
+
+// Get order with the vendor's items
+router.get('/:orderId', orderIdValidation, validate, vendorOrderController.getVendorOrderById);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import { isVendor, attachVendor } from '../middleware/vendor.middleware.ts';
+import * as productQuestionController from '../controllers/productQuestion.controller.ts';
+
+const router = Router();
+
+// Validation rules
+const listQuestionsValidation = [
+  query('status').optional().isIn(['UNANSWERED', 'ANSWERED']).withMessage('Status must be UNANSWERED or ANSWERED'),
+  query('productId').optional().isUUID().withMessage('Invalid product ID'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+// All routes require authentication and vendor role
+router.use(authenticate, isVendor, attachVendor);
+
+// ===== Vendor Question Queue =====
+
+// List questions about the vendor's products (unanswered by default)
+router.get('/', listQuestionsValidation, validate, productQuestionController.getVendorQuestions);
+
+export default router;
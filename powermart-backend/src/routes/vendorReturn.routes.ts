@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import { isVendor, attachVendor } from '../middleware/vendor.middleware.ts';
+import { idempotent } from '../middleware/idempotency.middleware.ts';
+import * as returnController from '../controllers/return.controller.ts';
+import { ReturnStatus } from '../../prisma/generated/enums.ts';
+
+const router = Router();
+
+// Validation rules
+const listReturnsValidation = [
+  query('status').optional().isIn(Object.values(ReturnStatus)).withMessage('Invalid return status'),
+  query('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const returnIdValidation = [
+  param('returnId').isUUID().withMessage('Invalid return ID'),
+];
+
+const noteValidation = [
+  body('note').optional().isString().trim().isLength({ max: 500 }),
+];
+
+const rejectValidation = [
+  ...returnIdValidation,
+  body('reason').isString().trim().isLength({ min: 3, max: 500 }).withMessage('Rejection reason is required'),
+];
+
+const receiveValidation = [
+  ...returnIdValidation,
+  ...noteValidation,
+  body('restock').optional().isBoolean().toBoolean(),
+];
+
+const refundValidation = [
+  ...returnIdValidation,
+  ...noteValidation,
+  body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be greater than zero').toFloat(),
+];
+
+// All routes require authentication and vendor role
+router.use(authenticate, isVendor, attachVendor);
+
+// ===== Vendor Returns =====
+
+// List return requests for the vendor's shops
+router.get('/', listReturnsValidation, validate, returnController.getVendorReturns);
+
+// Get a return request with evidence
+router.get('/:returnId', returnIdValidation, validate, returnController.getVendorReturnById);
+
+// Approve or reject a return request
+router.post('/:returnId/approve', [...returnIdValidation, ...noteValidation], validate, returnController.approveReturn);
+router.post('/:returnId/reject', rejectValidation, validate, returnController.rejectReturn);
+
+// Mark the item as received back
+router.post('/:returnId/receive', receiveValidation, validate, returnController.receiveReturn);
+
+// Record the refund against the order
+router.post('/:returnId/refund', refundValidation, validate, idempotent, returnController.refundReturn);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import { isVendor, attachVendor } from '../middleware/vendor.middleware.ts';
+import * as settlementController from '../controllers/settlement.controller.ts';
+
+const router = Router();
+
+// Validation rules
+const statementValidation = [
+  query('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+// All routes require authentication and vendor role
+router.use(authenticate, isVendor, attachVendor);
+
+// ===== Vendor Settlements =====
+
+// Balance, pending and paid-out amounts with ledger lines
+router.get('/statement', statementValidation, validate, settlementController.getStatement);
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import { isVendor, attachVendor } from '../middleware/vendor.middleware.ts';
+import * as shipmentController from '../controllers/shipment.controller.ts';
+import * as courierController from '../controllers/courier.controller.ts';
+import { ShipmentStatus } from '../../prisma/generated/enums.ts';
+
+const router = Router();
+
+// Validation rules
+const listShipmentsValidation = [
+  query('status').optional().isIn(Object.values(ShipmentStatus)).withMessage('Invalid shipment status'),
+  query('shopId').optional().isUUID().withMessage('Invalid shop ID'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+];
+
+const shipmentIdValidation = [
+  param('shipmentId').isUUID().withMessage('Invalid shipment ID'),
+];
+
+const noteValidation = [
+  body('note').optional().isString().trim().isLength({ max: 500 }),
+];
+
+const bulkConfirmValidation = [
+  body('shipmentIds').isArray({ min: 1, max: 100 }).withMessage('Between 1 and 100 shipments are required'),
+  body('shipmentIds.*').isUUID().withMessage('Invalid shipment ID'),
+  ...noteValidation,
+];
+
+const bulkShipValidation = [
+  body('shipments').isArray({ min: 1, max: 100 }).withMessage('Between 1 and 100 shipments are required'),
+  body('shipments.*.shipmentId').isUUID().withMessage('Invalid shipment ID'),
+  body('shipments.*.trackingCode').isString().trim().notEmpty().withMessage('Tracking code is required'),
+  body('shipments.*.carrier').optional().isString().trim(),
+  body('shipments.*.trackingUrl').optional().isURL().withMessage('Invalid tracking URL'),
+  body('shipments.*.weightKg').optional().isFloat({ gt: 0 }).withMessage('Weight must be greater than zero').toFloat(),
+  body('shipments.*.estimatedDelivery').optional().isISO8601().toDate(),
+  ...noteValidation,
+];
+
+const bookShipmentValidation = [
+  ...shipmentIdValidation,
+  body('courier').optional().isString().trim().notEmpty(),
+  body('weightKg').optional().isFloat({ gt: 0 }).withMessage('Weight must be greater than zero').toFloat(),
+];
+
+// All routes require authentication and vendor role
+router.use(authenticate, isVendor, attachVendor);
+
+// ===== Vendor Shipments =====
+
+// List shipments of the vendor's shops
+router.get('/', listShipmentsValidation, validate, shipmentController.getVendorShipments);
+
+// Bulk confirm shipments (every pending item in each)
+router.post('/confirm', bulkConfirmValidation, validate, shipmentController.bulkConfirmShipments);
+
+// Bulk ship shipments with tracking details (re-sending updates the tracking)
+router.post('/ship', bulkShipValidation, validate, shipmentController.bulkShipShipments);
+
+// Get a shipment with its items
+router.get('/:shipmentId', shipmentIdValidation, validate, shipmentController.getVendorShipmentById);
+
+// Mark a self-delivered shipment as delivered
+router.post(
+  '/:shipmentId/deliver',
+  shipmentIdValidation,
+  noteValidation,
+  validate,
+  shipmentController.deliverShipment
+);
+
+// ===== Courier Bookings =====
+
+// Book a confirmed shipment with a courier (tracking updates arrive by webhook)
+router.post('/:shipmentId/book', bookShipmentValidation, validate, courierController.bookShipment);
+
+// Cancel a booking that has not been picked up
+router.post('/:shipmentId/cancel-booking', shipmentIdValidation, validate, courierController.cancelBooking);
+
+// Printable airway bill for the parcel
+router.get('/:shipmentId/airway-bill', shipmentIdValidation, validate, courierController.getAirwayBill);
+
+// Live tracking from the courier
+router.get('/:shipmentId/tracking', shipmentIdValidation, validate, courierController.getShipmentTracking);
+
+export default router;
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { validate } from '../middleware/validation.middleware.ts';
+import { authenticate } from '../middleware/auth.middleware.ts';
+import * as wishlistController from '../controllers/wishlist.controller.ts';
+
+const router = Router();
+
+// Validation rules
+const wishlistNameValidation = [
+  body('name').isString().trim().notEmpty().isLength({ max: 60 }).withMessage('Wishlist name is required (max 60 characters)'),
+];
+
+const wishlistIdValidation = [
+  param('wishlistId').isUUID().withMessage('Invalid wishlist ID'),
+];
+
+const itemIdValidation = [
+  param('itemId').isUUID().withMessage('Invalid item ID'),
+];
+
+const addWishlistItemValidation = [
+  body('productId').isUUID().withMessage('Valid product ID is required'),
+  body('variantId').optional().isUUID().withMessage('Invalid variant ID'),
+];
+
+const moveToCartValidation = [
+  body('quantity').optional().isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+];
+
+const saveCartItemValidation = [
+  param('cartItemId').isUUID().withMessage('Invalid cart item ID'),
+  body('wishlistId').optional().isUUID().withMessage('Invalid wishlist ID'),
+];
+
+const shareTokenValidation = [
+  param('shareToken').isString().trim().isLength({ min: 16, max: 64 }).withMessage('Invalid share link'),
+];
+
+// ===== Shared Wishlists (public) =====
+
+router.get('/shared/:shareToken', shareTokenValidation, validate, wishlistController.getSharedWishlist);
+
+// All other wishlist routes require authentication
+router.use(authenticate);
+
+// ===== Wishlist Routes =====
+
+// Get the user's wishlists (includes the "Saved for later" list)
+router.get('/', wishlistController.getWishlists);
+
+// Create a wishlist
+router.post('/', wishlistNameValidation, validate, wishlistController.createWishlist);
+
+// Save a cart line for later (or to another wishlist)
+router.post(
+  '/from-cart/:cartItemId',
+  saveCartItemValidation,
+  validate,
+  wishlistController.saveCartItemForLater
+);
+
+// Get a wishlist
+router.get('/:wishlistId', wishlistIdValidation, validate, wishlistController.getWishlistById);
+
+// Rename a wishlist
+router.patch(
+  '/:wishlistId',
+  wishlistIdValidation,
+  wishlistNameValidation,
+  validate,
+  wishlistController.updateWishlist
+);
+
+// Delete a wishlist
+router.delete('/:wishlistId', wishlistIdValidation, validate, wishlistController.deleteWishlist);
+
+// Share a wishlist through a public link / stop sharing it
+router.post('/:wishlistId/share', wishlistIdValidation, validate, wishlistController.shareWishlist);
+router.delete('/:wishlistId/share', wishlistIdValidation, validate, wishlistController.unshareWishlist);
+
+// ===== Wishlist Item Routes =====
+
+// Add a product to a wishlist
+router.post(
+  '/:wishlistId/items',
+  wishlistIdValidation,
+  addWishlistItemValidation,
+  validate,
+  wishlistController.addWishlistItem
+);
+
+// Remove an item from a wishlist
+router.delete(
+  '/:wishlistId/items/:itemId',
+  wishlistIdValidation,
+  itemIdValidation,
+  validate,
+  wishlistController.removeWishlistItem
+);
+
+// Move a wishlist item into the cart
+router.post(
+  '/:wishlistId/items/:itemId/move-to-cart',
+  wishlistIdValidation,
+  itemIdValidation,
+  moveToCartValidation,
+  validate,
+  wishlistController.moveWishlistItemToCart
+);
+
+export default router;
@@ -0,0 +1,315 @@
+import { prisma } from '../../lib/prisma.ts';
+import type {
+  CreateAddressRequest,
+  UpdateAddressRequest,
+  AddressResponse,
+} from '../types/address.types.ts';
+import {
+  DEFAULT_COUNTRY,
+  normalizePakistaniPhone,
+  resolvePakistaniCity,
+  resolvePakistaniProvince,
+} from '../utils/address.util.ts';
+
+/**
+ * Normalize and validate the Pakistan-specific address fields
+ */
+export function normalizeAddressFields<T extends { phoneNumber?: string; city?: string; state?: string | null; country?: string }>(
+  data: T
+): T {
+  const normalized = { ...data };
+
+  if (data.phoneNumber !== undefined) {
+    normalized.phoneNumber = normalizePakistaniPhone(data.phoneNumber);
+  }
+
+  if (data.city !== undefined) {
+    const city = resolvePakistaniCity(data.city);
+    if (!city) {
+      throw new Error(`We do not deliver to "${data.city}" yet`);
+    }
+    normalized.city = city;
+  }
+
+  if (data.state) {
+    const state = resolvePakistaniProvince(data.state);
+    if (!state) {
+      throw new Error(`Invalid province "${data.state}"`);
+    }
+    normalized.state = state;
+  }
+
+  if (data.country !== undefined && data.country.trim().toLowerCase() !== DEFAULT_COUNTRY.toLowerCase()) {
+    throw new Error(`Deliveries are only available within ${DEFAULT_COUNTRY}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Find an active (non-archived) address owned by the user
+ */
+async function findOwnedAddress(userId: string, addressId: string) {
+  const address = await prisma.orderAddress.findFirst({
+    where: { id: addressId, userId, archivedAt: null },
+  });
+
+  if (!address) {
+    throw new Error('Address not found');
+  }
+
+  return address;
+}
+
+async function getDefaultAddressId(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { defaultAddressId: true },
+  });
+
+  return user?.defaultAddressId ?? null;
+}
+
+/**
+ * Get all addresses in the user's address book (default first)
+ */
+export async function getAddresses(userId: string): Promise<AddressResponse[]> {
+  const [addresses, defaultAddressId] = await Promise.all([
+    prisma.orderAddress.findMany({
+      where: { userId, archivedAt: null },
+      orderBy: { createdAt: 'desc' },
+    }),
+    getDefaultAddressId(userId),
+  ]);
+
+  return addresses
+    .map((address) => mapAddressToResponse(address, defaultAddressId))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Get a single address owned by the user
+ */
+export async function getAddressById(userId: string, addressId: string): Promise<AddressResponse> {
+  const [address, defaultAddressId] = await Promise.all([
+    findOwnedAddress(userId, addressId),
+    getDefaultAddressId(userId),
+  ]);
+
+  return mapAddressToResponse(address, defaultAddressId);
+}
+
+/**
+ * Get the user's default address, if any
+ */
+export async function getDefaultAddress(userId: string): Promise<AddressResponse | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { defaultAddress: true },
+  });
+
+  if (!user?.defaultAddress || user.defaultAddress.archivedAt) {
+    return null;
+  }
+
+  return mapAddressToResponse(user.defaultAddress, user.defaultAddressId);
+}
+
+/**
+ * Add an address to the user's address book
+ * The first address is always made the default
+ */
+export async function createAddress(
+  userId: string,
+  data: CreateAddressRequest
+): Promise<AddressResponse> {
+  const fields = normalizeAddressFields(data);
+
+  const existingCount = await prisma.orderAddress.count({
+    where: { userId, archivedAt: null },
+  });
+  const makeDefault = data.isDefault === true || existingCount === 0;
+
+  const address = await prisma.$transaction(async (tx) => {
+    const created = await tx.orderAddress.create({
+      data: {
+        userId,
+        fullName: fields.fullName,
+        phoneNumber: fields.phoneNumber,
+        line1: fields.line1,
+        line2: fields.line2 ?? null,
+        city: fields.city,
+        state: fields.state ?? null,
+        postalCode: fields.postalCode ?? null,
+        country: DEFAULT_COUNTRY,
+        notes: fields.notes ?? null,
+      },
+    });
+
+    if (makeDefault) {
+      await tx.user.update({
+        where: { id: userId },
+        data: { defaultAddressId: created.id },
+      });
+    }
+
+    return created;
+  });
+
+  return mapAddressToResponse(address, makeDefault ? address.id : null);
+}
+
+/**
+ * Update an address
+ *
+ * Addresses that were already used for an order are never mutated: the old
+ * row is archived (so the order keeps the address it shipped to) and a new
+ * row with the changes takes its place in the address book. The returned
+ * address may therefore have a different ID than the one requested.
+ */
+export async function updateAddress(
+  userId: string,
+  addressId: string,
+  data: UpdateAddressRequest
+): Promise<AddressResponse> {
+  const address = await findOwnedAddress(userId, addressId);
+  const fields = normalizeAddressFields(data);
+
+  const updateData: Record<string, any> = {};
+  if (fields.fullName !== undefined) updateData.fullName = fields.fullName;
+  if (fields.phoneNumber !== undefined) updateData.phoneNumber = fields.phoneNumber;
+  if (fields.line1 !== undefined) updateData.line1 = fields.line1;
+  if (fields.line2 !== undefined) updateData.line2 = fields.line2;
+  if (fields.city !== undefined) updateData.city = fields.city;
+  if (fields.state !== undefined) updateData.state = fields.state;
+  if (fields.postalCode !== undefined) updateData.postalCode = fields.postalCode;
+  if (fields.notes !== undefined) updateData.notes = fields.notes;
+
+  const orderCount = await prisma.order.count({ where: { shippingAddressId: addressId } });
+  const defaultAddressId = await getDefaultAddressId(userId);
+  const wasDefault = defaultAddressId === addressId;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    let current = address;
+
+    if (Object.keys(updateData).length > 0) {
+      if (orderCount > 0) {
+        // Snapshot: retire the old row and replace it with an edited copy
+        await tx.orderAddress.update({
+          where: { id: addressId },
+          data: { archivedAt: new Date() },
+        });
+
+        current = await tx.orderAddress.create({
+          data: {
+            userId,
+            fullName: address.fullName,
+            phoneNumber: address.phoneNumber,
+            line1: address.line1,
+            line2: address.line2,
+            city: address.city,
+            state: address.state,
+            postalCode: address.postalCode,
+            country: address.country,
+            notes: address.notes,
+            ...updateData,
+          },
+        });
+      } else {
+        current = await tx.orderAddress.update({
+          where: { id: addressId },
+          data: updateData,
+        });
+      }
+    }
+
+    const makeDefault = data.isDefault === true || (wasDefault && data.isDefault !== false);
+    if (makeDefault && defaultAddressId !== current.id) {
+      await tx.user.update({
+        where: { id: userId },
+        data: { defaultAddressId: current.id },
+      });
+    } else if (data.isDefault === false && wasDefault) {
+      await tx.user.update({
+        where: { id: userId },
+        data: { defaultAddressId: null },
+      });
+    }
+
+    return { address: current, isDefault: makeDefault };
+  });
+
+  return mapAddressToResponse(updated.address, updated.isDefault ? updated.address.id : null);
+}
+
+/**
+ * Set an address as the user's default
+ */
+export async function setDefaultAddress(userId: string, addressId: string): Promise<AddressResponse> {
+  const address = await findOwnedAddress(userId, addressId);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { defaultAddressId: address.id },
+  });
+
+  return mapAddressToResponse(address, address.id);
+}
+
+/**
+ * Remove an address from the user's address book
+ * Addresses referenced by orders are archived instead of deleted. If the
+ * default address is removed, the most recently added address takes over.
+ */
+export async function deleteAddress(userId: string, addressId: string): Promise<void> {
+  await findOwnedAddress(userId, addressId);
+
+  const [orderCount, defaultAddressId] = await Promise.all([
+    prisma.order.count({ where: { shippingAddressId: addressId } }),
+    getDefaultAddressId(userId),
+  ]);
+
+  await prisma.$transaction(async (tx) => {
+    if (orderCount > 0) {
+      await tx.orderAddress.update({
+        where: { id: addressId },
+        data: { archivedAt: new Date() },
+      });
+    } else {
+      await tx.orderAddress.delete({ where: { id: addressId } });
+    }
+
+    if (defaultAddressId === addressId) {
+      const next = await tx.orderAddress.findFirst({
+        where: { userId, archivedAt: null, id: { not: addressId } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { defaultAddressId: next?.id ?? null },
+      });
+    }
+  });
+}
+
+// Helper to map Prisma result to response type
+function mapAddressToResponse(address: any, defaultAddressId: string | null): AddressResponse {
+  return {
+    id: address.id,
+    userId: address.userId,
+    fullName: address.fullName,
+    phoneNumber: address.phoneNumber,
+    line1: address.line1,
+    line2: address.line2,
+    city: address.city,
+    state: address.state,
+    postalCode: address.postalCode,
+    country: address.country,
+    notes: address.notes,
+    isDefault: address.id === defaultAddressId,
+    createdAt: address.createdAt,
+    updatedAt: address.updatedAt,
+  };
+}
@@ -7,6 +7,7 @@ import {
   getRefreshTokenExpiration,
 } from '../utils/jwt.util.ts';
 import { sendEmailVerificationOTP } from './verification.service.ts';
+import { mergeGuestCart } from './cart.service.ts';
 import type {
   RegisterRequest,
   LoginRequest,
@@ -34,9 +35,29 @@ function toUserResponse(user: User): UserResponse {
 }
 
 /**
- * Register a new user
+ * Merge the device's guest cart into the user's cart. Signing in never
+ * fails because of the cart; the guest cart is simply left as it was.
  */
-export async function registerUser(data: RegisterRequest): Promise<AuthResponse> {
+async function mergeCartOnSignIn(
+  userId: string,
+  guestId?: string
+): Promise<Pick<AuthResponse, 'cartMerge'>> {
+  if (!guestId) {
+    return {};
+  }
+
+  try {
+    return { cartMerge: await mergeGuestCart(guestId, userId) };
+  } catch (error) {
+    console.error('Failed to merge guest cart:', error);
+    return {};
+  }
+}
+
+/**
+ * Register a new user (pass guestId to take over the device's guest cart)
+ */
+export async function registerUser(data: RegisterRequest, guestId?: string): Promise<AuthResponse> {
   const { email, password, name, role = UserRole.USER } = data;
 
   // Validate password strength
@@ -97,13 +118,14 @@ export async function registerUser(data: RegisterRequest): Promise<AuthResponse>
     user: toUserResponse(user),
     accessToken,
     refreshToken: refreshToken.token,
+    ...(await mergeCartOnSignIn(user.id, guestId)),
   };
 }
 
 /**
- * Login user
+ * Login user (pass guestId to merge the device's guest cart)
  */
-export async function loginUser(data: LoginRequest): Promise<AuthResponse> {
+export async function loginUser(data: LoginRequest, guestId?: string): Promise<AuthResponse> {
   const { email, password } = data;
 
   // Find user
@@ -151,6 +173,7 @@ export async function loginUser(data: LoginRequest): Promise<AuthResponse> {
     user: toUserResponse(user),
     accessToken,
     refreshToken: refreshToken.token,
+    ...(await mergeCartOnSignIn(user.id, guestId)),
   };
 }
 
@@ -1,17 +1,62 @@
 import { prisma } from '../../lib/prisma.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
 import type {
   AddToCartRequest,
   UpdateCartItemRequest,
+  CartOwner,
+  CartMergeLine,
+  CartMergeResponse,
+  CartPriceChangeResponse,
   CartResponse,
   CartItemResponse,
 } from '../types/cart.types.ts';
+import type { StockFailure } from '../types/order.types.ts';
+import type { Coupon } from '../../prisma/generated/client.ts';
+import { evaluateCoupon, findCouponByCode } from './coupon.service.ts';
+import type { CouponLine } from '../types/coupon.types.ts';
+import type { ShippingLine } from '../types/shipping.types.ts';
+import { quoteShipping } from './shipping.service.ts';
 
 /**
- * Get or create cart for user
+ * Thrown at checkout when prices in the cart went up since they were added.
+ * The shopper has to acknowledge the new prices before ordering.
  */
-async function getOrCreateCart(userId: string) {
+export class PriceChangedError extends Error {
+  changes: CartPriceChangeResponse[];
+
+  constructor(changes: CartPriceChangeResponse[]) {
+    super(
+      `Prices have gone up for: ${changes
+        .map((c) => `${c.name} (was ${c.snapshotPrice}, now ${c.currentPrice})`)
+        .join(', ')}`
+    );
+    this.name = 'PriceChangedError';
+    this.changes = changes;
+  }
+}
+
+/**
+ * Live unit price of a product or variant: product price less its discount,
+ * plus the variant's price difference
+ */
+export function getUnitPrice(
+  product: { price: number; discount: number | null },
+  variant?: { priceDiff: number | null } | null
+): number {
+  return product.price - (product.discount ?? 0) + (variant?.priceDiff ?? 0);
+}
+
+// Helper to find a cart by its owner
+function cartOwnerWhere(owner: CartOwner) {
+  return owner.userId ? { userId: owner.userId } : { guestId: owner.guestId! };
+}
+
+/**
+ * Get or create cart for a user or guest
+ */
+async function getOrCreateCart(owner: CartOwner) {
   let cart = await prisma.cart.findUnique({
-    where: { userId },
+    where: cartOwnerWhere(owner),
     include: {
       items: {
         include: {
@@ -22,8 +67,11 @@ async function getOrCreateCart(userId: string) {
               price: true,
               discount: true,
               deliveryCharge: true,
+              weightKg: true,
               stock: true,
               status: true,
+              shopId: true,
+              categoryId: true,
               images: { select: { url: true }, take: 1 },
             },
           },
@@ -39,12 +87,13 @@ async function getOrCreateCart(userId: string) {
         },
         orderBy: { createdAt: 'desc' },
       },
+      coupon: true,
     },
   });
 
   if (!cart) {
     cart = await prisma.cart.create({
-      data: { userId },
+      data: cartOwnerWhere(owner),
       include: {
         items: {
           include: {
@@ -55,8 +104,11 @@ async function getOrCreateCart(userId: string) {
                 price: true,
                 discount: true,
                 deliveryCharge: true,
+                weightKg: true,
                 stock: true,
                 status: true,
+                shopId: true,
+                categoryId: true,
                 images: { select: { url: true }, take: 1 },
               },
             },
@@ -72,6 +124,7 @@ async function getOrCreateCart(userId: string) {
           },
           orderBy: { createdAt: 'desc' },
         },
+        coupon: true,
       },
     });
   }
@@ -80,18 +133,19 @@ async function getOrCreateCart(userId: string) {
 }
 
 /**
- * Get user's cart
+ * Get a cart, quoting shipping to the given address or the user's
+ * default address
  */
-export async function getCart(userId: string): Promise<CartResponse> {
-  const cart = await getOrCreateCart(userId);
-  return mapCartToResponse(cart);
+export async function getCart(owner: CartOwner, addressId?: string): Promise<CartResponse> {
+  const cart = await getOrCreateCart(owner);
+  return buildCartResponse(cart, addressId);
 }
 
 /**
  * Add item to cart (upsert if already exists)
  */
 export async function addToCart(
-  userId: string,
+  owner: CartOwner,
   data: AddToCartRequest
 ): Promise<CartResponse> {
   // Validate product exists and is active
@@ -140,12 +194,10 @@ export async function addToCart(
   }
 
   // Get or create cart
-  const cart = await getOrCreateCart(userId);
+  const cart = await getOrCreateCart(owner);
 
   // Calculate price snapshot
-  const basePrice = product.price - (product.discount ?? 0);
-  const variantPriceDiff = variant?.priceDiff ?? 0;
-  const priceSnapshot = basePrice + variantPriceDiff;
+  const priceSnapshot = getUnitPrice(product, variant);
   const deliveryChargeSnapshot = product.deliveryCharge;
 
   // Upsert cart item - use findFirst because variantId can be null
@@ -185,18 +237,18 @@ export async function addToCart(
   }
 
   // Return updated cart
-  return getCart(userId);
+  return getCart(owner);
 }
 
 /**
  * Update cart item quantity
  */
 export async function updateCartItem(
-  userId: string,
+  owner: CartOwner,
   itemId: string,
   data: UpdateCartItemRequest
 ): Promise<CartResponse> {
-  const cart = await getOrCreateCart(userId);
+  const cart = await getOrCreateCart(owner);
 
   const cartItem = await prisma.cartItem.findFirst({
     where: { id: itemId, cartId: cart.id },
@@ -230,17 +282,17 @@ export async function updateCartItem(
     });
   }
 
-  return getCart(userId);
+  return getCart(owner);
 }
 
 /**
  * Remove item from cart
  */
 export async function removeFromCart(
-  userId: string,
+  owner: CartOwner,
   itemId: string
 ): Promise<CartResponse> {
-  const cart = await getOrCreateCart(userId);
+  const cart = await getOrCreateCart(owner);
 
   const cartItem = await prisma.cartItem.findFirst({
     where: { id: itemId, cartId: cart.id },
@@ -252,32 +304,94 @@ export async function removeFromCart(
 
   await prisma.cartItem.delete({ where: { id: itemId } });
 
-  return getCart(userId);
+  return getCart(owner);
 }
 
 /**
  * Clear entire cart
  */
-export async function clearCart(userId: string): Promise<CartResponse> {
-  const cart = await getOrCreateCart(userId);
+export async function clearCart(owner: CartOwner): Promise<CartResponse> {
+  const cart = await getOrCreateCart(owner);
+
+  await prisma.$transaction([
+    prisma.cartItem.deleteMany({ where: { cartId: cart.id } }),
+    prisma.cart.update({ where: { id: cart.id }, data: { couponId: null } }),
+  ]);
+
+  return getCart(owner);
+}
+
+/**
+ * Apply a coupon code to the cart. The discount is re-checked whenever the
+ * cart is read and again at checkout.
+ */
+export async function applyCoupon(owner: CartOwner, code: string): Promise<CartResponse> {
+  // Per-customer limits need an account to count against
+  if (!owner.userId) {
+    throw new Error('Sign in to use a coupon');
+  }
+  const userId = owner.userId;
+
+  const coupon = await findCouponByCode(code);
+  if (!coupon) {
+    throw new Error('Coupon not found');
+  }
+
+  const cart = await getOrCreateCart(owner);
+  if (cart.items.length === 0) {
+    throw new Error('Cart is empty');
+  }
+
+  await evaluateCoupon(coupon, userId, getCouponLines(cart));
+
+  await prisma.cart.update({
+    where: { id: cart.id },
+    data: { couponId: coupon.id },
+  });
+
+  return getCart(owner);
+}
+
+/**
+ * Remove the applied coupon from the cart
+ */
+export async function removeCoupon(owner: CartOwner): Promise<CartResponse> {
+  const cart = await getOrCreateCart(owner);
+
+  await prisma.cart.update({
+    where: { id: cart.id },
+    data: { couponId: null },
+  });
+
+  return getCart(owner);
+}
 
-  await prisma.cartItem.deleteMany({
-    where: { cartId: cart.id },
+/**
+ * Get the coupon applied to the user's cart (internal use)
+ */
+export async function getCartCoupon(owner: CartOwner): Promise<Coupon | null> {
+  const cart = await prisma.cart.findUnique({
+    where: cartOwnerWhere(owner),
+    include: { coupon: true },
   });
 
-  return getCart(userId);
+  return cart?.coupon ?? null;
 }
 
 /**
- * Validate cart items before checkout (check stock & status)
+ * Validate cart items before checkout (check stock & status, and that no
+ * price went up without the shopper acknowledging it)
  */
-export async function validateCartForCheckout(userId: string): Promise<{
+export async function validateCartForCheckout(owner: CartOwner): Promise<{
   valid: boolean;
   errors: string[];
+  stockFailures: StockFailure[];
+  priceIncreases: CartPriceChangeResponse[];
   cart: CartResponse;
 }> {
-  const cart = await getOrCreateCart(userId);
+  const cart = await getOrCreateCart(owner);
   const errors: string[] = [];
+  const stockFailures: StockFailure[] = [];
 
   for (const item of cart.items) {
     const product = await prisma.product.findUnique({
@@ -295,35 +409,90 @@ export async function validateCartForCheckout(userId: string): Promise<{
     }
 
     let availableStock = product.stock;
+    let name = product.name;
     if (item.variantId) {
       const variant = await prisma.productVariant.findUnique({
         where: { id: item.variantId },
       });
       if (variant) {
-        availableStock = variant.stock;
+        availableStock = Math.min(variant.stock, product.stock);
+        name = `${product.name} (${variant.name}: ${variant.value})`;
       }
     }
 
     if (item.quantity > availableStock) {
       errors.push(
-        `Insufficient stock for "${product.name}". Requested: ${item.quantity}, Available: ${availableStock}`
+        `Insufficient stock for "${name}". Requested: ${item.quantity}, Available: ${availableStock}`
       );
+      stockFailures.push({
+        productId: item.productId,
+        variantId: item.variantId ?? null,
+        name,
+        requested: item.quantity,
+        available: Math.max(availableStock, 0),
+      });
     }
   }
 
+  const response = await buildCartResponse(cart);
+  const priceIncreases = response.priceChanges.filter((change) => change.direction === 'INCREASE');
+
   return {
-    valid: errors.length === 0,
+    valid: errors.length === 0 && priceIncreases.length === 0,
     errors,
-    cart: mapCartToResponse(cart),
+    stockFailures,
+    priceIncreases,
+    cart: response,
   };
 }
 
+/**
+ * Accept the live prices of changed lines (all of them unless itemIds is
+ * given), re-snapshotting their price and delivery charge
+ */
+export async function acknowledgePriceChanges(
+  owner: CartOwner,
+  itemIds?: string[]
+): Promise<CartResponse> {
+  const cart = await getOrCreateCart(owner);
+
+  if (itemIds) {
+    const unknown = itemIds.filter((id) => !cart.items.some((item) => item.id === id));
+    if (unknown.length > 0) {
+      throw new Error('Cart item not found');
+    }
+  }
+
+  const changed = cart.items.filter(
+    (item) =>
+      (!itemIds || itemIds.includes(item.id)) &&
+      (item.priceSnapshot !== getUnitPrice(item.product, item.variant) ||
+        item.deliveryChargeSnapshot !== item.product.deliveryCharge)
+  );
+
+  if (changed.length > 0) {
+    await prisma.$transaction(
+      changed.map((item) =>
+        prisma.cartItem.update({
+          where: { id: item.id },
+          data: {
+            priceSnapshot: getUnitPrice(item.product, item.variant),
+            deliveryChargeSnapshot: item.product.deliveryCharge,
+          },
+        })
+      )
+    );
+  }
+
+  return getCart(owner);
+}
+
 /**
  * Get cart items for order creation (internal use)
  */
-export async function getCartItemsForOrder(userId: string) {
+export async function getCartItemsForOrder(owner: CartOwner) {
   const cart = await prisma.cart.findUnique({
-    where: { userId },
+    where: cartOwnerWhere(owner),
     include: {
       items: {
         include: {
@@ -336,33 +505,243 @@ export async function getCartItemsForOrder(userId: string) {
     },
   });
 
+  // Price drops are passed on; increases were acknowledged (and
+  // re-snapshotted) before checkout got this far
   return cart?.items.map((item) => ({
     ...item,
-    priceSnapshot: item.priceSnapshot,
+    priceSnapshot: Math.min(item.priceSnapshot, getUnitPrice(item.product, item.variant)),
     deliveryChargeSnapshot: item.deliveryChargeSnapshot,
   })) ?? [];
 }
 
 /**
- * Clear cart after successful order (internal use)
+ * Clear cart after successful order (internal use, pass the transaction
+ * client to clear it as part of checkout)
  */
-export async function clearCartAfterOrder(userId: string): Promise<void> {
-  const cart = await prisma.cart.findUnique({
-    where: { userId },
+export async function clearCartAfterOrder(
+  owner: CartOwner,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await client.cartItem.deleteMany({
+    where: { cart: cartOwnerWhere(owner) },
+  });
+
+  await client.cart.updateMany({
+    where: cartOwnerWhere(owner),
+    data: { couponId: null },
+  });
+}
+
+/**
+ * Merge a guest's cart into the user's cart after they sign in. Quantities
+ * of the same product and variant are combined and capped at the available
+ * stock; lines that can no longer be bought are dropped. The guest cart is
+ * removed afterwards.
+ */
+export async function mergeGuestCart(guestId: string, userId: string): Promise<CartMergeResponse> {
+  const result: CartMergeResponse = { mergedCount: 0, adjusted: [], dropped: [] };
+
+  const guestCart = await prisma.cart.findUnique({
+    where: { guestId },
+    include: {
+      items: {
+        include: {
+          product: { select: { stock: true, status: true } },
+          variant: { select: { stock: true } },
+        },
+      },
+    },
   });
 
-  if (cart) {
-    await prisma.cartItem.deleteMany({
-      where: { cartId: cart.id },
+  if (!guestCart) {
+    return result;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const userCart = await tx.cart.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+      include: { items: true },
+    });
+
+    for (const item of guestCart.items) {
+      const existing = userCart.items.find(
+        (line) => line.productId === item.productId && line.variantId === item.variantId
+      );
+      const requested = item.quantity + (existing?.quantity ?? 0);
+      const availableStock = item.variant?.stock ?? item.product.stock;
+
+      const line: CartMergeLine = {
+        productId: item.productId,
+        variantId: item.variantId,
+        requested,
+        quantity: 0,
+        reason: 'INSUFFICIENT_STOCK',
+      };
+
+      if (item.product.status !== 'ACTIVE' || availableStock <= 0) {
+        line.reason = item.product.status !== 'ACTIVE' ? 'UNAVAILABLE' : 'OUT_OF_STOCK';
+        result.dropped.push(line);
+        continue;
+      }
+
+      line.quantity = Math.min(requested, availableStock);
+      if (line.quantity < requested) {
+        result.adjusted.push(line);
+      }
+
+      // Carry the snapshots over (the lower one for a shared line), so a price
+      // increase since either was taken still needs acknowledging
+      const priceSnapshot = Math.min(item.priceSnapshot, existing?.priceSnapshot ?? Infinity);
+      const deliveryChargeSnapshot = Math.min(
+        item.deliveryChargeSnapshot,
+        existing?.deliveryChargeSnapshot ?? Infinity
+      );
+
+      if (existing) {
+        await tx.cartItem.update({
+          where: { id: existing.id },
+          data: { quantity: line.quantity, priceSnapshot, deliveryChargeSnapshot },
+        });
+      } else {
+        await tx.cartItem.create({
+          data: {
+            cartId: userCart.id,
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: line.quantity,
+            priceSnapshot,
+            deliveryChargeSnapshot,
+          },
+        });
+      }
+      result.mergedCount++;
+    }
+
+    // Cart items cascade with the cart
+    await tx.cart.delete({ where: { id: guestCart.id } });
+  });
+
+  return result;
+}
+
+// Helper to describe cart items for the coupon engine
+function getCouponLines(cart: any): CouponLine[] {
+  return cart.items.map((item: any) => ({
+    productId: item.productId,
+    shopId: item.product.shopId,
+    categoryId: item.product.categoryId,
+    lineSubtotal: item.priceSnapshot * item.quantity,
+  }));
+}
+
+/**
+ * Describe a cart item for the shipping rate engine
+ */
+export function toShippingLine(item: any): ShippingLine {
+  return {
+    shopId: item.product.shopId,
+    quantity: item.quantity,
+    lineSubtotal: item.priceSnapshot * item.quantity,
+    weightKg: item.product.weightKg ?? null,
+    deliveryCharge: item.deliveryChargeSnapshot,
+  };
+}
+
+// Helper to find where the cart would ship to; guests have no address book
+async function getCartDestination(userId: string | null, addressId?: string) {
+  if (!userId) {
+    return null;
+  }
+
+  if (addressId) {
+    const address = await prisma.orderAddress.findFirst({
+      where: { id: addressId, userId, archivedAt: null },
     });
+
+    if (!address) {
+      throw new Error('Address not found');
+    }
+
+    return address;
   }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { defaultAddress: true },
+  });
+
+  return user?.defaultAddress ?? null;
+}
+
+// Helper to map cart to response, pricing the applied coupon and quoting
+// shipping when there is an address to ship to
+async function buildCartResponse(cart: any, addressId?: string): Promise<CartResponse> {
+  const response = mapCartToResponse(cart);
+
+  if (cart.coupon) {
+    const coupon = cart.coupon;
+    let discountAmount = 0;
+    let error: string | null = null;
+
+    try {
+      ({ discountAmount } = await evaluateCoupon(coupon, cart.userId, getCouponLines(cart)));
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Coupon cannot be applied';
+    }
+
+    response.coupon = {
+      code: coupon.code,
+      description: coupon.description,
+      type: coupon.type,
+      value: coupon.value,
+      discountAmount,
+      error,
+    };
+    response.discount = discountAmount;
+    response.total -= discountAmount;
+  }
+
+  const destination = await getCartDestination(cart.userId, addressId);
+  if (destination && cart.items.length > 0) {
+    const quote = await quoteShipping(cart.items.map(toShippingLine), destination);
+
+    response.shipping = { addressId: destination.id, ...quote };
+    response.totalDelivery = quote.total;
+    response.total += quote.total;
+  }
+
+  return response;
 }
 
 // Helper to map cart to response
 function mapCartToResponse(cart: any): CartResponse {
+  const priceChanges: CartPriceChangeResponse[] = [];
+
   const items: CartItemResponse[] = cart.items.map((item: any) => {
     const itemTotal = item.priceSnapshot * item.quantity;
     const deliveryTotal = item.deliveryChargeSnapshot * item.quantity;
+    const currentPrice = getUnitPrice(item.product, item.variant);
+    const priceChange =
+      currentPrice > item.priceSnapshot ? 'INCREASE' : currentPrice < item.priceSnapshot ? 'DECREASE' : null;
+
+    if (priceChange) {
+      priceChanges.push({
+        itemId: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        name: item.variant
+          ? `${item.product.name} (${item.variant.name}: ${item.variant.value})`
+          : item.product.name,
+        quantity: item.quantity,
+        direction: priceChange,
+        snapshotPrice: item.priceSnapshot,
+        currentPrice,
+        unitDifference: currentPrice - item.priceSnapshot,
+        lineDifference: (currentPrice - item.priceSnapshot) * item.quantity,
+      });
+    }
 
     return {
       id: item.id,
@@ -373,6 +752,8 @@ function mapCartToResponse(cart: any): CartResponse {
       deliveryChargeSnapshot: item.deliveryChargeSnapshot,
       itemTotal,
       deliveryTotal,
+      currentPrice,
+      priceChange,
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
       product: item.product
@@ -400,17 +781,22 @@ function mapCartToResponse(cart: any): CartResponse {
   });
 
   const subtotal = items.reduce((sum, item) => sum + item.itemTotal, 0);
-  const totalDelivery = items.reduce((sum, item) => sum + item.deliveryTotal, 0);
-  const total = subtotal + totalDelivery;
 
+  // Shipping is quoted per shop once an address is known
   return {
     id: cart.id,
     userId: cart.userId,
+    guest: cart.userId === null,
     items,
     itemCount: items.length,
     subtotal,
-    totalDelivery,
-    total,
+    totalDelivery: 0,
+    shipping: null,
+    coupon: null,
+    discount: 0,
+    total: subtotal,
+    priceChanges,
+    requiresPriceAcknowledgement: priceChanges.some((change) => change.direction === 'INCREASE'),
     createdAt: cart.createdAt,
     updatedAt: cart.updatedAt,
   };
@@ -0,0 +1,216 @@
+import { prisma } from '../../lib/prisma.ts';
+import { Prisma } from '../../prisma/generated/client.ts';
+import { getDescendantIds } from './category.service.ts';
+import {
+  getProductStats,
+  getProductsStatsMap,
+  mapProductToResponse,
+  mapProductToDetailResponse,
+} from './product.service.ts';
+import type {
+  CatalogFilters,
+  CatalogSort,
+  CatalogProductDetailResponse,
+  PaginatedCatalogResponse,
+} from '../types/catalog.types.ts';
+
+/**
+ * Products visible on the storefront: ACTIVE products in shops whose vendor
+ * has an APPROVED KYC. Joins the published-review and sales aggregates so callers can
+ * filter and sort on them. Exposes columns p.*, avg_rating, total_sold.
+ */
+export const CATALOG_FROM_SQL = Prisma.sql`
+  FROM "products" p
+  JOIN "shops" s ON s."id" = p."shopId"
+  JOIN "vendor_kyc" k ON k."vendorId" = s."vendorId" AND k."status" = 'APPROVED'
+  LEFT JOIN (
+    SELECT pr."productId", AVG(pr."rating")::float AS avg_rating
+    FROM "product_reviews" pr
+    JOIN "users" u ON u."id" = pr."userId"
+    WHERE pr."status" = 'PUBLISHED' AND u."status" <> 'SUSPENDED'
+    GROUP BY pr."productId"
+  ) r ON r."productId" = p."id"
+  LEFT JOIN (
+    SELECT "productId", SUM("quantity")::int AS total_sold
+    FROM "order_items"
+    WHERE "status" = 'DELIVERED'
+    GROUP BY "productId"
+  ) o ON o."productId" = p."id"
+`;
+
+export const CATALOG_VISIBLE_SQL = Prisma.sql`p."status" = 'ACTIVE'`;
+
+/**
+ * Prisma `where` equivalent of the storefront visibility rule
+ */
+export const catalogVisibleWhere = {
+  status: 'ACTIVE',
+  shop: { vendor: { kyc: { is: { status: 'APPROVED' } } } },
+} as const;
+
+export const CATALOG_ORDER_BY_SQL: Record<CatalogSort, Prisma.Sql> = {
+  newest: Prisma.sql`p."createdAt" DESC`,
+  price_asc: Prisma.sql`p."price" ASC, p."createdAt" DESC`,
+  price_desc: Prisma.sql`p."price" DESC, p."createdAt" DESC`,
+  best_selling: Prisma.sql`COALESCE(o.total_sold, 0) DESC, p."createdAt" DESC`,
+  rating: Prisma.sql`COALESCE(r.avg_rating, 0) DESC, p."createdAt" DESC`,
+};
+
+/**
+ * Resolve a category filter to the category and all of its descendants
+ */
+async function resolveCategorySubtree(filters: CatalogFilters): Promise<string[] | null> {
+  let categoryId = filters.categoryId;
+
+  if (!categoryId && filters.categorySlug) {
+    const category = await prisma.category.findUnique({
+      where: { slug: filters.categorySlug },
+      select: { id: true },
+    });
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    categoryId = category.id;
+  }
+
+  if (!categoryId) {
+    return null;
+  }
+
+  const descendantIds = await getDescendantIds(categoryId);
+  return [categoryId, ...descendantIds];
+}
+
+/**
+ * Build the SQL conditions for the catalog filters
+ */
+export async function buildCatalogConditions(filters: CatalogFilters): Promise<Prisma.Sql[]> {
+  const conditions: Prisma.Sql[] = [CATALOG_VISIBLE_SQL];
+
+  const categoryIds = await resolveCategorySubtree(filters);
+  if (categoryIds) {
+    conditions.push(Prisma.sql`p."categoryId" IN (${Prisma.join(categoryIds)})`);
+  }
+
+  if (filters.shopId) {
+    conditions.push(Prisma.sql`p."shopId" = ${filters.shopId}`);
+  }
+
+  if (filters.minPrice !== undefined) {
+    conditions.push(Prisma.sql`p."price" >= ${filters.minPrice}`);
+  }
+
+  if (filters.maxPrice !== undefined) {
+    conditions.push(Prisma.sql`p."price" <= ${filters.maxPrice}`);
+  }
+
+  if (filters.minRating !== undefined) {
+    conditions.push(Prisma.sql`COALESCE(r.avg_rating, 0) >= ${filters.minRating}`);
+  }
+
+  if (filters.inStock) {
+    conditions.push(Prisma.sql`(
+      p."stock" > 0
+      OR EXISTS (SELECT 1 FROM "product_variants" v WHERE v."productId" = p."id" AND v."stock" > 0)
+    )`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Load full product rows (with first image and shop) for a list of IDs,
+ * preserving the order of the IDs
+ */
+export async function loadCatalogProducts(productIds: string[]) {
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const [products, statsMap] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: productIds } },
+      include: {
+        images: { select: { url: true }, orderBy: { createdAt: 'asc' }, take: 1 },
+        shop: { select: { id: true, name: true, logo: true } },
+      },
+    }),
+    getProductsStatsMap(productIds),
+  ]);
+
+  const byId = new Map(products.map((product) => [product.id, product]));
+
+  return productIds
+    .map((id) => byId.get(id))
+    .filter((product): product is NonNullable<typeof product> => Boolean(product))
+    .map((product) => ({
+      ...mapProductToResponse(product, statsMap[product.id]),
+      image: product.images[0]?.url ?? null,
+      shop: product.shop,
+    }));
+}
+
+/**
+ * List storefront products across all shops
+ */
+export async function getCatalogProducts(
+  filters: CatalogFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedCatalogResponse> {
+  const conditions = await buildCatalogConditions(filters);
+  const whereSql = Prisma.join(conditions, ' AND ');
+  const orderBySql = CATALOG_ORDER_BY_SQL[filters.sort ?? 'newest'];
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>`
+      SELECT p."id"
+      ${CATALOG_FROM_SQL}
+      WHERE ${whereSql}
+      ORDER BY ${orderBySql}
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS total
+      ${CATALOG_FROM_SQL}
+      WHERE ${whereSql}
+    `,
+  ]);
+
+  const total = countRows[0]?.total ?? 0;
+  const products = await loadCatalogProducts(rows.map((row) => row.id));
+
+  return {
+    products,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Get a single storefront product (null if missing or not publicly visible)
+ */
+export async function getCatalogProductById(productId: string): Promise<CatalogProductDetailResponse | null> {
+  const product = await prisma.product.findFirst({
+    where: { id: productId, ...catalogVisibleWhere },
+    include: {
+      category: true,
+      images: true,
+      variants: true,
+      shop: { select: { id: true, name: true, logo: true } },
+    },
+  });
+
+  if (!product) {
+    return null;
+  }
+
+  const stats = await getProductStats(product.id);
+
+  return {
+    ...mapProductToDetailResponse(product, stats),
+    shop: product.shop,
+  };
+}
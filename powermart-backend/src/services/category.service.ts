@@ -267,8 +267,8 @@ export async function updateCategory(
   return mapCategoryToResponse(category);
 }
 
-// Get all descendant IDs (for circular reference check)
-async function getDescendantIds(categoryId: string): Promise<string[]> {
+// Get all descendant IDs (circular reference check, subtree filtering)
+export async function getDescendantIds(categoryId: string): Promise<string[]> {
   const descendants: string[] = [];
   const children = await prisma.category.findMany({
     where: { parentId: categoryId },
@@ -0,0 +1,216 @@
+import { prisma } from '../../lib/prisma.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type {
+  CreateCommissionRuleRequest,
+  CommissionRuleFilters,
+  CommissionTarget,
+  ResolvedCommission,
+  CommissionRuleResponse,
+  PaginatedCommissionRulesResponse,
+} from '../types/commission.types.ts';
+
+// Rate used when no DEFAULT rule has been configured yet
+export const FALLBACK_COMMISSION_RATE = parseFloat(process.env.PLATFORM_COMMISSION_RATE ?? '10');
+
+// Allow for clock skew between the admin's client and the server
+const EFFECTIVE_FROM_GRACE_MS = 60 * 1000;
+
+/**
+ * Commission for a line, rounded to paisa
+ */
+export function calculateCommission(baseAmount: number, rate: number): number {
+  return Math.round(baseAmount * rate) / 100;
+}
+
+// Helper to check that exactly the target id matching the scope is set and exists
+async function assertRuleTarget(data: CreateCommissionRuleRequest): Promise<void> {
+  const targets = {
+    CATEGORY: data.categoryId,
+    VENDOR: data.vendorId,
+    SHOP: data.shopId,
+  };
+
+  for (const [targetScope, targetId] of Object.entries(targets)) {
+    if (targetScope !== data.scope && targetId) {
+      throw new Error(`${data.scope} rules cannot target a ${targetScope.toLowerCase()}`);
+    }
+  }
+
+  if (data.scope === 'CATEGORY') {
+    if (!data.categoryId || !(await prisma.category.findUnique({ where: { id: data.categoryId } }))) {
+      throw new Error('Category not found');
+    }
+  }
+
+  if (data.scope === 'VENDOR') {
+    if (!data.vendorId || !(await prisma.vendor.findUnique({ where: { id: data.vendorId } }))) {
+      throw new Error('Vendor not found');
+    }
+  }
+
+  if (data.scope === 'SHOP') {
+    if (!data.shopId || !(await prisma.shop.findUnique({ where: { id: data.shopId } }))) {
+      throw new Error('Shop not found');
+    }
+  }
+}
+
+/**
+ * Add a commission rule (admin). Takes effect now or at `effectiveFrom`.
+ */
+export async function createCommissionRule(
+  adminUserId: string,
+  data: CreateCommissionRuleRequest
+): Promise<CommissionRuleResponse> {
+  const effectiveFrom = data.effectiveFrom ?? new Date();
+
+  if (effectiveFrom.getTime() < Date.now() - EFFECTIVE_FROM_GRACE_MS) {
+    throw new Error('Commission rules cannot take effect in the past');
+  }
+
+  await assertRuleTarget(data);
+
+  const rule = await prisma.commissionRule.create({
+    data: {
+      scope: data.scope,
+      categoryId: data.categoryId ?? null,
+      vendorId: data.vendorId ?? null,
+      shopId: data.shopId ?? null,
+      rate: data.rate,
+      effectiveFrom,
+      note: data.note ?? null,
+      createdById: adminUserId,
+    },
+  });
+
+  return mapCommissionRuleToResponse(rule);
+}
+
+/**
+ * List commission rules, newest first (admin)
+ */
+export async function getCommissionRules(
+  filters: CommissionRuleFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedCommissionRulesResponse> {
+  const where: any = {};
+  if (filters.scope) where.scope = filters.scope;
+  if (filters.categoryId) where.categoryId = filters.categoryId;
+  if (filters.vendorId) where.vendorId = filters.vendorId;
+  if (filters.shopId) where.shopId = filters.shopId;
+
+  const [rules, total] = await Promise.all([
+    prisma.commissionRule.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+    }),
+    prisma.commissionRule.count({ where }),
+  ]);
+
+  return {
+    rules: rules.map(mapCommissionRuleToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Delete a scheduled rule (admin). Rules already in effect are part of the
+ * history and are superseded by adding a newer rule instead.
+ */
+export async function deleteCommissionRule(ruleId: string): Promise<void> {
+  const rule = await prisma.commissionRule.findUnique({ where: { id: ruleId } });
+
+  if (!rule) {
+    throw new Error('Commission rule not found');
+  }
+
+  if (rule.effectiveFrom <= new Date()) {
+    throw new Error('Rules already in effect cannot be deleted; add a new rule instead');
+  }
+
+  await prisma.commissionRule.delete({ where: { id: ruleId } });
+}
+
+/**
+ * Resolve the commission for each target at a point in time.
+ * Precedence: shop, then vendor, then the nearest category up the
+ * hierarchy, then the platform default. For each of those the rule with
+ * the latest effectiveFrom on or before `at` applies.
+ */
+export async function resolveCommissions(
+  targets: CommissionTarget[],
+  at: Date = new Date(),
+  client: Prisma.TransactionClient = prisma
+): Promise<ResolvedCommission[]> {
+  const rules = await client.commissionRule.findMany({
+    where: {
+      effectiveFrom: { lte: at },
+      OR: [
+        { scope: 'DEFAULT' },
+        { scope: 'CATEGORY' },
+        { scope: 'VENDOR', vendorId: { in: targets.map((target) => target.vendorId) } },
+        { scope: 'SHOP', shopId: { in: targets.map((target) => target.shopId) } },
+      ],
+    },
+    orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  // Latest rule per scope and target
+  const current = new Map<string, (typeof rules)[number]>();
+  for (const rule of rules) {
+    const key = `${rule.scope}:${rule.shopId ?? rule.vendorId ?? rule.categoryId ?? ''}`;
+    if (!current.has(key)) {
+      current.set(key, rule);
+    }
+  }
+
+  const hasCategoryRules = rules.some((rule) => rule.scope === 'CATEGORY');
+  const parentById = new Map<string, string | null>();
+  if (hasCategoryRules) {
+    const categories = await client.category.findMany({ select: { id: true, parentId: true } });
+    for (const category of categories) {
+      parentById.set(category.id, category.parentId);
+    }
+  }
+
+  return targets.map((target) => {
+    let rule = current.get(`SHOP:${target.shopId}`) ?? current.get(`VENDOR:${target.vendorId}`);
+
+    // Walk up the category tree (guarding against cycles)
+    const visited = new Set<string>();
+    let categoryId = hasCategoryRules ? target.categoryId : null;
+    while (!rule && categoryId && !visited.has(categoryId)) {
+      visited.add(categoryId);
+      rule = current.get(`CATEGORY:${categoryId}`);
+      categoryId = parentById.get(categoryId) ?? null;
+    }
+
+    rule = rule ?? current.get('DEFAULT:');
+
+    return rule
+      ? { rate: rule.rate, ruleId: rule.id }
+      : { rate: FALLBACK_COMMISSION_RATE, ruleId: null };
+  });
+}
+
+// Helper to map Prisma result to response type
+function mapCommissionRuleToResponse(rule: any): CommissionRuleResponse {
+  return {
+    id: rule.id,
+    scope: rule.scope,
+    categoryId: rule.categoryId,
+    vendorId: rule.vendorId,
+    shopId: rule.shopId,
+    rate: rule.rate,
+    effectiveFrom: rule.effectiveFrom,
+    note: rule.note,
+    createdById: rule.createdById,
+    createdAt: rule.createdAt,
+  };
+}
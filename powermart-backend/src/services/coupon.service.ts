@@ -0,0 +1,375 @@
+import { prisma } from '../../lib/prisma.ts';
+import type { Coupon, Prisma } from '../../prisma/generated/client.ts';
+import { getDescendantIds } from './category.service.ts';
+import type {
+  CreateCouponRequest,
+  UpdateCouponRequest,
+  CouponFilters,
+  CouponLine,
+  CouponEvaluation,
+  CouponResponse,
+  PaginatedCouponsResponse,
+} from '../types/coupon.types.ts';
+
+/**
+ * Codes are matched case-insensitively and stored upper-case
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Helper to check that exactly the target id matching the scope is set and exists
+async function assertCouponTarget(data: CreateCouponRequest): Promise<void> {
+  const scope = data.scope ?? 'PLATFORM';
+  const targets = {
+    SHOP: data.shopId,
+    CATEGORY: data.categoryId,
+    PRODUCT: data.productId,
+  };
+
+  for (const [targetScope, targetId] of Object.entries(targets)) {
+    if (targetScope !== scope && targetId) {
+      throw new Error(`${scope} coupons cannot target a ${targetScope.toLowerCase()}`);
+    }
+  }
+
+  if (scope === 'SHOP') {
+    if (!data.shopId || !(await prisma.shop.findUnique({ where: { id: data.shopId } }))) {
+      throw new Error('Shop not found');
+    }
+  }
+
+  if (scope === 'CATEGORY') {
+    if (!data.categoryId || !(await prisma.category.findUnique({ where: { id: data.categoryId } }))) {
+      throw new Error('Category not found');
+    }
+  }
+
+  if (scope === 'PRODUCT') {
+    if (!data.productId || !(await prisma.product.findUnique({ where: { id: data.productId } }))) {
+      throw new Error('Product not found');
+    }
+  }
+}
+
+/**
+ * Create a coupon (admin)
+ */
+export async function createCoupon(data: CreateCouponRequest): Promise<CouponResponse> {
+  const code = normalizeCouponCode(data.code);
+
+  if (data.type === 'PERCENTAGE' && data.value > 100) {
+    throw new Error('Percentage discount cannot exceed 100');
+  }
+
+  if (data.startsAt && data.expiresAt && data.startsAt >= data.expiresAt) {
+    throw new Error('Coupon must start before it expires');
+  }
+
+  await assertCouponTarget(data);
+
+  const existing = await prisma.coupon.findUnique({ where: { code } });
+  if (existing) {
+    throw new Error('Coupon code already exists');
+  }
+
+  const coupon = await prisma.coupon.create({
+    data: {
+      code,
+      description: data.description ?? null,
+      type: data.type,
+      value: data.value,
+      maxDiscount: data.maxDiscount ?? null,
+      minSpend: data.minSpend ?? 0,
+      scope: data.scope ?? 'PLATFORM',
+      shopId: data.shopId ?? null,
+      categoryId: data.categoryId ?? null,
+      productId: data.productId ?? null,
+      usageLimit: data.usageLimit ?? null,
+      perUserLimit: data.perUserLimit ?? null,
+      startsAt: data.startsAt ?? null,
+      expiresAt: data.expiresAt ?? null,
+      isActive: data.isActive ?? true,
+    },
+  });
+
+  return mapCouponToResponse(coupon);
+}
+
+/**
+ * List coupons (admin)
+ */
+export async function getCoupons(
+  filters: CouponFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedCouponsResponse> {
+  const where: any = {};
+
+  if (filters.scope) {
+    where.scope = filters.scope;
+  }
+
+  if (filters.isActive !== undefined) {
+    where.isActive = filters.isActive;
+  }
+
+  if (filters.search) {
+    where.code = { contains: normalizeCouponCode(filters.search) };
+  }
+
+  const [coupons, total] = await Promise.all([
+    prisma.coupon.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.coupon.count({ where }),
+  ]);
+
+  return {
+    coupons: coupons.map(mapCouponToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Get a coupon by ID (admin)
+ */
+export async function getCouponById(couponId: string): Promise<CouponResponse | null> {
+  const coupon = await prisma.coupon.findUnique({ where: { id: couponId } });
+  return coupon ? mapCouponToResponse(coupon) : null;
+}
+
+/**
+ * Update a coupon's limits, window or status (admin). The code, type, value
+ * and scope are fixed once created so existing redemptions stay meaningful.
+ */
+export async function updateCoupon(
+  couponId: string,
+  data: UpdateCouponRequest
+): Promise<CouponResponse> {
+  const coupon = await prisma.coupon.findUnique({ where: { id: couponId } });
+  if (!coupon) {
+    throw new Error('Coupon not found');
+  }
+
+  const startsAt = data.startsAt !== undefined ? data.startsAt : coupon.startsAt;
+  const expiresAt = data.expiresAt !== undefined ? data.expiresAt : coupon.expiresAt;
+  if (startsAt && expiresAt && startsAt >= expiresAt) {
+    throw new Error('Coupon must start before it expires');
+  }
+
+  const updateData: any = {};
+  if (data.description !== undefined) updateData.description = data.description;
+  if (data.maxDiscount !== undefined) updateData.maxDiscount = data.maxDiscount;
+  if (data.minSpend !== undefined) updateData.minSpend = data.minSpend;
+  if (data.usageLimit !== undefined) updateData.usageLimit = data.usageLimit;
+  if (data.perUserLimit !== undefined) updateData.perUserLimit = data.perUserLimit;
+  if (data.startsAt !== undefined) updateData.startsAt = data.startsAt;
+  if (data.expiresAt !== undefined) updateData.expiresAt = data.expiresAt;
+  if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+  const updated = await prisma.coupon.update({
+    where: { id: couponId },
+    data: updateData,
+  });
+
+  return mapCouponToResponse(updated);
+}
+
+/**
+ * Find a coupon by its code
+ */
+export async function findCouponByCode(code: string): Promise<Coupon | null> {
+  return prisma.coupon.findUnique({ where: { code: normalizeCouponCode(code) } });
+}
+
+/**
+ * Check a coupon against a user and their lines and work out the discount.
+ * Throws a customer-facing error if the coupon cannot be applied.
+ */
+export async function evaluateCoupon(
+  coupon: Coupon,
+  userId: string,
+  lines: CouponLine[],
+  client: Prisma.TransactionClient = prisma
+): Promise<CouponEvaluation> {
+  const now = new Date();
+
+  if (!coupon.isActive) {
+    throw new Error(`Coupon ${coupon.code} is no longer active`);
+  }
+
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new Error(`Coupon ${coupon.code} is not valid yet`);
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    throw new Error(`Coupon ${coupon.code} has expired`);
+  }
+
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    throw new Error(`Coupon ${coupon.code} has reached its usage limit`);
+  }
+
+  if (coupon.perUserLimit !== null) {
+    const userRedemptions = await client.couponRedemption.count({
+      where: { couponId: coupon.id, userId },
+    });
+
+    if (userRedemptions >= coupon.perUserLimit) {
+      throw new Error(`You have already used coupon ${coupon.code}`);
+    }
+  }
+
+  const eligibleLines = await filterEligibleLines(coupon, lines);
+  if (eligibleLines.length === 0) {
+    throw new Error(`Coupon ${coupon.code} does not apply to any item in your cart`);
+  }
+
+  const eligibleSubtotal = eligibleLines.reduce((sum, line) => sum + line.lineSubtotal, 0);
+  if (eligibleSubtotal < coupon.minSpend) {
+    throw new Error(`Coupon ${coupon.code} requires a minimum spend of Rs. ${coupon.minSpend}`);
+  }
+
+  let discountAmount =
+    coupon.type === 'PERCENTAGE' ? (eligibleSubtotal * coupon.value) / 100 : coupon.value;
+
+  if (coupon.maxDiscount !== null) {
+    discountAmount = Math.min(discountAmount, coupon.maxDiscount);
+  }
+
+  discountAmount = Math.round(Math.min(discountAmount, eligibleSubtotal) * 100) / 100;
+
+  // Spread the discount over the eligible lines by value; the last one takes the rounding
+  const shares = new Map<CouponLine, number>();
+  let allocated = 0;
+  eligibleLines.forEach((line, index) => {
+    const share =
+      index === eligibleLines.length - 1 || eligibleSubtotal === 0
+        ? discountAmount - allocated
+        : Math.round(((discountAmount * line.lineSubtotal) / eligibleSubtotal) * 100) / 100;
+    allocated += share;
+    shares.set(line, Math.round(share * 100) / 100);
+  });
+
+  return {
+    eligibleSubtotal,
+    discountAmount,
+    lineDiscounts: lines.map((line) => shares.get(line) ?? 0),
+  };
+}
+
+// Helper to keep only the lines a coupon's scope covers
+async function filterEligibleLines(
+  coupon: Coupon,
+  lines: CouponLine[]
+): Promise<CouponLine[]> {
+  switch (coupon.scope) {
+    case 'SHOP':
+      return lines.filter((line) => line.shopId === coupon.shopId);
+    case 'PRODUCT':
+      return lines.filter((line) => line.productId === coupon.productId);
+    case 'CATEGORY': {
+      if (!coupon.categoryId) return [];
+      const categoryIds = [coupon.categoryId, ...(await getDescendantIds(coupon.categoryId))];
+      return lines.filter((line) => line.categoryId && categoryIds.includes(line.categoryId));
+    }
+    default:
+      return lines;
+  }
+}
+
+/**
+ * Record a redemption inside the checkout transaction. The usage counter is
+ * incremented with a conditional update, which also locks the coupon row so
+ * concurrent checkouts see each other's redemptions for the per-user limit.
+ */
+export async function redeemCoupon(
+  tx: Prisma.TransactionClient,
+  coupon: Coupon,
+  userId: string,
+  orderId: string,
+  discountAmount: number
+): Promise<void> {
+  const result = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      isActive: true,
+      OR: [{ usageLimit: null }, { usedCount: { lt: tx.coupon.fields.usageLimit } }],
+    },
+    data: { usedCount: { increment: 1 } },
+  });
+
+  if (result.count === 0) {
+    throw new Error(`Coupon ${coupon.code} has reached its usage limit`);
+  }
+
+  if (coupon.perUserLimit !== null) {
+    const userRedemptions = await tx.couponRedemption.count({
+      where: { couponId: coupon.id, userId },
+    });
+
+    if (userRedemptions >= coupon.perUserLimit) {
+      throw new Error(`You have already used coupon ${coupon.code}`);
+    }
+  }
+
+  await tx.couponRedemption.create({
+    data: {
+      couponId: coupon.id,
+      userId,
+      orderId,
+      discountAmount,
+    },
+  });
+}
+
+/**
+ * Give a cancelled order's redemption back to the coupon
+ */
+export async function releaseCouponRedemption(
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<void> {
+  const redemption = await tx.couponRedemption.findUnique({ where: { orderId } });
+  if (!redemption) {
+    return;
+  }
+
+  await tx.couponRedemption.delete({ where: { id: redemption.id } });
+  await tx.coupon.updateMany({
+    where: { id: redemption.couponId, usedCount: { gt: 0 } },
+    data: { usedCount: { decrement: 1 } },
+  });
+}
+
+// Helper to map Prisma result to response type
+function mapCouponToResponse(coupon: any): CouponResponse {
+  return {
+    id: coupon.id,
+    code: coupon.code,
+    description: coupon.description,
+    type: coupon.type,
+    value: coupon.value,
+    maxDiscount: coupon.maxDiscount,
+    minSpend: coupon.minSpend,
+    scope: coupon.scope,
+    shopId: coupon.shopId,
+    categoryId: coupon.categoryId,
+    productId: coupon.productId,
+    usageLimit: coupon.usageLimit,
+    perUserLimit: coupon.perUserLimit,
+    usedCount: coupon.usedCount,
+    startsAt: coupon.startsAt,
+    expiresAt: coupon.expiresAt,
+    isActive: coupon.isActive,
+    createdAt: coupon.createdAt,
+    updatedAt: coupon.updatedAt,
+  };
+}
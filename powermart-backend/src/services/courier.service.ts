@@ -0,0 +1,372 @@
+import { prisma } from '../../lib/prisma.ts';
+import { Prisma } from '../../prisma/generated/client.ts';
+import type { ShipmentStatus } from '../../prisma/generated/enums.ts';
+import {
+  buildSimulatorWebhook,
+  getCourier,
+  listCouriers,
+  type AirwayBill,
+  type CourierTracking,
+  type CourierTrackingStatus,
+  type CourierWebhookHeaders,
+} from '../../lib/couriers/index.ts';
+import { applyShipmentStatus, getVendorShipmentById } from './shipment.service.ts';
+import { DEFAULT_ITEM_WEIGHT_KG } from './shipping.service.ts';
+import type { OrderActor } from '../types/order.types.ts';
+import type { VendorShipmentResponse } from '../types/shipment.types.ts';
+import type {
+  BookShipmentRequest,
+  CourierResponse,
+  CourierWebhookResult,
+  ShipmentTrackingResponse,
+} from '../types/courier.types.ts';
+
+// Courier updates are recorded as system changes
+const COURIER_ACTOR: OrderActor = { userId: null, role: 'SYSTEM' };
+
+// Courier statuses that mean the parcel has left the shop
+const IN_TRANSIT_STATUSES = new Set<CourierTrackingStatus>(['PICKED_UP', 'IN_TRANSIT', 'OUT_FOR_DELIVERY']);
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Where couriers post tracking updates
+function buildWebhookUrl(courierName: string): string {
+  const apiUrl = process.env.API_URL ?? `http://localhost:${process.env.PORT ?? 3000}`;
+  return `${apiUrl}/api/couriers/webhooks/${courierName}`;
+}
+
+/**
+ * List the couriers shipments can be booked with
+ */
+export function getCouriers(): CourierResponse[] {
+  return listCouriers().map((courier) => ({ name: courier.name, displayName: courier.displayName }));
+}
+
+/**
+ * Book a confirmed shipment with a courier and store its tracking code.
+ * The shipment stays confirmed until the courier reports the pickup.
+ */
+export async function bookShipment(
+  vendorId: string,
+  vendorUserId: string,
+  shipmentId: string,
+  data: BookShipmentRequest
+): Promise<VendorShipmentResponse> {
+  const shipment = await prisma.shipment.findFirst({
+    where: { id: shipmentId, shop: { vendorId } },
+    include: {
+      shop: {
+        include: {
+          vendor: { select: { phoneNumber: true, address: true } },
+          shippingProfile: { select: { originCity: true } },
+        },
+      },
+      items: { include: { product: { select: { name: true, weightKg: true } } } },
+      order: {
+        include: {
+          shippingAddress: true,
+          items: { select: { totalPrice: true } },
+          shipments: { select: { shippingFee: true } },
+        },
+      },
+    },
+  });
+
+  if (!shipment) {
+    throw new Error('Shipment not found');
+  }
+
+  if (shipment.courier) {
+    throw new Error(`Shipment is already booked with ${shipment.carrier ?? shipment.courier}`);
+  }
+
+  if (shipment.status !== 'CONFIRMED') {
+    throw new Error('Only confirmed shipments can be booked with a courier');
+  }
+
+  const originCity = shipment.shop.shippingProfile?.originCity;
+  if (!originCity) {
+    throw new Error('Set up a shipping profile with the origin city before booking a courier');
+  }
+
+  const courier = getCourier(data.courier);
+  const items = shipment.items.filter((item) => item.status !== 'CANCELLED');
+  const address = shipment.order.shippingAddress;
+
+  const weightKg =
+    data.weightKg ??
+    shipment.weightKg ??
+    roundAmount(
+      items.reduce((sum, item) => sum + (item.product.weightKg ?? DEFAULT_ITEM_WEIGHT_KG) * item.quantity, 0)
+    );
+
+  const consignment = await courier.bookConsignment({
+    shipmentId: shipment.id,
+    orderNumber: shipment.order.orderNumber,
+    shipper: {
+      name: shipment.shop.name,
+      phone: shipment.shop.vendor.phoneNumber,
+      address: shipment.shop.address ?? shipment.shop.vendor.address,
+      city: originCity,
+    },
+    consignee: {
+      name: address.fullName,
+      phone: address.phoneNumber,
+      address: [address.line1, address.line2].filter(Boolean).join(', '),
+      city: address.city,
+      postalCode: address.postalCode,
+    },
+    pieces: items.reduce((sum, item) => sum + item.quantity, 0),
+    weightKg,
+    codAmount: calculateCodAmount(shipment.order, shipment.shippingFee, items),
+    description: items.map((item) => `${item.quantity} x ${item.product.name}`).join(', '),
+    webhookUrl: buildWebhookUrl(courier.name),
+  });
+
+  await applyShipmentStatus(
+    shipment.id,
+    'CONFIRMED',
+    { userId: vendorUserId, role: 'VENDOR' },
+    {
+      courier: courier.name,
+      carrier: courier.displayName,
+      trackingCode: consignment.trackingCode,
+      trackingUrl: consignment.trackingUrl,
+      weightKg,
+      estimatedDelivery: consignment.estimatedDelivery,
+    },
+    `Booked with ${courier.displayName}`
+  );
+
+  return (await getVendorShipmentById(vendorId, shipmentId))!;
+}
+
+/**
+ * Cancel a courier booking that has not been picked up yet, clearing the
+ * shipment's tracking details so it can be booked again
+ */
+export async function cancelBooking(
+  vendorId: string,
+  vendorUserId: string,
+  shipmentId: string
+): Promise<VendorShipmentResponse> {
+  const { shipment, courier } = await getBookedShipment(vendorId, shipmentId);
+
+  if (shipment.status !== 'CONFIRMED') {
+    throw new Error('Only bookings that have not been picked up can be cancelled');
+  }
+
+  await courier.cancelConsignment(shipment.trackingCode!);
+
+  await applyShipmentStatus(
+    shipment.id,
+    'CONFIRMED',
+    { userId: vendorUserId, role: 'VENDOR' },
+    {
+      courier: null,
+      carrier: null,
+      trackingCode: null,
+      trackingUrl: null,
+      estimatedDelivery: null,
+    },
+    `${courier.displayName} booking cancelled`
+  );
+
+  return (await getVendorShipmentById(vendorId, shipmentId))!;
+}
+
+/**
+ * Get the printable airway bill for a booked shipment
+ */
+export async function getAirwayBill(vendorId: string, shipmentId: string): Promise<AirwayBill> {
+  const { shipment, courier } = await getBookedShipment(vendorId, shipmentId);
+  return courier.getAirwayBill(shipment.trackingCode!);
+}
+
+/**
+ * Fetch a booked shipment's tracking from its courier. Also applies the
+ * courier's latest status, in case a tracking callback was missed.
+ */
+export async function getShipmentTracking(
+  vendorId: string,
+  shipmentId: string
+): Promise<ShipmentTrackingResponse> {
+  const { shipment, courier } = await getBookedShipment(vendorId, shipmentId);
+  const tracking: CourierTracking = await courier.getTracking(shipment.trackingCode!);
+
+  const shipmentStatus = await advanceShipment(
+    shipment,
+    tracking.status,
+    `${courier.displayName}: ${tracking.status.toLowerCase().replace(/_/g, ' ')}`
+  );
+
+  if (shipment.courierStatus !== tracking.status) {
+    await prisma.shipment.update({
+      where: { id: shipment.id },
+      data: { courierStatus: tracking.status },
+    });
+  }
+
+  return {
+    shipmentId: shipment.id,
+    courier: courier.name,
+    trackingCode: tracking.trackingCode,
+    status: tracking.status,
+    shipmentStatus,
+    events: tracking.events,
+  };
+}
+
+/**
+ * Apply a courier tracking callback. The signature is verified by the
+ * courier adapter; each event id is stored once, so redelivered callbacks
+ * are acknowledged without being applied again.
+ */
+export async function handleCourierWebhook(
+  courierName: string,
+  rawBody: Buffer,
+  headers: CourierWebhookHeaders
+): Promise<CourierWebhookResult> {
+  const courier = getCourier(courierName);
+  const event = courier.parseWebhook(rawBody, headers);
+
+  const shipment = await prisma.shipment.findFirst({
+    where: { courier: courier.name, trackingCode: event.trackingCode },
+  });
+
+  if (!shipment) {
+    throw new Error('Shipment not found');
+  }
+
+  let recordId: string;
+  try {
+    const record = await prisma.shipmentTrackingEvent.create({
+      data: {
+        shipmentId: shipment.id,
+        courier: courier.name,
+        eventId: event.eventId,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt,
+        payload: event.payload as Prisma.InputJsonValue,
+      },
+    });
+    recordId = record.id;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { received: true, duplicate: true, shipmentStatus: null };
+    }
+    throw error;
+  }
+
+  try {
+    const note = `${courier.displayName}: ${event.description ?? event.status.toLowerCase().replace(/_/g, ' ')}${
+      event.location ? ` (${event.location})` : ''
+    }`;
+    const shipmentStatus = await advanceShipment(shipment, event.status, note);
+
+    // Callbacks can arrive out of order; the latest event sets the courier status
+    const latest = await prisma.shipmentTrackingEvent.findFirst({
+      where: { shipmentId: shipment.id },
+      orderBy: { occurredAt: 'desc' },
+    });
+    await prisma.shipment.update({
+      where: { id: shipment.id },
+      data: { courierStatus: latest?.status ?? event.status },
+    });
+
+    return { received: true, duplicate: false, shipmentStatus };
+  } catch (error) {
+    // Forget the event so the courier's retry is applied
+    await prisma.shipmentTrackingEvent.delete({ where: { id: recordId } });
+    throw error;
+  }
+}
+
+/**
+ * Move a simulated consignment along by sending its signed callback through
+ * the regular webhook path
+ */
+export async function advanceSimulatedConsignment(
+  trackingCode: string,
+  status: CourierTrackingStatus,
+  location?: string
+): Promise<CourierWebhookResult> {
+  const { rawBody, headers } = buildSimulatorWebhook(trackingCode, status, location);
+  return handleCourierWebhook('simulator', rawBody, headers);
+}
+
+/**
+ * Get a simulated consignment's tracking, as served at its tracking URL
+ */
+export async function getSimulatedTracking(trackingCode: string): Promise<CourierTracking> {
+  return getCourier('simulator').getTracking(trackingCode);
+}
+
+// Helper to load one of the vendor's shipments that is booked with a courier
+async function getBookedShipment(vendorId: string, shipmentId: string) {
+  const shipment = await prisma.shipment.findFirst({
+    where: { id: shipmentId, shop: { vendorId } },
+  });
+
+  if (!shipment) {
+    throw new Error('Shipment not found');
+  }
+
+  if (!shipment.courier || !shipment.trackingCode) {
+    throw new Error('Shipment is not booked with a courier');
+  }
+
+  return { shipment, courier: getCourier(shipment.courier) };
+}
+
+// Helper to move a shipment to match its courier status: shipped once the
+// parcel is picked up, delivered once the courier delivers it. Other
+// statuses (failed attempts, returns to the shop) are only recorded.
+async function advanceShipment(
+  shipment: { id: string; status: ShipmentStatus },
+  status: CourierTrackingStatus,
+  note: string
+): Promise<ShipmentStatus> {
+  let current = shipment.status;
+
+  if ((IN_TRANSIT_STATUSES.has(status) || status === 'DELIVERED') && current === 'CONFIRMED') {
+    await applyShipmentStatus(shipment.id, 'SHIPPED', COURIER_ACTOR, {}, note);
+    current = 'SHIPPED';
+  }
+
+  if (status === 'DELIVERED' && current === 'SHIPPED') {
+    await applyShipmentStatus(shipment.id, 'DELIVERED', COURIER_ACTOR, {}, note);
+    current = 'DELIVERED';
+  }
+
+  return current;
+}
+
+// Helper to work out what the rider collects for a shipment: its share of
+// the order total (after any order-level discount) if cash is still due
+function calculateCodAmount(
+  order: {
+    paymentMethod: string | null;
+    paymentStatus: string | null;
+    totalAmount: number;
+    items: { totalPrice: number }[];
+    shipments: { shippingFee: number }[];
+  },
+  shippingFee: number,
+  items: { totalPrice: number }[]
+): number {
+  if (order.paymentMethod !== 'COD' || order.paymentStatus === 'PAID') {
+    return 0;
+  }
+
+  const orderGross =
+    order.items.reduce((sum, item) => sum + item.totalPrice, 0) +
+    order.shipments.reduce((sum, shipment) => sum + shipment.shippingFee, 0);
+  const shipmentGross = items.reduce((sum, item) => sum + item.totalPrice, 0) + shippingFee;
+
+  return orderGross > 0 ? roundAmount((order.totalAmount * shipmentGross) / orderGross) : 0;
+}
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma.ts';
+import { sendGuestOrderEmail, sendOrderClaimEmail } from '../../lib/email.ts';
+import { sendGuestOrderMessage, sendPhoneVerificationOTP } from '../../lib/sms.ts';
+import type { ContactChannel } from '../../prisma/generated/enums.ts';
+import type { MessageResponse } from '../types/auth.types.ts';
+import type { OrderDetailResponse } from '../types/order.types.ts';
+import type {
+  ClaimGuestOrdersRequest,
+  ClaimGuestOrdersResponse,
+  GuestCheckoutRequest,
+  GuestCheckoutResponse,
+  GuestSessionResponse,
+  SendOrderClaimOTPRequest,
+} from '../types/guestCheckout.types.ts';
+import { generateGuestToken } from '../utils/jwt.util.ts';
+import { DEFAULT_COUNTRY, normalizePakistaniPhone } from '../utils/address.util.ts';
+import {
+  generateOTP,
+  getOTPExpiration,
+  isExpired,
+  MAX_OTP_ATTEMPTS,
+} from '../utils/otp.util.ts';
+import { normalizeAddressFields } from './address.service.ts';
+import { getOrderByTrackingTokenHash, placeOrderFromCart } from './order.service.ts';
+
+const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+
+// Helper to hash a tracking token; only the hash is stored on the order
+function hashTrackingToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Helper to bring an email or phone number into the form guest orders store
+function normalizeContact(channel: ContactChannel, destination: string): string {
+  return channel === 'EMAIL'
+    ? destination.trim().toLowerCase()
+    : normalizePakistaniPhone(destination);
+}
+
+/**
+ * Start a guest session: a signed token identifying an anonymous cart
+ */
+export function createGuestSession(): GuestSessionResponse {
+  return { guestToken: generateGuestToken(crypto.randomUUID()) };
+}
+
+/**
+ * Place a guest's cart as an order (cash on delivery only). The tracking
+ * link is sent to the guest and returned; it is the only way to view the
+ * order until it is claimed into an account.
+ */
+export async function guestCheckout(
+  guestId: string,
+  data: GuestCheckoutRequest
+): Promise<GuestCheckoutResponse> {
+  const address = normalizeAddressFields(data.address);
+  const email = data.email ? normalizeContact('EMAIL', data.email) : null;
+  const phone = data.phoneNumber ? normalizeContact('PHONE', data.phoneNumber) : address.phoneNumber;
+
+  const trackingToken = crypto.randomBytes(32).toString('hex');
+  const trackingUrl = `${frontendUrl}/orders/track/${trackingToken}`;
+
+  const order = await placeOrderFromCart(
+    { guestId },
+    {
+      destination: { city: address.city, state: address.state ?? null },
+      paymentMethod: 'COD',
+      notes: data.notes ?? null,
+      guest: {
+        email,
+        phone,
+        trackingTokenHash: hashTrackingToken(trackingToken),
+        address: {
+          fullName: address.fullName,
+          phoneNumber: address.phoneNumber,
+          line1: address.line1,
+          line2: address.line2 ?? null,
+          city: address.city,
+          state: address.state ?? null,
+          postalCode: address.postalCode ?? null,
+          country: DEFAULT_COUNTRY,
+          notes: address.notes ?? null,
+        },
+      },
+    }
+  );
+
+  // Send the tracking link (fire and forget)
+  if (email) {
+    sendGuestOrderEmail(email, order.orderNumber, trackingUrl, address.fullName).catch(console.error);
+  } else {
+    sendGuestOrderMessage(phone, order.orderNumber, trackingUrl).catch(console.error);
+  }
+
+  return { order, trackingToken, trackingUrl };
+}
+
+/**
+ * View a guest order through its tracking link. Claimed orders are only
+ * visible from their account.
+ */
+export async function getGuestOrderByTrackingToken(token: string): Promise<OrderDetailResponse> {
+  const order = await getOrderByTrackingTokenHash(hashTrackingToken(token));
+
+  if (!order || order.userId) {
+    throw new Error('Order not found');
+  }
+
+  return order;
+}
+
+/**
+ * Send a code proving the user owns the email or phone number their guest
+ * orders were placed with. The response does not reveal whether any exist.
+ */
+export async function sendOrderClaimOTP(
+  userId: string,
+  data: SendOrderClaimOTPRequest
+): Promise<MessageResponse> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const destination = normalizeContact(data.channel, data.destination);
+  const response = {
+    success: true,
+    message: 'If there are guest orders for this contact, a verification code has been sent',
+  };
+
+  const unclaimedCount = await prisma.order.count({
+    where: {
+      userId: null,
+      ...(data.channel === 'EMAIL' ? { guestEmail: destination } : { guestPhone: destination }),
+    },
+  });
+
+  if (unclaimedCount === 0) {
+    return response;
+  }
+
+  // Invalidate any existing claim OTPs for this user
+  await prisma.orderClaimOTP.updateMany({
+    where: {
+      userId,
+      verified: false,
+    },
+    data: {
+      verified: true, // Mark as used/invalid
+    },
+  });
+
+  const otpCode = generateOTP(6);
+  const expiresAt = getOTPExpiration(5); // 5 minutes
+
+  await prisma.orderClaimOTP.create({
+    data: {
+      userId,
+      channel: data.channel,
+      destination,
+      otpCode,
+      expiresAt,
+    },
+  });
+
+  if (data.channel === 'EMAIL') {
+    const sent = await sendOrderClaimEmail(destination, otpCode, user.name ?? undefined);
+    if (!sent) {
+      throw new Error('Failed to send verification email. Please try again.');
+    }
+  } else {
+    const result = await sendPhoneVerificationOTP(destination, otpCode);
+    if (!result.success) {
+      throw new Error(result.error ?? 'Failed to send verification code. Please try again.');
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Verify the claim code and move every unclaimed guest order placed with
+ * that email or phone number into the user's account
+ */
+export async function claimGuestOrders(
+  userId: string,
+  data: ClaimGuestOrdersRequest
+): Promise<ClaimGuestOrdersResponse> {
+  const destination = normalizeContact(data.channel, data.destination);
+
+  // Find the most recent unverified OTP for this contact
+  const claimOTP = await prisma.orderClaimOTP.findFirst({
+    where: {
+      userId,
+      channel: data.channel,
+      destination,
+      verified: false,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  if (!claimOTP) {
+    throw new Error('No pending verification found. Please request a new code.');
+  }
+
+  if (isExpired(claimOTP.expiresAt)) {
+    throw new Error('Verification code has expired. Please request a new one.');
+  }
+
+  if (claimOTP.attempts >= MAX_OTP_ATTEMPTS) {
+    throw new Error('Too many failed attempts. Please request a new code.');
+  }
+
+  if (claimOTP.otpCode !== data.otpCode) {
+    await prisma.orderClaimOTP.update({
+      where: { id: claimOTP.id },
+      data: { attempts: claimOTP.attempts + 1 },
+    });
+
+    const remainingAttempts = MAX_OTP_ATTEMPTS - claimOTP.attempts - 1;
+    throw new Error(`Invalid verification code. ${remainingAttempts} attempts remaining.`);
+  }
+
+  const claimedOrderIds = await prisma.$transaction(async (tx) => {
+    await tx.orderClaimOTP.update({
+      where: { id: claimOTP.id },
+      data: { verified: true },
+    });
+
+    const orders = await tx.order.findMany({
+      where: {
+        userId: null,
+        ...(data.channel === 'EMAIL' ? { guestEmail: destination } : { guestPhone: destination }),
+      },
+      select: { id: true, shippingAddressId: true },
+    });
+
+    if (orders.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const orderIds = orders.map((order) => order.id);
+
+    await tx.order.updateMany({
+      where: { id: { in: orderIds }, userId: null },
+      data: { userId, claimedAt: now },
+    });
+
+    // The addresses move along, archived so they stay out of the address book
+    await tx.orderAddress.updateMany({
+      where: { id: { in: orders.map((order) => order.shippingAddressId) }, userId: null },
+      data: { userId, archivedAt: now },
+    });
+
+    return orderIds;
+  });
+
+  return { claimedOrderIds, claimedCount: claimedOrderIds.length };
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma.ts';
+import { Prisma } from '../../prisma/generated/client.ts';
+
+// How long a key is remembered after its first use
+const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? '24', 10);
+
+// How often expired keys are purged
+const PURGE_INTERVAL_MINUTES = 60;
+
+export type IdempotencyOwner = { userId: string; guestId?: never } | { guestId: string; userId?: never };
+
+export type IdempotencyClaim =
+  | { state: 'NEW'; id: string }
+  | { state: 'REPLAY'; responseStatus: number; responseBody: unknown }
+  | { state: 'IN_PROGRESS' }
+  | { state: 'MISMATCH' };
+
+/**
+ * Fingerprint a request, so a reused key can be told apart from a retry
+ */
+export function hashRequest(method: string, path: string, body: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${method} ${path}\n${JSON.stringify(body ?? {})}`)
+    .digest('hex');
+}
+
+/**
+ * Claim a key for a request. A key seen before either replays its stored
+ * response, is still in progress, or was used for a different request.
+ * Expired keys are treated as unused. Keys are scoped to their owner.
+ */
+export async function claimIdempotencyKey(
+  owner: IdempotencyOwner,
+  key: string,
+  method: string,
+  path: string,
+  requestHash: string
+): Promise<IdempotencyClaim> {
+  const now = new Date();
+  let existing = await prisma.idempotencyKey.findUnique({
+    where: owner.userId
+      ? { userId_key: { userId: owner.userId, key } }
+      : { guestId_key: { guestId: owner.guestId!, key } },
+  });
+
+  if (existing && existing.expiresAt <= now) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: { lte: now } } });
+    existing = null;
+  }
+
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      return { state: 'MISMATCH' };
+    }
+
+    if (existing.responseStatus === null) {
+      return { state: 'IN_PROGRESS' };
+    }
+
+    return {
+      state: 'REPLAY',
+      responseStatus: existing.responseStatus,
+      responseBody: existing.responseBody,
+    };
+  }
+
+  try {
+    const created = await prisma.idempotencyKey.create({
+      data: {
+        userId: owner.userId ?? null,
+        guestId: owner.guestId ?? null,
+        key,
+        method,
+        path,
+        requestHash,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+
+    return { state: 'NEW', id: created.id };
+  } catch (error) {
+    // Another request with the same key got there first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { state: 'IN_PROGRESS' };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Store the response of a claimed key for replay
+ */
+export async function completeIdempotencyKey(
+  id: string,
+  responseStatus: number,
+  responseBody: unknown
+): Promise<void> {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      responseStatus,
+      responseBody: (responseBody ?? null) as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Forget a claimed key whose request failed, so it can be retried
+ */
+export async function releaseIdempotencyKey(id: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+}
+
+/**
+ * Delete keys past their expiry
+ */
+export async function purgeExpiredIdempotencyKeys(): Promise<number> {
+  const result = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+
+  return result.count;
+}
+
+/**
+ * Purge expired keys on a timer for as long as the server runs
+ */
+export function scheduleIdempotencyKeyPurge(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    purgeExpiredIdempotencyKeys().catch((error) => {
+      console.error('Failed to purge expired idempotency keys:', error);
+    });
+  }, PURGE_INTERVAL_MINUTES * 60 * 1000);
+
+  timer.unref();
+  return timer;
+}
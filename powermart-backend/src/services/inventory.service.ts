@@ -0,0 +1,132 @@
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type { StockFailure, StockLine } from '../types/order.types.ts';
+
+/**
+ * Thrown when one or more lines cannot be reserved. The transaction that
+ * attempted the reservation must be rolled back (throwing does that).
+ */
+export class InsufficientStockError extends Error {
+  failures: StockFailure[];
+
+  constructor(failures: StockFailure[]) {
+    super(
+      `Insufficient stock for: ${failures
+        .map((f) => `${f.name} (requested ${f.requested}, available ${f.available})`)
+        .join(', ')}`
+    );
+    this.name = 'InsufficientStockError';
+    this.failures = failures;
+  }
+}
+
+// Lock rows in a stable order so concurrent checkouts cannot deadlock
+function sortLines(lines: StockLine[]): StockLine[] {
+  return [...lines].sort(
+    (a, b) =>
+      a.productId.localeCompare(b.productId) ||
+      (a.variantId ?? '').localeCompare(b.variantId ?? '')
+  );
+}
+
+/**
+ * Reserve stock for order lines inside a transaction.
+ *
+ * Each line is a conditional decrement (`stock >= quantity`), applied to the
+ * variant (if any) and to the product, so concurrent buyers cannot oversell.
+ * Every line is attempted and all failures are reported together.
+ */
+export async function reserveStock(
+  tx: Prisma.TransactionClient,
+  lines: StockLine[]
+): Promise<void> {
+  const failures: StockFailure[] = [];
+
+  for (const line of sortLines(lines)) {
+    if (line.variantId) {
+      const variantResult = await tx.productVariant.updateMany({
+        where: { id: line.variantId, productId: line.productId, stock: { gte: line.quantity } },
+        data: { stock: { decrement: line.quantity } },
+      });
+
+      if (variantResult.count === 0) {
+        failures.push(await describeFailure(tx, line));
+        continue;
+      }
+    }
+
+    const productResult = await tx.product.updateMany({
+      where: { id: line.productId, stock: { gte: line.quantity } },
+      data: { stock: { decrement: line.quantity } },
+    });
+
+    if (productResult.count === 0) {
+      // Give the variant units back so later lines see the real stock
+      if (line.variantId) {
+        await tx.productVariant.update({
+          where: { id: line.variantId },
+          data: { stock: { increment: line.quantity } },
+        });
+      }
+      failures.push(await describeFailure(tx, line));
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new InsufficientStockError(failures);
+  }
+}
+
+/**
+ * Return stock for order lines (e.g. on cancellation)
+ */
+export async function releaseStock(
+  tx: Prisma.TransactionClient,
+  lines: StockLine[]
+): Promise<void> {
+  for (const line of sortLines(lines)) {
+    if (line.variantId) {
+      await tx.productVariant.updateMany({
+        where: { id: line.variantId },
+        data: { stock: { increment: line.quantity } },
+      });
+    }
+
+    await tx.product.updateMany({
+      where: { id: line.productId },
+      data: { stock: { increment: line.quantity } },
+    });
+  }
+}
+
+// Helper to describe a line that could not be reserved
+async function describeFailure(
+  tx: Prisma.TransactionClient,
+  line: StockLine
+): Promise<StockFailure> {
+  const [product, variant] = await Promise.all([
+    tx.product.findUnique({
+      where: { id: line.productId },
+      select: { name: true, stock: true },
+    }),
+    line.variantId
+      ? tx.productVariant.findUnique({
+          where: { id: line.variantId },
+          select: { name: true, value: true, stock: true },
+        })
+      : Promise.resolve(null),
+  ]);
+
+  const productStock = product?.stock ?? 0;
+  const available = variant ? Math.min(variant.stock, productStock) : productStock;
+  const name = variant
+    ? `${product?.name ?? line.productId} (${variant.name}: ${variant.value})`
+    : product?.name ?? line.productId;
+
+  return {
+    productId: line.productId,
+    variantId: line.variantId ?? null,
+    name,
+    requested: line.quantity,
+    available: Math.max(available, 0),
+  };
+}
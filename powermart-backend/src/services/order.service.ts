@@ -8,8 +8,47 @@ import type {
   UpdateOrderStatusRequest,
   UpdatePaymentStatusRequest,
   UpdateOrderItemStatusRequest,
+  OrderActor,
+  OrderEventInput,
+  OrderTimelineResponse,
 } from '../types/order.types.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type {
+  OrderActorRole,
+  OrderItemStatus,
+  OrderStatus,
+  UserRole,
+} from '../../prisma/generated/enums.ts';
+import type { ResolvedCommission } from '../types/commission.types.ts';
+import type { ShippingDestination, ShippingLine } from '../types/shipping.types.ts';
+import type { CartOwner } from '../types/cart.types.ts';
 import * as cartService from './cart.service.ts';
+import {
+  FALLBACK_COMMISSION_RATE,
+  calculateCommission,
+  resolveCommissions,
+} from './commission.service.ts';
+import { evaluateCoupon, redeemCoupon, releaseCouponRedemption } from './coupon.service.ts';
+import { InsufficientStockError, releaseStock, reserveStock } from './inventory.service.ts';
+import { creditDeliveredItems } from './settlement.service.ts';
+import {
+  createOrderShipments,
+  mapShipmentToResponse,
+  shipmentInclude,
+  syncShipmentStatuses,
+} from './shipment.service.ts';
+import { assertDeliverable, quoteShipping } from './shipping.service.ts';
+import {
+  assertOrderItemTransition,
+  assertOrderTransition,
+  canTransitionOrderItem,
+  deriveOrderStatus,
+} from '../utils/orderStatus.util.ts';
+import {
+  formatOrderNumber,
+  getOrderNumberDay,
+  normalizeOrderNumber,
+} from '../utils/orderNumber.util.ts';
 
 // ===== Cart Checkout Types =====
 export interface CheckoutFromCartRequest {
@@ -18,15 +57,61 @@ export interface CheckoutFromCartRequest {
   notes?: string;
 }
 
+// Everything checkout needs besides the cart: an existing address of the
+// user, or a guest's contact details and the address to create
+export interface CartOrderOptions {
+  destination: ShippingDestination;
+  shippingAddressId?: string;
+  paymentMethod: 'COD' | 'CARD' | null;
+  notes: string | null;
+  guest?: {
+    email: string | null;
+    phone: string;
+    trackingTokenHash: string;
+    address: Omit<Prisma.OrderAddressUncheckedCreateInput, 'userId'>;
+  };
+}
+
+// Everything needed to build an order detail response
+const orderDetailInclude = {
+  items: {
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      variant: { select: { id: true, name: true, value: true } },
+    },
+  },
+  shipments: { include: shipmentInclude },
+  shippingAddress: true,
+};
+
 /**
- * Generate a unique order number
- * Format: ORD-YYYYMMDD-XXXXXX (where XXXXXX is random)
+ * Generate the next order number from today's counter
+ * Format: PM-YYMMDD-NNNN-C (see orderNumber.util.ts)
  */
-function generateOrderNumber(): string {
-  const date = new Date();
-  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
-  const random = Math.random().toString(36).substring(2, 8).toUpperCase();
-  return `ORD-${dateStr}-${random}`;
+async function generateOrderNumber(tx: Prisma.TransactionClient): Promise<string> {
+  const day = getOrderNumberDay();
+
+  // Row-locked until the order's transaction ends, so concurrent orders
+  // get consecutive numbers
+  const [counter] = await tx.$queryRaw<{ value: number }[]>`
+    INSERT INTO "order_number_counters" ("day", "value", "updatedAt")
+    VALUES (${day}, 1, NOW())
+    ON CONFLICT ("day") DO UPDATE
+      SET "value" = "order_number_counters"."value" + 1, "updatedAt" = NOW()
+    RETURNING "value"
+  `;
+
+  return formatOrderNumber(day, counter!.value);
+}
+
+// Commission fields for an order item; delivery charges are not commissioned
+function buildCommissionSnapshot(commission: ResolvedCommission | undefined, itemAmount: number) {
+  const rate = commission?.rate ?? FALLBACK_COMMISSION_RATE;
+  return {
+    commissionRate: rate,
+    commissionAmount: calculateCommission(itemAmount, rate),
+    ...(commission?.ruleId && { commissionRule: { connect: { id: commission.ruleId } } }),
+  };
 }
 
 /**
@@ -41,6 +126,7 @@ export async function createOrder(
     where: {
       id: data.shippingAddressId,
       userId,
+      archivedAt: null,
     },
   });
 
@@ -60,23 +146,15 @@ export async function createOrder(
         throw new Error(`Product with ID ${item.productId} not found`);
       }
 
-      if (product.stock < item.quantity) {
-        throw new Error(`Insufficient stock for product ${product.name}`);
-      }
-
       let variant = null;
       if (item.variantId) {
-        variant = await prisma.productVariant.findUnique({
-          where: { id: item.variantId },
+        variant = await prisma.productVariant.findFirst({
+          where: { id: item.variantId, productId: item.productId },
         });
 
         if (!variant) {
           throw new Error(`Variant with ID ${item.variantId} not found`);
         }
-
-        if (variant.stock < item.quantity) {
-          throw new Error(`Insufficient stock for variant ${variant.name}`);
-        }
       }
 
       return {
@@ -87,33 +165,46 @@ export async function createOrder(
     })
   );
 
-  // Calculate totals with per-item delivery charge
+  // Calculate totals; shipping is charged per shop below
   let subtotalAmount = 0;
   let discountAmount = 0;
-  let deliveryTotal = 0;
+  const shippingLines: ShippingLine[] = [];
+
+  // Snapshot the commission that applies to each line right now
+  const commissions = await resolveCommissions(
+    itemsWithDetails.map((item) => ({
+      shopId: item.product.shopId,
+      vendorId: item.product.shop.vendorId,
+      categoryId: item.product.categoryId,
+    }))
+  );
 
-  const orderItemsData = itemsWithDetails.map((item) => {
+  const orderItemsData = itemsWithDetails.map((item, index) => {
     const basePrice = item.product.price;
     const variantPriceDiff = item.variant?.priceDiff ?? 0;
     const unitPrice = basePrice + variantPriceDiff;
     const itemSubtotal = unitPrice * item.quantity;
     const discount = item.product.discount ? (item.product.discount / 100) * itemSubtotal : 0;
-    const deliveryCharge = item.product.deliveryCharge ?? 0;
-    const deliveryLine = deliveryCharge * item.quantity;
-    const totalPrice = itemSubtotal - discount + deliveryLine;
+    const totalPrice = itemSubtotal - discount;
 
     subtotalAmount += itemSubtotal;
     discountAmount += discount;
-    deliveryTotal += deliveryLine;
+    shippingLines.push({
+      shopId: item.product.shopId,
+      quantity: item.quantity,
+      lineSubtotal: totalPrice,
+      weightKg: item.product.weightKg,
+      deliveryCharge: item.product.deliveryCharge ?? 0,
+    });
 
     const itemData: any = {
       product: { connect: { id: item.product.id } },
       shop: { connect: { id: item.product.shopId } },
       quantity: item.quantity,
       unitPrice,
-      deliveryCharge,
       totalPrice,
       status: 'PENDING',
+      ...buildCommissionSnapshot(commissions[index], itemSubtotal - discount),
     };
 
     if (item.variant) {
@@ -123,63 +214,50 @@ export async function createOrder(
     return itemData;
   });
 
-  const shippingFee = 0; // kept at order-level for compatibility
-  const totalAmount = subtotalAmount - discountAmount + deliveryTotal + shippingFee;
+  const shippingQuote = await quoteShipping(shippingLines, shippingAddress);
+  assertDeliverable(shippingQuote);
 
-  // Create order
-  const order = await prisma.order.create({
-    data: {
-      userId,
-      orderNumber: generateOrderNumber(),
-      status: 'PENDING',
-      paymentStatus: data.paymentMethod ? 'PENDING' : null,
-      paymentMethod: data.paymentMethod ?? null,
-      subtotalAmount,
-      discountAmount,
-      shippingFee,
-      totalAmount,
-      notes: data.notes ?? null,
-      shippingAddressId: data.shippingAddressId,
-      items: {
-        create: orderItemsData,
-      },
-    },
-    include: {
-      items: {
-        include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              sku: true,
-            },
-          },
-          variant: {
-            select: {
-              id: true,
-              name: true,
-              value: true,
-            },
-          },
+  const shippingFee = shippingQuote.total;
+  const totalAmount = subtotalAmount - discountAmount + shippingFee;
+
+  // Reserve stock and create the order atomically
+  const order = await prisma.$transaction(async (tx) => {
+    await reserveStock(
+      tx,
+      itemsWithDetails.map((item) => ({
+        productId: item.product.id,
+        variantId: item.variant?.id ?? null,
+        quantity: item.quantity,
+      }))
+    );
+
+    const created = await tx.order.create({
+      data: {
+        userId,
+        orderNumber: await generateOrderNumber(tx),
+        status: 'PENDING',
+        paymentStatus: data.paymentMethod ? 'PENDING' : null,
+        paymentMethod: data.paymentMethod ?? null,
+        subtotalAmount,
+        discountAmount,
+        shippingFee,
+        totalAmount,
+        notes: data.notes ?? null,
+        shippingAddressId: data.shippingAddressId,
+        items: {
+          create: orderItemsData,
         },
       },
-      shippingAddress: true,
-    },
-  });
+    });
 
-  // Update product stocks
-  await Promise.all(
-    itemsWithDetails.map((item) =>
-      prisma.product.update({
-        where: { id: item.product.id },
-        data: {
-          stock: {
-            decrement: item.quantity,
-          },
-        },
-      })
-    )
-  );
+    await createOrderShipments(tx, created.id, shippingQuote.shops);
+
+    await recordOrderEvents(tx, { userId, role: 'CUSTOMER' }, [
+      { orderId: created.id, type: 'ORDER_STATUS', toValue: 'PENDING', note: 'Order placed' },
+    ]);
+
+    return tx.order.findUniqueOrThrow({ where: { id: created.id }, include: orderDetailInclude });
+  });
 
   return mapOrderToDetailResponse(order);
 }
@@ -190,27 +268,7 @@ export async function createOrder(
 export async function getOrderById(orderId: string, userId?: string): Promise<OrderDetailResponse | null> {
   const order = await prisma.order.findUnique({
     where: { id: orderId },
-    include: {
-      items: {
-        include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              sku: true,
-            },
-          },
-          variant: {
-            select: {
-              id: true,
-              name: true,
-              value: true,
-            },
-          },
-        },
-      },
-      shippingAddress: true,
-    },
+    include: orderDetailInclude,
   });
 
   if (!order) {
@@ -225,6 +283,40 @@ export async function getOrderById(orderId: string, userId?: string): Promise<Or
   return mapOrderToDetailResponse(order);
 }
 
+/**
+ * Look an order up by its number. Pass userId to only find the user's own
+ * orders; numbers are sequential, so others' orders are reported as missing.
+ */
+export async function getOrderByNumber(
+  orderNumber: string,
+  userId?: string
+): Promise<OrderDetailResponse | null> {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber: normalizeOrderNumber(orderNumber) },
+    include: orderDetailInclude,
+  });
+
+  if (!order || (userId && order.userId !== userId)) {
+    return null;
+  }
+
+  return mapOrderToDetailResponse(order);
+}
+
+/**
+ * Look a guest order up by the hash of its tracking token
+ */
+export async function getOrderByTrackingTokenHash(
+  trackingTokenHash: string
+): Promise<OrderDetailResponse | null> {
+  const order = await prisma.order.findUnique({
+    where: { trackingTokenHash },
+    include: orderDetailInclude,
+  });
+
+  return order ? mapOrderToDetailResponse(order) : null;
+}
+
 /**
  * Get orders by user ID with pagination and filters
  */
@@ -289,52 +381,77 @@ export async function getOrdersByUserId(
 }
 
 /**
- * Update order status
+ * Update order status (buyer or admin). The change is applied to every item
+ * that can make the transition and the order status is re-derived from them.
  */
 export async function updateOrderStatus(
   orderId: string,
   data: UpdateOrderStatusRequest,
-  userId: string
+  userId: string,
+  role: UserRole
 ): Promise<OrderDetailResponse> {
-  // Verify ownership
   const order = await prisma.order.findUnique({
     where: { id: orderId },
+    include: { items: true },
   });
 
   if (!order) {
     throw new Error('Order not found');
   }
 
-  if (order.userId !== userId) {
-    throw new Error('Unauthorized: You do not own this order');
+  const actor: OrderActor = { userId, role: resolveOrderActor(order, userId, role) };
+
+  if (data.status === 'CANCELLED') {
+    return cancelOrderAs(order, actor, data.note);
   }
 
-  const updatedOrder = await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      status: data.status,
-    },
-    include: {
-      items: {
-        include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              sku: true,
-            },
-          },
-          variant: {
-            select: {
-              id: true,
-              name: true,
-              value: true,
-            },
-          },
+  // Restocking and the refund's ledger debit happen in the return flow
+  if (data.status === 'RETURNED') {
+    throw new Error('Returns are recorded through a return request');
+  }
+
+  assertOrderTransition(order.status, data.status, actor.role);
+
+  const itemStatus = data.status as OrderItemStatus;
+  const items = order.items.filter((item) =>
+    canTransitionOrderItem(item.status, itemStatus, actor.role)
+  );
+
+  const updatedOrder = await prisma.$transaction(async (tx) => {
+    // Only move items still in the status they were read in
+    const moved: typeof items = [];
+    for (const item of items) {
+      const result = await tx.orderItem.updateMany({
+        where: { id: item.id, status: item.status },
+        data: {
+          status: itemStatus,
+          ...(itemStatus === 'DELIVERED' ? { deliveredAt: new Date() } : {}),
         },
-      },
-      shippingAddress: true,
-    },
+      });
+
+      if (result.count > 0) {
+        moved.push(item);
+      }
+    }
+
+    await recordOrderEvents(
+      tx,
+      actor,
+      moved.map((item) => ({
+        orderId,
+        orderItemId: item.id,
+        type: 'ITEM_STATUS',
+        fromValue: item.status,
+        toValue: itemStatus,
+        note: data.note ?? null,
+      }))
+    );
+
+    if (itemStatus === 'DELIVERED') {
+      await creditDeliveredItems(tx, moved.map((item) => item.id));
+    }
+
+    return syncOrderStatus(tx, orderId, actor, data.note);
   });
 
   return mapOrderToDetailResponse(updatedOrder);
@@ -346,7 +463,8 @@ export async function updateOrderStatus(
 export async function updatePaymentStatus(
   orderId: string,
   data: UpdatePaymentStatusRequest,
-  userId: string
+  userId: string,
+  role: UserRole
 ): Promise<OrderDetailResponse> {
   // Verify ownership
   const order = await prisma.order.findUnique({
@@ -357,8 +475,12 @@ export async function updatePaymentStatus(
     throw new Error('Order not found');
   }
 
-  if (order.userId !== userId) {
-    throw new Error('Unauthorized: You do not own this order');
+  const actor: OrderActor = { userId, role: resolveOrderActor(order, userId, role) };
+
+  // Buyers cannot mark their own orders paid; online payments are confirmed
+  // by the payment provider callback
+  if (actor.role !== 'ADMIN' && data.paymentStatus !== order.paymentStatus) {
+    throw new Error('Unauthorized: Only an admin can change the payment status');
   }
 
   const updateData: any = {
@@ -369,37 +491,34 @@ export async function updatePaymentStatus(
     updateData.paymentMethod = data.paymentMethod;
   }
 
-  const updatedOrder = await prisma.order.update({
-    where: { id: orderId },
-    data: updateData,
-    include: {
-      items: {
-        include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              sku: true,
-            },
-          },
-          variant: {
-            select: {
-              id: true,
-              name: true,
-              value: true,
-            },
-          },
+  const updatedOrder = await prisma.$transaction(async (tx) => {
+    const updated = await tx.order.update({
+      where: { id: orderId },
+      data: updateData,
+      include: orderDetailInclude,
+    });
+
+    if (order.paymentStatus !== data.paymentStatus) {
+      await recordOrderEvents(tx, actor, [
+        {
+          orderId,
+          type: 'PAYMENT_STATUS',
+          fromValue: order.paymentStatus,
+          toValue: data.paymentStatus,
+          note: data.note ?? null,
         },
-      },
-      shippingAddress: true,
-    },
+      ]);
+    }
+
+    return updated;
   });
 
   return mapOrderToDetailResponse(updatedOrder);
 }
 
 /**
- * Update a single order item status/tracking (vendor-only, must own the product's shop)
+ * Confirm or cancel a single order item (vendor-only, must own the product's shop).
+ * Shipping and delivery happen per shipment.
  */
 export async function updateOrderItemStatus(
   orderId: string,
@@ -432,49 +551,63 @@ export async function updateOrderItemStatus(
     throw new Error('Unauthorized: You do not own this product');
   }
 
-  const updateData: any = {};
-  if (data.status !== undefined) updateData.status = data.status;
-  if (data.trackingCode !== undefined) updateData.trackingCode = data.trackingCode;
-  if (data.carrier !== undefined) updateData.carrier = data.carrier;
-  if (data.trackingUrl !== undefined) updateData.trackingUrl = data.trackingUrl;
-  if (data.estimatedDelivery !== undefined) {
-    updateData.estimatedDelivery = new Date(data.estimatedDelivery);
+  if (data.status === 'SHIPPED' || data.status === 'DELIVERED') {
+    throw new Error('Items are shipped and delivered through their shipment');
   }
-  if (data.status === 'DELIVERED') {
-    updateData.deliveredAt = new Date();
+
+  if (data.status === 'RETURNED') {
+    throw new Error('Returns are recorded through a return request');
   }
 
-  await prisma.orderItem.update({
-    where: { id: orderItemId },
-    data: updateData,
-  });
+  if (data.status === orderItem.status) {
+    throw new Error(`Order item is already ${orderItem.status}`);
+  }
 
-  // Return updated order with items
-  const updatedOrder = await prisma.order.findUnique({
-    where: { id: orderId },
-    include: {
-      items: {
-        include: {
-          product: { select: { id: true, name: true, sku: true } },
-          variant: { select: { id: true, name: true, value: true } },
-        },
+  assertOrderItemTransition(orderItem.status, data.status, 'VENDOR');
+
+  const actor: OrderActor = { userId: vendorUserId, role: 'VENDOR' };
+
+  const updatedOrder = await prisma.$transaction(async (tx) => {
+    // A concurrent cancel or shipment may have moved the item since it was read
+    const result = await tx.orderItem.updateMany({
+      where: { id: orderItemId, status: orderItem.status },
+      data: { status: data.status },
+    });
+
+    if (result.count === 0) {
+      throw new Error(`Order item is no longer ${orderItem.status}, please reload and try again`);
+    }
+
+    if (data.status === 'CANCELLED') {
+      await releaseStock(tx, [orderItem]);
+    }
+
+    await recordOrderEvents(tx, actor, [
+      {
+        orderId,
+        orderItemId,
+        type: 'ITEM_STATUS',
+        fromValue: orderItem.status,
+        toValue: data.status,
+        note: data.note ?? null,
       },
-      shippingAddress: true,
-    },
-  });
+    ]);
 
-  if (!updatedOrder) {
-    throw new Error('Order not found after update');
-  }
+    return syncOrderStatus(tx, orderId, actor, data.note);
+  });
 
   return mapOrderToDetailResponse(updatedOrder);
 }
 
 /**
- * Cancel order
+ * Cancel order (buyer or admin)
  */
-export async function cancelOrder(orderId: string, userId: string): Promise<OrderDetailResponse> {
-  // Verify ownership
+export async function cancelOrder(
+  orderId: string,
+  userId: string,
+  role: UserRole,
+  note?: string
+): Promise<OrderDetailResponse> {
   const order = await prisma.order.findUnique({
     where: { id: orderId },
     include: {
@@ -486,82 +619,248 @@ export async function cancelOrder(orderId: string, userId: string): Promise<Orde
     throw new Error('Order not found');
   }
 
-  if (order.userId !== userId) {
-    throw new Error('Unauthorized: You do not own this order');
-  }
+  return cancelOrderAs(order, { userId, role: resolveOrderActor(order, userId, role) }, note);
+}
 
+/**
+ * Cancel every cancellable item, restoring its stock, and re-derive the order status
+ */
+async function cancelOrderAs(
+  order: {
+    id: string;
+    status: OrderStatus;
+    items: {
+      id: string;
+      productId: string;
+      variantId: string | null;
+      quantity: number;
+      status: OrderItemStatus;
+    }[];
+  },
+  actor: OrderActor,
+  note?: string
+): Promise<OrderDetailResponse> {
   if (order.status === 'CANCELLED') {
     throw new Error('Order is already cancelled');
   }
 
-  if (['SHIPPED', 'DELIVERED'].includes(order.status)) {
-    throw new Error('Cannot cancel an order that has been shipped or delivered');
-  }
+  assertOrderTransition(order.status, 'CANCELLED', actor.role);
 
-  // Restore product stocks
-  await Promise.all(
-    order.items.map((item) =>
-      prisma.product.update({
-        where: { id: item.productId },
-        data: {
-          stock: {
-            increment: item.quantity,
-          },
-        },
-      })
-    )
+  const items = order.items.filter((item) =>
+    canTransitionOrderItem(item.status, 'CANCELLED', actor.role)
   );
 
-  const cancelledOrder = await prisma.order.update({
+  // Restore product and variant stock together with the status change
+  const cancelledOrder = await prisma.$transaction(async (tx) => {
+    // Only cancel items still in the status they were read in, so a
+    // concurrent cancel or shipment wins and stock is released once
+    const cancelled: typeof items = [];
+    for (const item of items) {
+      const result = await tx.orderItem.updateMany({
+        where: { id: item.id, status: item.status },
+        data: { status: 'CANCELLED' },
+      });
+
+      if (result.count > 0) {
+        cancelled.push(item);
+      }
+    }
+
+    await releaseStock(tx, cancelled);
+
+    await recordOrderEvents(
+      tx,
+      actor,
+      cancelled.map((item) => ({
+        orderId: order.id,
+        orderItemId: item.id,
+        type: 'ITEM_STATUS',
+        fromValue: item.status,
+        toValue: 'CANCELLED',
+        note: note ?? null,
+      }))
+    );
+
+    return syncOrderStatus(tx, order.id, actor, note);
+  });
+
+  return mapOrderToDetailResponse(cancelledOrder);
+}
+
+/**
+ * Get the status history of an order. Buyers and admins see every event;
+ * vendors see order-level events and those for their own items.
+ */
+export async function getOrderTimeline(
+  orderId: string,
+  userId: string,
+  role: UserRole
+): Promise<OrderTimelineResponse> {
+  const order = await prisma.order.findUnique({
     where: { id: orderId },
-    data: {
-      status: 'CANCELLED',
-    },
     include: {
       items: {
-        include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              sku: true,
-            },
-          },
-          variant: {
-            select: {
-              id: true,
-              name: true,
-              value: true,
-            },
-          },
+        select: {
+          id: true,
+          shop: { select: { vendor: { select: { userId: true } } } },
         },
       },
-      shippingAddress: true,
     },
   });
 
-  return mapOrderToDetailResponse(cancelledOrder);
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  let visibleItemIds: string[] | null = null;
+  if (role !== 'ADMIN' && order.userId !== userId) {
+    visibleItemIds = order.items
+      .filter((item) => item.shop.vendor?.userId === userId)
+      .map((item) => item.id);
+
+    if (visibleItemIds.length === 0) {
+      throw new Error('Unauthorized: You do not have access to this order');
+    }
+  }
+
+  const events = await prisma.orderStatusEvent.findMany({
+    where: {
+      orderId,
+      ...(visibleItemIds
+        ? { OR: [{ orderItemId: null }, { orderItemId: { in: visibleItemIds } }] }
+        : {}),
+    },
+    include: {
+      actor: { select: { name: true } },
+      orderItem: { select: { id: true, product: { select: { name: true } } } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    events: events.map((event) => ({
+      id: event.id,
+      orderItemId: event.orderItemId,
+      type: event.type,
+      actorId: event.actorId,
+      actorName: event.actor?.name ?? null,
+      actorRole: event.actorRole,
+      fromValue: event.fromValue,
+      toValue: event.toValue,
+      note: event.note,
+      item: event.orderItem
+        ? { id: event.orderItem.id, productName: event.orderItem.product.name }
+        : null,
+      createdAt: event.createdAt,
+    })),
+  };
 }
 
 // ============ Helper Functions ============
 
+/**
+ * Append events to order timelines (pass the transaction client so the
+ * history is written together with the change it describes)
+ */
+export async function recordOrderEvents(
+  client: Prisma.TransactionClient,
+  actor: OrderActor,
+  events: OrderEventInput[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  await client.orderStatusEvent.createMany({
+    data: events.map((event) => ({
+      orderId: event.orderId,
+      orderItemId: event.orderItemId ?? null,
+      type: event.type,
+      actorId: actor.userId,
+      actorRole: actor.role,
+      fromValue: event.fromValue ?? null,
+      toValue: event.toValue ?? null,
+      note: event.note ?? null,
+    })),
+  });
+}
+
+// Decide whether the caller acts on this order as its buyer or as an admin
+function resolveOrderActor(order: { userId: string | null }, userId: string, role: UserRole): OrderActorRole {
+  if (role === 'ADMIN') {
+    return 'ADMIN';
+  }
+
+  if (order.userId !== userId) {
+    throw new Error('Unauthorized: You do not own this order');
+  }
+
+  return 'CUSTOMER';
+}
+
+/**
+ * Re-derive the order status from its items, recording the change,
+ * and return the order with details
+ */
+export async function syncOrderStatus(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  actor: OrderActor,
+  note?: string
+) {
+  await syncShipmentStatuses(tx, orderId);
+
+  const [order, items] = await Promise.all([
+    tx.order.findUniqueOrThrow({ where: { id: orderId }, select: { status: true } }),
+    tx.orderItem.findMany({
+      where: { orderId },
+      select: { status: true },
+    }),
+  ]);
+
+  const status = deriveOrderStatus(items.map((item) => item.status));
+
+  if (status !== order.status) {
+    await recordOrderEvents(tx, actor, [
+      { orderId, type: 'ORDER_STATUS', fromValue: order.status, toValue: status, note: note ?? null },
+    ]);
+
+    // A fully cancelled order no longer counts towards coupon limits
+    if (status === 'CANCELLED') {
+      await releaseCouponRedemption(tx, orderId);
+    }
+  }
+
+  return tx.order.update({
+    where: { id: orderId },
+    data: {
+      status,
+      ...(status === 'DELIVERED' ? { deliveredAt: new Date() } : {}),
+    },
+    include: orderDetailInclude,
+  });
+}
+
 function mapOrderToResponse(order: any): any {
   return {
     id: order.id,
     userId: order.userId,
+    guestEmail: order.guestEmail ?? null,
+    guestPhone: order.guestPhone ?? null,
     orderNumber: order.orderNumber,
     status: order.status,
     paymentStatus: order.paymentStatus,
     paymentMethod: order.paymentMethod,
-    trackingCode: order.trackingCode ?? null,
-    carrier: order.carrier ?? null,
-    trackingUrl: order.trackingUrl ?? null,
-    estimatedDelivery: order.estimatedDelivery ?? null,
     deliveredAt: order.deliveredAt ?? null,
     subtotalAmount: order.subtotalAmount,
     discountAmount: order.discountAmount,
     shippingFee: order.shippingFee,
     totalAmount: order.totalAmount,
+    refundedAmount: order.refundedAmount ?? 0,
+    couponCode: order.couponCode ?? null,
     notes: order.notes,
     shippingAddressId: order.shippingAddressId,
     placedAt: order.placedAt,
@@ -572,42 +871,44 @@ function mapOrderToResponse(order: any): any {
 function mapOrderToDetailResponse(order: any): OrderDetailResponse {
   return {
     ...mapOrderToResponse(order),
-    items:
-      order.items?.map((item: any) => ({
-        id: item.id,
-        orderId: item.orderId,
-        productId: item.productId,
-        shopId: item.shopId,
-        variantId: item.variantId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        deliveryCharge: item.deliveryCharge,
-        totalPrice: item.totalPrice,
-        status: item.status ?? 'PENDING',
-        trackingCode: item.trackingCode ?? null,
-        carrier: item.carrier ?? null,
-        trackingUrl: item.trackingUrl ?? null,
-        deliveredAt: item.deliveredAt ?? null,
-        createdAt: item.createdAt,
-        product: item.product
-          ? {
-              id: item.product.id,
-              name: item.product.name,
-              sku: item.product.sku,
-            }
-          : undefined,
-        variant: item.variant
-          ? {
-              id: item.variant.id,
-              name: item.variant.name,
-              value: item.variant.value,
-            }
-          : undefined,
-      })) ?? [],
+    items: order.items?.map(mapOrderItemToResponse) ?? [],
+    shipments: order.shipments?.map(mapShipmentToResponse) ?? [],
     shippingAddress: order.shippingAddress,
   };
 }
 
+export function mapOrderItemToResponse(item: any): any {
+  return {
+    id: item.id,
+    orderId: item.orderId,
+    productId: item.productId,
+    shopId: item.shopId,
+    shipmentId: item.shipmentId ?? null,
+    variantId: item.variantId,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    deliveryCharge: item.deliveryCharge,
+    totalPrice: item.totalPrice,
+    status: item.status ?? 'PENDING',
+    deliveredAt: item.deliveredAt ?? null,
+    createdAt: item.createdAt,
+    product: item.product
+      ? {
+          id: item.product.id,
+          name: item.product.name,
+          sku: item.product.sku,
+        }
+      : undefined,
+    variant: item.variant
+      ? {
+          id: item.variant.id,
+          name: item.variant.name,
+          value: item.variant.value,
+        }
+      : undefined,
+  };
+}
+
 /**
  * Create order from cart (checkout)
  */
@@ -615,21 +916,12 @@ export async function checkoutFromCart(
   userId: string,
   data: CheckoutFromCartRequest
 ): Promise<OrderDetailResponse> {
-  // Validate cart
-  const validation = await cartService.validateCartForCheckout(userId);
-  if (!validation.valid) {
-    throw new Error(`Cart validation failed: ${validation.errors.join(', ')}`);
-  }
-
-  if (validation.cart.items.length === 0) {
-    throw new Error('Cart is empty');
-  }
-
   // Validate shipping address
   const shippingAddress = await prisma.orderAddress.findFirst({
     where: {
       id: data.shippingAddressId,
       userId,
+      archivedAt: null,
     },
   });
 
@@ -637,31 +929,69 @@ export async function checkoutFromCart(
     throw new Error('Shipping address not found or does not belong to this user');
   }
 
+  return placeOrderFromCart(
+    { userId },
+    {
+      destination: shippingAddress,
+      shippingAddressId: shippingAddress.id,
+      paymentMethod: data.paymentMethod ?? null,
+      notes: data.notes ?? null,
+    }
+  );
+}
+
+/**
+ * Turn a user's or guest's cart into an order (internal use). Guest orders
+ * carry their contact details and create their address with the order.
+ */
+export async function placeOrderFromCart(
+  owner: CartOwner,
+  options: CartOrderOptions
+): Promise<OrderDetailResponse> {
+  // Validate cart
+  const validation = await cartService.validateCartForCheckout(owner);
+  if (validation.errors.length > 0 && validation.stockFailures.length === validation.errors.length) {
+    throw new InsufficientStockError(validation.stockFailures);
+  }
+  if (validation.errors.length > 0) {
+    throw new Error(`Cart validation failed: ${validation.errors.join(', ')}`);
+  }
+  if (validation.priceIncreases.length > 0) {
+    throw new cartService.PriceChangedError(validation.priceIncreases);
+  }
+
+  if (validation.cart.items.length === 0) {
+    throw new Error('Cart is empty');
+  }
+
   // Get cart items with full details
-  const cartItems = await cartService.getCartItemsForOrder(userId);
+  const cartItems = await cartService.getCartItemsForOrder(owner);
 
   // Build order items from cart
   let subtotalAmount = 0;
-  let deliveryTotal = 0;
 
-  const orderItemsData = cartItems.map((item) => {
+  const commissions = await resolveCommissions(
+    cartItems.map((item) => ({
+      shopId: item.product.shopId,
+      vendorId: item.product.shop.vendorId,
+      categoryId: item.product.categoryId,
+    }))
+  );
+
+  const orderItemsData = cartItems.map((item, index) => {
     const unitPrice = item.priceSnapshot;
-    const deliveryCharge = item.deliveryChargeSnapshot;
-    const itemSubtotal = unitPrice * item.quantity;
-    const deliveryLine = deliveryCharge * item.quantity;
-    const totalPrice = itemSubtotal + deliveryLine;
+    const totalPrice = unitPrice * item.quantity;
 
-    subtotalAmount += itemSubtotal;
-    deliveryTotal += deliveryLine;
+    subtotalAmount += totalPrice;
 
     const itemData: any = {
       product: { connect: { id: item.productId } },
       shop: { connect: { id: item.product.shopId } },
       quantity: item.quantity,
       unitPrice,
-      deliveryCharge,
       totalPrice,
       status: 'PENDING',
+      ...buildCommissionSnapshot(commissions[index], totalPrice),
     };
 
     if (item.variantId) {
@@ -671,67 +1001,93 @@ export async function checkoutFromCart(
     return itemData;
   });
 
-  const shippingFee = 0;
-  const discountAmount = 0;
-  const totalAmount = subtotalAmount + deliveryTotal + shippingFee - discountAmount;
+  // Re-validate the applied coupon against the final cart (guests cannot apply one)
+  const coupon = owner.userId ? await cartService.getCartCoupon(owner) : null;
+  let discountAmount = 0;
+  if (coupon && owner.userId) {
+    const evaluation = await evaluateCoupon(
+      coupon,
+      owner.userId,
+      cartItems.map((item) => ({
+        productId: item.productId,
+        shopId: item.product.shopId,
+        categoryId: item.product.categoryId,
+        lineSubtotal: item.priceSnapshot * item.quantity,
+      }))
+    );
+    discountAmount = evaluation.discountAmount;
+    orderItemsData.forEach((itemData, index) => {
+      itemData.couponDiscount = evaluation.lineDiscounts[index] ?? 0;
+    });
+  }
 
-  // Create order
-  const order = await prisma.order.create({
-    data: {
-      userId,
-      orderNumber: generateOrderNumber(),
-      status: 'PENDING',
-      paymentStatus: data.paymentMethod ? 'PENDING' : null,
-      paymentMethod: data.paymentMethod ?? null,
-      subtotalAmount,
-      discountAmount,
-      shippingFee,
-      totalAmount,
-      notes: data.notes ?? null,
-      shippingAddressId: data.shippingAddressId,
-      items: {
-        create: orderItemsData,
-      },
-    },
-    include: {
-      items: {
-        include: {
-          product: { select: { id: true, name: true, sku: true } },
-          variant: { select: { id: true, name: true, value: true } },
+  const shippingQuote = await quoteShipping(
+    cartItems.map((item) => cartService.toShippingLine(item)),
+    options.destination
+  );
+  assertDeliverable(shippingQuote);
+
+  const shippingFee = shippingQuote.total;
+  const totalAmount = subtotalAmount + shippingFee - discountAmount;
+
+  // Reserve stock, create the order, redeem the coupon and clear the cart atomically
+  const order = await prisma.$transaction(async (tx) => {
+    await reserveStock(
+      tx,
+      cartItems.map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+      }))
+    );
+
+    const shippingAddressId =
+      options.shippingAddressId ??
+      (await tx.orderAddress.create({ data: { ...options.guest!.address, userId: null } })).id;
+
+    const created = await tx.order.create({
+      data: {
+        userId: owner.userId ?? null,
+        guestEmail: options.guest?.email ?? null,
+        guestPhone: options.guest?.phone ?? null,
+        trackingTokenHash: options.guest?.trackingTokenHash ?? null,
+        orderNumber: await generateOrderNumber(tx),
+        status: 'PENDING',
+        paymentStatus: options.paymentMethod ? 'PENDING' : null,
+        paymentMethod: options.paymentMethod,
+        subtotalAmount,
+        discountAmount,
+        shippingFee,
+        totalAmount,
+        couponId: coupon?.id ?? null,
+        couponCode: coupon?.code ?? null,
+        notes: options.notes,
+        shippingAddressId,
+        items: {
+          create: orderItemsData,
         },
       },
-      shippingAddress: true,
-    },
-  });
+    });
 
-  // Update product stocks
-  await Promise.all(
-    cartItems.map((item) =>
-      prisma.product.update({
-        where: { id: item.productId },
-        data: {
-          stock: { decrement: item.quantity },
-        },
-      })
-    )
-  );
+    await createOrderShipments(tx, created.id, shippingQuote.shops);
 
-  // Also decrement variant stock if applicable
-  await Promise.all(
-    cartItems
-      .filter((item) => item.variantId)
-      .map((item) =>
-        prisma.productVariant.update({
-          where: { id: item.variantId! },
-          data: {
-            stock: { decrement: item.quantity },
-          },
-        })
-      )
-  );
+    if (coupon && owner.userId) {
+      await redeemCoupon(tx, coupon, owner.userId, created.id, discountAmount);
+    }
 
-  // Clear cart after successful order
-  await cartService.clearCartAfterOrder(userId);
+    await cartService.clearCartAfterOrder(owner, tx);
+
+    await recordOrderEvents(tx, { userId: owner.userId ?? null, role: 'CUSTOMER' }, [
+      {
+        orderId: created.id,
+        type: 'ORDER_STATUS',
+        toValue: 'PENDING',
+        note: owner.userId ? 'Order placed from cart' : 'Guest order placed from cart',
+      },
+    ]);
+
+    return tx.order.findUniqueOrThrow({ where: { id: created.id }, include: orderDetailInclude });
+  });
 
   return mapOrderToDetailResponse(order);
 }
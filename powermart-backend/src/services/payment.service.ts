@@ -0,0 +1,269 @@
+import { prisma } from '../../lib/prisma.ts';
+import { Prisma } from '../../prisma/generated/client.ts';
+import {
+  buildMockWebhook,
+  getPaymentProvider,
+  verifyMockCheckoutToken,
+  type PaymentWebhookHeaders,
+} from '../../lib/payments/index.ts';
+import { recordOrderEvents } from './order.service.ts';
+import type { OrderActor } from '../types/order.types.ts';
+import type {
+  CreatePaymentIntentRequest,
+  PaymentIntentResponse,
+  PaymentWebhookResult,
+} from '../types/payment.types.ts';
+
+// Provider callbacks are recorded as system changes
+const PAYMENT_ACTOR: OrderActor = { userId: null, role: 'SYSTEM' };
+
+// Where the buyer lands after the hosted checkout page
+function buildReturnUrl(orderId: string, intentId: string): string {
+  const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+  return `${frontendUrl}/orders/${orderId}/payment?intent=${intentId}`;
+}
+
+function buildWebhookUrl(provider: string): string {
+  const apiUrl = process.env.API_URL ?? `http://localhost:${process.env.PORT ?? 3000}`;
+  return `${apiUrl}/api/payments/webhooks/${provider}`;
+}
+
+/**
+ * Start an online payment for a CARD order. Any earlier unfinished intent
+ * for the order is cancelled so only the latest session can pay.
+ */
+export async function createPaymentIntent(
+  userId: string,
+  data: CreatePaymentIntentRequest
+): Promise<PaymentIntentResponse> {
+  const order = await prisma.order.findUnique({
+    where: { id: data.orderId },
+    include: { user: { select: { email: true, name: true } } },
+  });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  if (order.userId !== userId || !order.user) {
+    throw new Error('Unauthorized: You do not own this order');
+  }
+
+  if (order.paymentMethod !== 'CARD') {
+    throw new Error('Online payment is only available for card orders');
+  }
+
+  if (order.paymentStatus === 'PAID' || order.paymentStatus === 'REFUNDED') {
+    throw new Error('Order has already been paid');
+  }
+
+  if (order.status === 'CANCELLED') {
+    throw new Error('Cannot pay for a cancelled order');
+  }
+
+  const provider = getPaymentProvider(data.provider);
+
+  await prisma.paymentIntent.updateMany({
+    where: { orderId: order.id, status: 'REQUIRES_ACTION' },
+    data: { status: 'CANCELLED' },
+  });
+
+  const intent = await prisma.paymentIntent.create({
+    data: {
+      orderId: order.id,
+      provider: provider.name,
+      amount: order.totalAmount,
+    },
+  });
+
+  try {
+    const session = await provider.createSession({
+      intentId: intent.id,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      amount: intent.amount,
+      currency: intent.currency,
+      customer: { id: userId, email: order.user.email, name: order.user.name },
+      returnUrl: buildReturnUrl(order.id, intent.id),
+      webhookUrl: buildWebhookUrl(provider.name),
+    });
+
+    const updated = await prisma.paymentIntent.update({
+      where: { id: intent.id },
+      data: {
+        providerReference: session.providerReference,
+        redirectUrl: session.redirectUrl,
+        expiresAt: session.expiresAt,
+      },
+    });
+
+    return mapPaymentIntentToResponse(updated);
+  } catch (error) {
+    await prisma.paymentIntent.update({
+      where: { id: intent.id },
+      data: {
+        status: 'FAILED',
+        failureReason: error instanceof Error ? error.message : 'Failed to start payment',
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Get a payment intent for the order's buyer
+ */
+export async function getPaymentIntent(
+  userId: string,
+  intentId: string
+): Promise<PaymentIntentResponse | null> {
+  const intent = await prisma.paymentIntent.findFirst({
+    where: { id: intentId, order: { userId } },
+  });
+
+  return intent ? mapPaymentIntentToResponse(intent) : null;
+}
+
+/**
+ * Apply a provider callback. The signature is verified by the provider
+ * adapter; each event id is stored once, so redelivered callbacks are
+ * acknowledged without being applied again.
+ */
+export async function handlePaymentWebhook(
+  providerName: string,
+  rawBody: Buffer,
+  headers: PaymentWebhookHeaders
+): Promise<PaymentWebhookResult> {
+  const provider = getPaymentProvider(providerName);
+  const event = provider.parseWebhook(rawBody, headers);
+
+  const intent = await prisma.paymentIntent.findUnique({
+    where: {
+      provider_providerReference: {
+        provider: provider.name,
+        providerReference: event.providerReference,
+      },
+    },
+    include: { order: { select: { id: true, paymentStatus: true } } },
+  });
+
+  if (!intent) {
+    throw new Error('Payment intent not found');
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.paymentWebhookEvent.create({
+        data: {
+          provider: provider.name,
+          eventId: event.eventId,
+          paymentIntentId: intent.id,
+          status: event.outcome,
+          payload: event.payload as Prisma.InputJsonValue,
+        },
+      });
+
+      if (event.outcome === 'PENDING') {
+        return { received: true, duplicate: false, status: intent.status };
+      }
+
+      // A success for the wrong amount is not a payment for this order
+      const amountMismatch =
+        event.outcome === 'SUCCEEDED' &&
+        event.amount !== null &&
+        Math.abs(event.amount - intent.amount) > 0.01;
+      const succeeded = event.outcome === 'SUCCEEDED' && !amountMismatch;
+      const status = succeeded ? 'SUCCEEDED' : 'FAILED';
+
+      // Only the first final callback for an intent is applied
+      const result = await tx.paymentIntent.updateMany({
+        where: { id: intent.id, status: 'REQUIRES_ACTION' },
+        data: {
+          status,
+          failureReason: amountMismatch
+            ? `Amount mismatch: expected ${intent.amount}, received ${event.amount}`
+            : succeeded
+              ? null
+              : event.failureReason,
+          completedAt: new Date(),
+        },
+      });
+
+      // Another final callback got there first; nothing was applied
+      if (result.count === 0) {
+        return { received: true, duplicate: true, status: intent.status };
+      }
+
+      // Never downgrade an order that another intent already paid
+      const paymentStatus = succeeded ? 'PAID' : 'FAILED';
+      if (intent.order.paymentStatus !== 'PAID' && intent.order.paymentStatus !== paymentStatus) {
+        await tx.order.update({
+          where: { id: intent.order.id },
+          data: { paymentStatus },
+        });
+
+        await recordOrderEvents(tx, PAYMENT_ACTOR, [
+          {
+            orderId: intent.order.id,
+            type: 'PAYMENT_STATUS',
+            fromValue: intent.order.paymentStatus,
+            toValue: paymentStatus,
+            note: `${provider.name} payment ${status.toLowerCase()}`,
+          },
+        ]);
+      }
+
+      return { received: true, duplicate: false, status };
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { received: true, duplicate: true, status: null };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Complete a mock checkout session by sending its signed callback through
+ * the regular webhook path. Returns where to send the buyer next.
+ */
+export async function completeMockCheckout(
+  providerReference: string,
+  token: string,
+  outcome: 'SUCCEEDED' | 'FAILED'
+): Promise<string> {
+  const intent = await prisma.paymentIntent.findFirst({
+    where: { provider: 'mock', providerReference },
+    include: { order: { select: { userId: true } } },
+  });
+
+  if (!intent) {
+    throw new Error('Payment intent not found');
+  }
+
+  if (!intent.order.userId || !verifyMockCheckoutToken(providerReference, intent.order.userId, token)) {
+    throw new Error('Unauthorized: Checkout link is invalid or has expired');
+  }
+
+  const { rawBody, headers } = buildMockWebhook(providerReference, outcome, intent.amount);
+  await handlePaymentWebhook('mock', rawBody, headers);
+
+  return buildReturnUrl(intent.orderId, intent.id);
+}
+
+// Helper to map Prisma result to response type
+function mapPaymentIntentToResponse(intent: any): PaymentIntentResponse {
+  return {
+    id: intent.id,
+    orderId: intent.orderId,
+    provider: intent.provider,
+    amount: intent.amount,
+    currency: intent.currency,
+    status: intent.status,
+    redirectUrl: intent.redirectUrl,
+    failureReason: intent.failureReason,
+    expiresAt: intent.expiresAt,
+    completedAt: intent.completedAt,
+    createdAt: intent.createdAt,
+  };
+}
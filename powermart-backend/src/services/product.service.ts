@@ -12,8 +12,10 @@ import type {
   ProductImageResponse,
   ProductVariantResponse,
 } from '../types/shop.types.ts';
+import { processProductAlerts } from './productAlert.service.ts';
+import { publishedReviewWhere } from './review.service.ts';
 
-type ProductStats = {
+export type ProductStats = {
   avgRating: number | null;
   reviewCount: number;
   totalSold: number;
@@ -33,6 +35,7 @@ export async function createProduct(
     stock: data.stock ?? 0,
     sku: data.sku ?? null,
     deliveryCharge: data.deliveryCharge ?? 0,
+    weightKg: data.weightKg ?? null,
   };
 
   if (data.categoryId) {
@@ -153,6 +156,7 @@ export async function updateProduct(
   if (data.stock !== undefined) updateData.stock = data.stock;
   if (data.sku !== undefined) updateData.sku = data.sku;
   if (data.deliveryCharge !== undefined) updateData.deliveryCharge = data.deliveryCharge;
+  if (data.weightKg !== undefined) updateData.weightKg = data.weightKg;
   if (data.categoryId !== undefined) {
     updateData.category = data.categoryId ? { connect: { id: data.categoryId } } : { disconnect: true };
   }
@@ -162,6 +166,18 @@ export async function updateProduct(
     data: updateData,
   });
 
+  // Stock, price or availability changes may fire back-in-stock and price-drop alerts
+  if (
+    data.stock !== undefined ||
+    data.price !== undefined ||
+    data.discount !== undefined ||
+    data.status !== undefined
+  ) {
+    processProductAlerts(product.id).catch((error) => {
+      console.error('Failed to process product alerts:', error);
+    });
+  }
+
   return mapProductToResponse(product);
 }
 
@@ -237,6 +253,12 @@ export async function updateProductVariant(
     data: updateData,
   });
 
+  if (data.stock !== undefined || data.priceDiff !== undefined) {
+    processProductAlerts(variant.productId).catch((error) => {
+      console.error('Failed to process product alerts:', error);
+    });
+  }
+
   return {
     id: variant.id,
     name: variant.name,
@@ -264,7 +286,7 @@ export async function getProductShopId(productId: string): Promise<string | null
 }
 
 // Helper functions
-function mapProductToResponse(product: any, stats?: ProductStats): ProductResponse {
+export function mapProductToResponse(product: any, stats?: ProductStats): ProductResponse {
   return {
     id: product.id,
     shopId: product.shopId,
@@ -273,6 +295,7 @@ function mapProductToResponse(product: any, stats?: ProductStats): ProductRespon
     price: product.price,
     discount: product.discount,
     deliveryCharge: product.deliveryCharge,
+    weightKg: product.weightKg ?? null,
     status: product.status,
     stock: product.stock,
     sku: product.sku,
@@ -285,7 +308,7 @@ function mapProductToResponse(product: any, stats?: ProductStats): ProductRespon
   };
 }
 
-function mapProductToDetailResponse(product: any, stats?: ProductStats): ProductDetailResponse {
+export function mapProductToDetailResponse(product: any, stats?: ProductStats): ProductDetailResponse {
   return {
     ...mapProductToResponse(product, stats),
     category: product.category
@@ -312,10 +335,10 @@ function mapProductToDetailResponse(product: any, stats?: ProductStats): Product
   };
 }
 
-async function getProductStats(productId: string): Promise<ProductStats> {
+export async function getProductStats(productId: string): Promise<ProductStats> {
   const [reviewAgg, deliveredAgg] = await Promise.all([
     prisma.productReview.aggregate({
-      where: { productId },
+      where: { productId, ...publishedReviewWhere },
       _avg: { rating: true },
       _count: { rating: true },
     }),
@@ -332,13 +355,13 @@ async function getProductStats(productId: string): Promise<ProductStats> {
   };
 }
 
-async function getProductsStatsMap(productIds: string[]): Promise<Record<string, ProductStats>> {
+export async function getProductsStatsMap(productIds: string[]): Promise<Record<string, ProductStats>> {
   if (productIds.length === 0) return {};
 
   const [reviewGroup, deliveredGroup] = await Promise.all([
     prisma.productReview.groupBy({
       by: ['productId'],
-      where: { productId: { in: productIds } },
+      where: { productId: { in: productIds }, ...publishedReviewWhere },
       _avg: { rating: true },
       _count: { rating: true },
     }),
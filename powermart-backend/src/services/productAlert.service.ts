@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma.ts';
+import { sendProductAlertEmail } from '../../lib/email.ts';
+import type { ProductAlertNotice } from '../../lib/email.ts';
+import { sendProductAlertMessage } from '../../lib/sms.ts';
+import type { MessageResponse } from '../types/auth.types.ts';
+import type {
+  CreateProductAlertRequest,
+  ProductAlertResponse,
+} from '../types/productAlert.types.ts';
+import { normalizePakistaniPhone } from '../utils/address.util.ts';
+import { getUnitPrice } from './cart.service.ts';
+
+const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+const apiUrl = process.env.API_URL ?? `http://localhost:${process.env.PORT ?? 3000}`;
+
+const productAlertInclude = {
+  product: { select: { id: true, name: true, price: true, discount: true, stock: true, status: true } },
+  variant: { select: { id: true, name: true, value: true, priceDiff: true, stock: true } },
+};
+
+// Helper to work out what a product (or variant) can be bought at right now
+function getLiveOffer(
+  product: { price: number; discount: number | null; stock: number },
+  variant: { priceDiff: number | null; stock: number } | null
+): { price: number; stock: number } {
+  return {
+    price: getUnitPrice(product, variant),
+    stock: variant ? Math.min(variant.stock, product.stock) : product.stock,
+  };
+}
+
+/**
+ * Subscribe to a back-in-stock or price-drop alert. Setting the same alert
+ * again replaces the pending one.
+ */
+export async function createAlert(
+  userId: string,
+  data: CreateProductAlertRequest
+): Promise<ProductAlertResponse> {
+  const product = await prisma.product.findUnique({
+    where: { id: data.productId },
+    select: { price: true, discount: true, stock: true, status: true },
+  });
+
+  if (!product) {
+    throw new Error('Product not found');
+  }
+
+  let variant = null;
+  if (data.variantId) {
+    variant = await prisma.productVariant.findUnique({
+      where: { id: data.variantId },
+    });
+
+    if (!variant) {
+      throw new Error('Variant not found');
+    }
+
+    if (variant.productId !== data.productId) {
+      throw new Error('Variant does not belong to this product');
+    }
+  }
+
+  const offer = getLiveOffer(product, variant);
+
+  if (data.type === 'BACK_IN_STOCK' && product.status === 'ACTIVE' && offer.stock > 0) {
+    throw new Error('This product is in stock');
+  }
+
+  if (data.type === 'PRICE_DROP') {
+    if (data.targetPrice === undefined) {
+      throw new Error('Target price is required for a price-drop alert');
+    }
+    if (data.targetPrice >= offer.price) {
+      throw new Error(`Target price must be below the current price of Rs. ${offer.price}`);
+    }
+  }
+
+  if (data.channel === 'PHONE' && !data.phoneNumber) {
+    throw new Error('Phone number is required for WhatsApp alerts');
+  }
+
+  const alertData = {
+    targetPrice: data.type === 'PRICE_DROP' ? data.targetPrice ?? null : null,
+    channel: data.channel,
+    phoneNumber: data.channel === 'PHONE' ? normalizePakistaniPhone(data.phoneNumber!) : null,
+  };
+
+  const existing = await prisma.productAlert.findFirst({
+    where: {
+      userId,
+      productId: data.productId,
+      variantId: data.variantId ?? null,
+      type: data.type,
+      triggeredAt: null,
+    },
+  });
+
+  const alert = existing
+    ? await prisma.productAlert.update({
+        where: { id: existing.id },
+        data: alertData,
+        include: productAlertInclude,
+      })
+    : await prisma.productAlert.create({
+        data: {
+          userId,
+          productId: data.productId,
+          variantId: data.variantId ?? null,
+          type: data.type,
+          unsubscribeToken: crypto.randomBytes(24).toString('base64url'),
+          ...alertData,
+        },
+        include: productAlertInclude,
+      });
+
+  return mapAlertToResponse(alert);
+}
+
+/**
+ * Get the user's alerts, pending ones first
+ */
+export async function getAlerts(userId: string): Promise<ProductAlertResponse[]> {
+  const alerts = await prisma.productAlert.findMany({
+    where: { userId },
+    include: productAlertInclude,
+    orderBy: [{ triggeredAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+  });
+
+  return alerts.map(mapAlertToResponse);
+}
+
+/**
+ * Delete one of the user's alerts
+ */
+export async function deleteAlert(userId: string, alertId: string): Promise<void> {
+  const result = await prisma.productAlert.deleteMany({
+    where: { id: alertId, userId },
+  });
+
+  if (result.count === 0) {
+    throw new Error('Alert not found');
+  }
+}
+
+/**
+ * Unsubscribe through the link sent with an alert (no sign-in needed)
+ */
+export async function unsubscribeAlert(token: string): Promise<MessageResponse> {
+  const result = await prisma.productAlert.deleteMany({
+    where: { unsubscribeToken: token },
+  });
+
+  if (result.count === 0) {
+    throw new Error('Alert not found or already unsubscribed');
+  }
+
+  return { success: true, message: 'You have been unsubscribed from this alert' };
+}
+
+/**
+ * Fire the pending alerts of a product whose stock, price or status just
+ * changed. Each alert is claimed before sending, so it fires only once
+ * even when updates race.
+ */
+export async function processProductAlerts(productId: string): Promise<number> {
+  const alerts = await prisma.productAlert.findMany({
+    where: { productId, triggeredAt: null },
+    include: {
+      ...productAlertInclude,
+      user: { select: { email: true, name: true } },
+    },
+  });
+
+  let sent = 0;
+
+  for (const alert of alerts) {
+    if (alert.product.status !== 'ACTIVE') {
+      continue;
+    }
+
+    const offer = getLiveOffer(alert.product, alert.variant);
+    const due =
+      offer.stock > 0 &&
+      (alert.type === 'BACK_IN_STOCK' || (alert.targetPrice !== null && offer.price <= alert.targetPrice));
+
+    if (!due) {
+      continue;
+    }
+
+    const claimed = await prisma.productAlert.updateMany({
+      where: { id: alert.id, triggeredAt: null },
+      data: { triggeredAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const productName = alert.variant
+      ? `${alert.product.name} (${alert.variant.name}: ${alert.variant.value})`
+      : alert.product.name;
+    const notice: ProductAlertNotice = {
+      type: alert.type,
+      productName,
+      price: offer.price,
+      productUrl: `${frontendUrl}/products/${alert.productId}`,
+      unsubscribeUrl: `${apiUrl}/api/alerts/unsubscribe/${alert.unsubscribeToken}`,
+    };
+
+    const delivered = alert.channel === 'PHONE' && alert.phoneNumber
+      ? (await sendProductAlertMessage(alert.phoneNumber, notice)).success
+      : await sendProductAlertEmail(alert.user.email, notice, alert.user.name ?? undefined);
+
+    if (delivered) {
+      sent++;
+    } else {
+      // Let the next change try again
+      await prisma.productAlert.update({
+        where: { id: alert.id },
+        data: { triggeredAt: null },
+      });
+    }
+  }
+
+  return sent;
+}
+
+// Helper to map alert to response
+function mapAlertToResponse(alert: any): ProductAlertResponse {
+  const offer = getLiveOffer(alert.product, alert.variant);
+
+  return {
+    id: alert.id,
+    productId: alert.productId,
+    variantId: alert.variantId,
+    type: alert.type,
+    targetPrice: alert.targetPrice,
+    channel: alert.channel,
+    phoneNumber: alert.phoneNumber,
+    triggeredAt: alert.triggeredAt,
+    createdAt: alert.createdAt,
+    product: {
+      id: alert.product.id,
+      name: alert.product.name,
+      currentPrice: offer.price,
+      stock: offer.stock,
+    },
+    variant: alert.variant
+      ? {
+          id: alert.variant.id,
+          name: alert.variant.name,
+          value: alert.variant.value,
+        }
+      : null,
+  };
+}
@@ -0,0 +1,481 @@
+import { prisma } from '../../lib/prisma.ts';
+import { sendProductQuestionEmail } from '../../lib/email.ts';
+import { Prisma } from '../../prisma/generated/client.ts';
+import type {
+  AdminQuestionFilters,
+  AnswerQuestionRequest,
+  AskQuestionRequest,
+  ModerateQARequest,
+  PaginatedProductQuestionsResponse,
+  ProductAnswerResponse,
+  ProductQuestionResponse,
+  VendorQuestionFilters,
+} from '../types/productQuestion.types.ts';
+
+const authorSelect = { select: { id: true, name: true } };
+
+// Public view: only published answers, vendor answers first, then the most helpful
+const publicQuestionInclude = {
+  user: authorSelect,
+  answers: {
+    where: { status: 'PUBLISHED' as const },
+    include: { user: authorSelect },
+    orderBy: [{ authorRole: 'asc' as const }, { upvoteCount: 'desc' as const }, { createdAt: 'asc' as const }],
+  },
+};
+
+// Moderation view: everything, with the product for context
+const moderationQuestionInclude = {
+  user: authorSelect,
+  product: { select: { id: true, name: true } },
+  answers: {
+    include: { user: authorSelect },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+// Helper to recompute when the vendor first answered, after a vendor
+// answer was added, hidden or restored
+async function refreshVendorAnsweredAt(
+  tx: Prisma.TransactionClient,
+  questionId: string
+): Promise<void> {
+  const firstVendorAnswer = await tx.productAnswer.findFirst({
+    where: { questionId, authorRole: 'VENDOR', status: 'PUBLISHED' },
+    orderBy: { createdAt: 'asc' },
+    select: { createdAt: true },
+  });
+
+  await tx.productQuestion.update({
+    where: { id: questionId },
+    data: { vendorAnsweredAt: firstVendorAnswer?.createdAt ?? null },
+  });
+}
+
+/**
+ * Get a product's published questions and answers (public, paginated)
+ */
+export async function getProductQuestions(
+  productId: string,
+  page: number = 1,
+  limit: number = 10
+): Promise<PaginatedProductQuestionsResponse> {
+  const skip = (page - 1) * limit;
+  const where = { productId, status: 'PUBLISHED' as const };
+
+  const [questions, total] = await Promise.all([
+    prisma.productQuestion.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: publicQuestionInclude,
+    }),
+    prisma.productQuestion.count({ where }),
+  ]);
+
+  return {
+    questions: questions.map(mapQuestionToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Ask a question about a product; its vendor is notified
+ */
+export async function askQuestion(
+  userId: string,
+  productId: string,
+  data: AskQuestionRequest
+): Promise<ProductQuestionResponse> {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: {
+      name: true,
+      status: true,
+      shop: { select: { vendor: { select: { name: true, user: { select: { email: true } } } } } },
+    },
+  });
+
+  if (!product || product.status !== 'ACTIVE') {
+    throw new Error('Product not found');
+  }
+
+  const question = await prisma.productQuestion.create({
+    data: { productId, userId, body: data.body },
+    include: publicQuestionInclude,
+  });
+
+  // Notify the vendor (fire and forget)
+  const vendor = product.shop.vendor;
+  sendProductQuestionEmail(vendor.user.email, product.name, data.body, vendor.name).catch(console.error);
+
+  return mapQuestionToResponse(question);
+}
+
+/**
+ * Delete the user's own question (and its answers)
+ */
+export async function deleteQuestion(userId: string, questionId: string): Promise<void> {
+  const question = await prisma.productQuestion.findUnique({
+    where: { id: questionId },
+  });
+
+  if (!question) {
+    throw new Error('Question not found');
+  }
+
+  if (question.userId !== userId) {
+    throw new Error('Unauthorized: You can only delete your own questions');
+  }
+
+  await prisma.productQuestion.delete({ where: { id: questionId } });
+}
+
+/**
+ * Answer a question as a verified buyer (someone who received the product)
+ */
+export async function answerAsBuyer(
+  userId: string,
+  questionId: string,
+  data: AnswerQuestionRequest
+): Promise<ProductAnswerResponse> {
+  const question = await prisma.productQuestion.findUnique({
+    where: { id: questionId },
+  });
+
+  if (!question || question.status !== 'PUBLISHED') {
+    throw new Error('Question not found');
+  }
+
+  const purchase = await prisma.orderItem.findFirst({
+    where: {
+      productId: question.productId,
+      status: 'DELIVERED',
+      order: { userId },
+    },
+    select: { id: true },
+  });
+
+  if (!purchase) {
+    throw new Error('Unauthorized: Only buyers who received this product can answer');
+  }
+
+  const answer = await prisma.productAnswer.create({
+    data: { questionId, userId, authorRole: 'VERIFIED_BUYER', body: data.body },
+    include: { user: authorSelect },
+  });
+
+  return mapAnswerToResponse(answer);
+}
+
+/**
+ * Answer a question about one of the vendor's products (ownership is
+ * checked by the route)
+ */
+export async function answerAsVendor(
+  userId: string,
+  productId: string,
+  questionId: string,
+  data: AnswerQuestionRequest
+): Promise<ProductAnswerResponse> {
+  const question = await prisma.productQuestion.findUnique({
+    where: { id: questionId },
+  });
+
+  if (!question || question.productId !== productId || question.status !== 'PUBLISHED') {
+    throw new Error('Question not found');
+  }
+
+  const answer = await prisma.$transaction(async (tx) => {
+    const created = await tx.productAnswer.create({
+      data: { questionId, userId, authorRole: 'VENDOR', body: data.body },
+      include: { user: authorSelect },
+    });
+
+    if (!question.vendorAnsweredAt) {
+      await tx.productQuestion.update({
+        where: { id: questionId },
+        data: { vendorAnsweredAt: created.createdAt },
+      });
+    }
+
+    return created;
+  });
+
+  return mapAnswerToResponse(answer);
+}
+
+/**
+ * Delete the user's own answer
+ */
+export async function deleteAnswer(userId: string, answerId: string): Promise<void> {
+  const answer = await prisma.productAnswer.findUnique({
+    where: { id: answerId },
+  });
+
+  if (!answer) {
+    throw new Error('Answer not found');
+  }
+
+  if (answer.userId !== userId) {
+    throw new Error('Unauthorized: You can only delete your own answers');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.productAnswer.delete({ where: { id: answerId } });
+
+    if (answer.authorRole === 'VENDOR') {
+      await refreshVendorAnsweredAt(tx, answer.questionId);
+    }
+  });
+}
+
+/**
+ * Upvote an answer as helpful (once per user; upvoting again is a no-op)
+ */
+export async function upvoteAnswer(userId: string, answerId: string): Promise<ProductAnswerResponse> {
+  const answer = await prisma.productAnswer.findUnique({
+    where: { id: answerId },
+    include: { upvotes: { where: { userId }, select: { userId: true } } },
+  });
+
+  if (!answer || answer.status !== 'PUBLISHED') {
+    throw new Error('Answer not found');
+  }
+
+  if (answer.userId === userId) {
+    throw new Error('You cannot upvote your own answer');
+  }
+
+  if (answer.upvotes.length === 0) {
+    try {
+      await prisma.$transaction([
+        prisma.productAnswerUpvote.create({ data: { answerId, userId } }),
+        prisma.productAnswer.update({
+          where: { id: answerId },
+          data: { upvoteCount: { increment: 1 } },
+        }),
+      ]);
+    } catch (error) {
+      // A concurrent upvote by the same user already counted
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+  }
+
+  return getAnswerById(answerId);
+}
+
+/**
+ * Take back an upvote
+ */
+export async function removeUpvote(userId: string, answerId: string): Promise<ProductAnswerResponse> {
+  await prisma.$transaction(async (tx) => {
+    const removed = await tx.productAnswerUpvote.deleteMany({
+      where: { answerId, userId },
+    });
+
+    if (removed.count > 0) {
+      await tx.productAnswer.update({
+        where: { id: answerId },
+        data: { upvoteCount: { decrement: 1 } },
+      });
+    }
+  });
+
+  return getAnswerById(answerId);
+}
+
+// Helper to load a single answer for a response
+async function getAnswerById(answerId: string): Promise<ProductAnswerResponse> {
+  const answer = await prisma.productAnswer.findUnique({
+    where: { id: answerId },
+    include: { user: authorSelect },
+  });
+
+  if (!answer) {
+    throw new Error('Answer not found');
+  }
+
+  return mapAnswerToResponse(answer);
+}
+
+/**
+ * The vendor's question queue: questions on their products, unanswered
+ * (oldest first) by default
+ */
+export async function getVendorQuestions(
+  vendorId: string,
+  filters: VendorQuestionFilters,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedProductQuestionsResponse> {
+  const skip = (page - 1) * limit;
+  const answered = filters.status === 'ANSWERED';
+
+  const where: Prisma.ProductQuestionWhereInput = {
+    status: 'PUBLISHED',
+    product: { shop: { vendorId } },
+    vendorAnsweredAt: answered ? { not: null } : null,
+    ...(filters.productId && { productId: filters.productId }),
+  };
+
+  const [questions, total] = await Promise.all([
+    prisma.productQuestion.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { createdAt: answered ? 'desc' : 'asc' },
+      include: moderationQuestionInclude,
+    }),
+    prisma.productQuestion.count({ where }),
+  ]);
+
+  return {
+    questions: questions.map(mapQuestionToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * List questions for moderation, hidden answers included (admin)
+ */
+export async function getQuestionsForModeration(
+  filters: AdminQuestionFilters,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedProductQuestionsResponse> {
+  const skip = (page - 1) * limit;
+
+  const where: Prisma.ProductQuestionWhereInput = {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.productId && { productId: filters.productId }),
+  };
+
+  const [questions, total] = await Promise.all([
+    prisma.productQuestion.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: moderationQuestionInclude,
+    }),
+    prisma.productQuestion.count({ where }),
+  ]);
+
+  return {
+    questions: questions.map(mapQuestionToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Hide or restore a question (admin)
+ */
+export async function moderateQuestion(
+  questionId: string,
+  data: ModerateQARequest
+): Promise<ProductQuestionResponse> {
+  const existing = await prisma.productQuestion.findUnique({
+    where: { id: questionId },
+  });
+
+  if (!existing) {
+    throw new Error('Question not found');
+  }
+
+  const question = await prisma.productQuestion.update({
+    where: { id: questionId },
+    data: { status: data.status, moderationNote: data.note ?? null },
+    include: moderationQuestionInclude,
+  });
+
+  return mapQuestionToResponse(question);
+}
+
+/**
+ * Hide or restore an answer (admin)
+ */
+export async function moderateAnswer(
+  answerId: string,
+  data: ModerateQARequest
+): Promise<ProductAnswerResponse> {
+  const existing = await prisma.productAnswer.findUnique({
+    where: { id: answerId },
+  });
+
+  if (!existing) {
+    throw new Error('Answer not found');
+  }
+
+  const answer = await prisma.$transaction(async (tx) => {
+    const updated = await tx.productAnswer.update({
+      where: { id: answerId },
+      data: { status: data.status, moderationNote: data.note ?? null },
+      include: { user: authorSelect },
+    });
+
+    if (updated.authorRole === 'VENDOR') {
+      await refreshVendorAnsweredAt(tx, updated.questionId);
+    }
+
+    return updated;
+  });
+
+  return mapAnswerToResponse(answer);
+}
+
+// Helper to map answer to response
+function mapAnswerToResponse(answer: any): ProductAnswerResponse {
+  return {
+    id: answer.id,
+    questionId: answer.questionId,
+    body: answer.body,
+    authorRole: answer.authorRole,
+    author: {
+      id: answer.user.id,
+      name: answer.user.name,
+    },
+    upvoteCount: answer.upvoteCount,
+    status: answer.status,
+    moderationNote: answer.moderationNote,
+    createdAt: answer.createdAt,
+    updatedAt: answer.updatedAt,
+  };
+}
+
+// Helper to map question to response
+function mapQuestionToResponse(question: any): ProductQuestionResponse {
+  const answers = question.answers.map(mapAnswerToResponse);
+
+  return {
+    id: question.id,
+    productId: question.productId,
+    body: question.body,
+    status: question.status,
+    moderationNote: question.moderationNote,
+    author: {
+      id: question.user.id,
+      name: question.user.name,
+    },
+    vendorAnsweredAt: question.vendorAnsweredAt,
+    answerCount: answers.length,
+    answers,
+    product: question.product
+      ? { id: question.product.id, name: question.product.name }
+      : undefined,
+    createdAt: question.createdAt,
+    updatedAt: question.updatedAt,
+  };
+}
@@ -0,0 +1,525 @@
+import { prisma } from '../../lib/prisma.ts';
+import { CloudinaryFolders, generatePrivateUrl, parseAssetReference } from '../../lib/cloudinary.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type { ReturnReason, ReturnStatus } from '../../prisma/generated/enums.ts';
+import { releaseStock } from './inventory.service.ts';
+import { recordOrderEvents, syncOrderStatus } from './order.service.ts';
+import { debitRefund } from './settlement.service.ts';
+import { assertOrderItemTransition } from '../utils/orderStatus.util.ts';
+import type { OrderActor } from '../types/order.types.ts';
+import type {
+  CreateReturnRequest,
+  ApproveReturnRequest,
+  RejectReturnRequest,
+  ReceiveReturnRequest,
+  RefundReturnRequest,
+  ReturnFilters,
+  ReturnResponse,
+  PaginatedReturnsResponse,
+} from '../types/return.types.ts';
+
+// Days after delivery during which a return can be opened
+const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS ?? '7', 10);
+
+// Signed evidence URLs are short-lived
+const EVIDENCE_URL_TTL_SECONDS = 15 * 60;
+
+// Reasons that must be backed by at least one photo
+const EVIDENCE_REQUIRED_REASONS: ReturnReason[] = ['DAMAGED', 'DEFECTIVE', 'WRONG_ITEM'];
+
+// Returns whose units count against the quantity of an item still returnable
+const ACTIVE_RETURN_STATUSES = ['REQUESTED', 'APPROVED', 'RECEIVED', 'REFUNDED'] as const;
+
+const returnInclude = {
+  order: { select: { orderNumber: true } },
+  orderItem: { select: { product: { select: { id: true, name: true } } } },
+};
+
+/**
+ * Open a return request for a delivered order item
+ */
+export async function createReturn(
+  userId: string,
+  data: CreateReturnRequest
+): Promise<ReturnResponse> {
+  const orderItem = await prisma.orderItem.findUnique({
+    where: { id: data.orderItemId },
+    include: { order: { select: { userId: true } } },
+  });
+
+  if (!orderItem) {
+    throw new Error('Order item not found');
+  }
+
+  if (orderItem.order.userId !== userId) {
+    throw new Error('Unauthorized: You do not own this order');
+  }
+
+  if (orderItem.status !== 'DELIVERED' || !orderItem.deliveredAt) {
+    throw new Error('Only delivered items can be returned');
+  }
+
+  const windowEnds = new Date(
+    orderItem.deliveredAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+  if (new Date() > windowEnds) {
+    throw new Error(`Return window of ${RETURN_WINDOW_DAYS} days after delivery has closed`);
+  }
+
+  if (data.quantity !== undefined && data.quantity > orderItem.quantity) {
+    throw new Error(`Cannot return more than the ${orderItem.quantity} unit(s) ordered`);
+  }
+
+  const evidence = data.evidence ?? [];
+  const evidencePrefix = `${CloudinaryFolders.RETURN_EVIDENCE}/${userId}/`;
+  if (evidence.some((publicId) => !publicId.startsWith(evidencePrefix))) {
+    throw new Error('Evidence must be uploaded through /api/upload/return/evidence');
+  }
+
+  if (EVIDENCE_REQUIRED_REASONS.includes(data.reason) && evidence.length === 0) {
+    throw new Error('At least one photo is required for this return reason');
+  }
+
+  const returnRequest = await prisma.$transaction(async (tx) => {
+    // Serialize requests for the same item so two cannot both claim the remaining units
+    await tx.$executeRaw`SELECT 1 FROM "order_items" WHERE "id" = ${orderItem.id} FOR UPDATE`;
+
+    // Units already covered by earlier returns (a partial return leaves the rest returnable)
+    const returned = await tx.returnRequest.aggregate({
+      where: {
+        orderItemId: orderItem.id,
+        status: { in: [...ACTIVE_RETURN_STATUSES] },
+      },
+      _sum: { quantity: true },
+    });
+    const returnable = orderItem.quantity - (returned._sum.quantity ?? 0);
+
+    if (returnable <= 0) {
+      throw new Error('A return request already exists for every unit of this item');
+    }
+
+    const quantity = data.quantity ?? returnable;
+    if (quantity > returnable) {
+      throw new Error(`Only ${returnable} more unit(s) of this item can be returned`);
+    }
+
+    return tx.returnRequest.create({
+      data: {
+        orderId: orderItem.orderId,
+        orderItemId: orderItem.id,
+        userId,
+        shopId: orderItem.shopId,
+        quantity,
+        reason: data.reason,
+        description: data.description ?? null,
+        evidence,
+      },
+      include: returnInclude,
+    });
+  });
+
+  return mapReturnToResponse(returnRequest);
+}
+
+/**
+ * Get the customer's return requests
+ */
+export async function getUserReturns(
+  userId: string,
+  filters: ReturnFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedReturnsResponse> {
+  const where: any = { userId };
+  if (filters.status) {
+    where.status = filters.status;
+  }
+
+  return paginateReturns(where, page, limit);
+}
+
+/**
+ * Get a return request as its customer
+ */
+export async function getUserReturnById(
+  userId: string,
+  returnId: string
+): Promise<ReturnResponse | null> {
+  const returnRequest = await prisma.returnRequest.findFirst({
+    where: { id: returnId, userId },
+    include: returnInclude,
+  });
+
+  return returnRequest ? mapReturnToResponse(returnRequest) : null;
+}
+
+/**
+ * Withdraw a return request that has not been reviewed yet
+ */
+export async function cancelReturn(userId: string, returnId: string): Promise<ReturnResponse> {
+  const returnRequest = await prisma.returnRequest.findFirst({
+    where: { id: returnId, userId },
+  });
+
+  if (!returnRequest) {
+    throw new Error('Return request not found');
+  }
+
+  if (returnRequest.status !== 'REQUESTED') {
+    throw new Error(`Cannot cancel a return that is ${returnRequest.status.toLowerCase()}`);
+  }
+
+  const updated = await prisma.returnRequest.update({
+    where: { id: returnId },
+    data: { status: 'CANCELLED' },
+    include: returnInclude,
+  });
+
+  return mapReturnToResponse(updated);
+}
+
+/**
+ * Get return requests for the vendor's shops
+ */
+export async function getVendorReturns(
+  vendorId: string,
+  filters: ReturnFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedReturnsResponse> {
+  const where: any = { shop: { vendorId } };
+  if (filters.status) {
+    where.status = filters.status;
+  }
+  if (filters.shopId) {
+    where.shopId = filters.shopId;
+  }
+
+  return paginateReturns(where, page, limit);
+}
+
+/**
+ * Get a return request for one of the vendor's shops
+ */
+export async function getVendorReturnById(
+  vendorId: string,
+  returnId: string
+): Promise<ReturnResponse | null> {
+  const returnRequest = await prisma.returnRequest.findFirst({
+    where: { id: returnId, shop: { vendorId } },
+    include: returnInclude,
+  });
+
+  return returnRequest ? mapReturnToResponse(returnRequest) : null;
+}
+
+/**
+ * Approve a return request (the customer can now send the item back)
+ */
+export async function approveReturn(
+  vendorId: string,
+  returnId: string,
+  data: ApproveReturnRequest
+): Promise<ReturnResponse> {
+  await getVendorReturnForUpdate(vendorId, returnId, 'REQUESTED');
+
+  const updated = await prisma.returnRequest.update({
+    where: { id: returnId },
+    data: {
+      status: 'APPROVED',
+      vendorNote: data.note ?? null,
+      approvedAt: new Date(),
+    },
+    include: returnInclude,
+  });
+
+  return mapReturnToResponse(updated);
+}
+
+/**
+ * Reject a return request
+ */
+export async function rejectReturn(
+  vendorId: string,
+  returnId: string,
+  data: RejectReturnRequest
+): Promise<ReturnResponse> {
+  await getVendorReturnForUpdate(vendorId, returnId, 'REQUESTED');
+
+  const updated = await prisma.returnRequest.update({
+    where: { id: returnId },
+    data: {
+      status: 'REJECTED',
+      rejectionReason: data.reason,
+      rejectedAt: new Date(),
+    },
+    include: returnInclude,
+  });
+
+  return mapReturnToResponse(updated);
+}
+
+/**
+ * Mark a returned item as received, restocking it unless told otherwise.
+ * The order item becomes RETURNED once all of its units are back.
+ */
+export async function receiveReturn(
+  vendorId: string,
+  vendorUserId: string,
+  returnId: string,
+  data: ReceiveReturnRequest
+): Promise<ReturnResponse> {
+  const returnRequest = await getVendorReturnForUpdate(vendorId, returnId, 'APPROVED');
+  const orderItem = returnRequest.orderItem;
+  const restock = data.restock ?? true;
+
+  // Units already back from earlier partial returns of the same item
+  const received = await prisma.returnRequest.aggregate({
+    where: {
+      orderItemId: orderItem.id,
+      id: { not: returnId },
+      status: { in: ['RECEIVED', 'REFUNDED'] },
+    },
+    _sum: { quantity: true },
+  });
+  const returnsWholeLine =
+    (received._sum.quantity ?? 0) + returnRequest.quantity >= orderItem.quantity;
+  const actor: OrderActor = { userId: vendorUserId, role: 'VENDOR' };
+
+  if (returnsWholeLine) {
+    assertOrderItemTransition(orderItem.status, 'RETURNED', actor.role);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await claimReturnStatus(tx, returnId, 'APPROVED', 'RECEIVED');
+
+    if (restock) {
+      await releaseStock(tx, [
+        {
+          productId: orderItem.productId,
+          variantId: orderItem.variantId,
+          quantity: returnRequest.quantity,
+        },
+      ]);
+    }
+
+    if (returnsWholeLine) {
+      await tx.orderItem.update({
+        where: { id: orderItem.id },
+        data: { status: 'RETURNED' },
+      });
+
+      await recordOrderEvents(tx, actor, [
+        {
+          orderId: returnRequest.orderId,
+          orderItemId: orderItem.id,
+          type: 'ITEM_STATUS',
+          fromValue: orderItem.status,
+          toValue: 'RETURNED',
+          note: data.note ?? `Return ${returnRequest.id} received`,
+        },
+      ]);
+
+      await syncOrderStatus(tx, returnRequest.orderId, actor, data.note);
+    }
+
+    return tx.returnRequest.update({
+      where: { id: returnId },
+      data: {
+        restocked: restock,
+        receivedAt: new Date(),
+        ...(data.note !== undefined ? { vendorNote: data.note } : {}),
+      },
+      include: returnInclude,
+    });
+  });
+
+  return mapReturnToResponse(updated);
+}
+
+/**
+ * Record the refund for a received return against its order.
+ * Defaults to the item's paid amount for the returned quantity.
+ */
+export async function refundReturn(
+  vendorId: string,
+  vendorUserId: string,
+  returnId: string,
+  data: RefundReturnRequest
+): Promise<ReturnResponse> {
+  const returnRequest = await getVendorReturnForUpdate(vendorId, returnId, 'RECEIVED');
+  const orderItem = returnRequest.orderItem;
+
+  // What the customer paid for the returned units, after the line's coupon share
+  const paidPerUnit = (orderItem.totalPrice - orderItem.couponDiscount) / orderItem.quantity;
+  const maxRefund = paidPerUnit * returnRequest.quantity;
+  const amount = roundAmount(data.amount ?? maxRefund);
+
+  if (amount <= 0) {
+    throw new Error('Refund amount must be greater than zero');
+  }
+
+  if (amount > roundAmount(maxRefund)) {
+    throw new Error(`Refund cannot exceed ${roundAmount(maxRefund)} for this return`);
+  }
+
+  const actor: OrderActor = { userId: vendorUserId, role: 'VENDOR' };
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Lock the order so concurrent refunds see each other's amounts
+    await tx.$executeRaw`SELECT 1 FROM "orders" WHERE "id" = ${returnRequest.orderId} FOR UPDATE`;
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: returnRequest.orderId },
+      select: { id: true, totalAmount: true, refundedAmount: true, paymentStatus: true },
+    });
+
+    const refundedAmount = roundAmount(order.refundedAmount + amount);
+    if (refundedAmount > roundAmount(order.totalAmount)) {
+      throw new Error('Refund would exceed the order total');
+    }
+
+    const fullyRefunded = refundedAmount >= roundAmount(order.totalAmount);
+
+    await claimReturnStatus(tx, returnId, 'RECEIVED', 'REFUNDED');
+
+    await tx.order.update({
+      where: { id: order.id },
+      data: {
+        refundedAmount: { increment: amount },
+        ...(fullyRefunded ? { paymentStatus: 'REFUNDED' as const } : {}),
+      },
+    });
+
+    await recordOrderEvents(tx, actor, [
+      {
+        orderId: order.id,
+        orderItemId: orderItem.id,
+        type: 'PAYMENT_STATUS',
+        fromValue: order.paymentStatus,
+        toValue: fullyRefunded ? 'REFUNDED' : order.paymentStatus,
+        note: data.note ?? `Refunded ${amount} for return ${returnRequest.id}`,
+      },
+    ]);
+
+    await debitRefund(tx, returnRequest, amount);
+
+    return tx.returnRequest.update({
+      where: { id: returnId },
+      data: {
+        refundAmount: amount,
+        refundedAt: new Date(),
+      },
+      include: returnInclude,
+    });
+  });
+
+  return mapReturnToResponse(updated);
+}
+
+// Helper to load a vendor's return in the expected status
+async function getVendorReturnForUpdate(
+  vendorId: string,
+  returnId: string,
+  expectedStatus: 'REQUESTED' | 'APPROVED' | 'RECEIVED'
+) {
+  const returnRequest = await prisma.returnRequest.findFirst({
+    where: { id: returnId },
+    include: {
+      shop: { select: { vendorId: true } },
+      orderItem: true,
+    },
+  });
+
+  if (!returnRequest) {
+    throw new Error('Return request not found');
+  }
+
+  if (returnRequest.shop.vendorId !== vendorId) {
+    throw new Error('Unauthorized: You do not own this shop');
+  }
+
+  if (returnRequest.status !== expectedStatus) {
+    throw new Error(
+      `Return is ${returnRequest.status.toLowerCase()}, expected ${expectedStatus.toLowerCase()}`
+    );
+  }
+
+  return returnRequest;
+}
+
+// Move a return to its next status, failing if another request got there first
+async function claimReturnStatus(
+  tx: Prisma.TransactionClient,
+  returnId: string,
+  from: ReturnStatus,
+  to: ReturnStatus
+): Promise<void> {
+  const result = await tx.returnRequest.updateMany({
+    where: { id: returnId, status: from },
+    data: { status: to },
+  });
+
+  if (result.count === 0) {
+    throw new Error('Return request was updated by another request, please retry');
+  }
+}
+
+// Helper to paginate return requests
+async function paginateReturns(
+  where: any,
+  page: number,
+  limit: number
+): Promise<PaginatedReturnsResponse> {
+  const [returns, total] = await Promise.all([
+    prisma.returnRequest.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: returnInclude,
+    }),
+    prisma.returnRequest.count({ where }),
+  ]);
+
+  return {
+    returns: returns.map(mapReturnToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Helper to map Prisma result to response type
+function mapReturnToResponse(returnRequest: any): ReturnResponse {
+  return {
+    id: returnRequest.id,
+    orderId: returnRequest.orderId,
+    orderNumber: returnRequest.order.orderNumber,
+    orderItemId: returnRequest.orderItemId,
+    shopId: returnRequest.shopId,
+    product: returnRequest.orderItem.product,
+    quantity: returnRequest.quantity,
+    reason: returnRequest.reason,
+    description: returnRequest.description,
+    evidence: returnRequest.evidence.map((value: string) => {
+      const { publicId, resourceType } = parseAssetReference(value);
+      return generatePrivateUrl(publicId, EVIDENCE_URL_TTL_SECONDS, resourceType);
+    }),
+    status: returnRequest.status,
+    vendorNote: returnRequest.vendorNote,
+    rejectionReason: returnRequest.rejectionReason,
+    restocked: returnRequest.restocked,
+    refundAmount: returnRequest.refundAmount,
+    approvedAt: returnRequest.approvedAt,
+    rejectedAt: returnRequest.rejectedAt,
+    receivedAt: returnRequest.receivedAt,
+    refundedAt: returnRequest.refundedAt,
+    createdAt: returnRequest.createdAt,
+    updatedAt: returnRequest.updatedAt,
+  };
+}
@@ -1,14 +1,44 @@
 import { prisma } from '../../lib/prisma.ts';
+import { Prisma } from '../../prisma/generated/client.ts';
 import type {
   CreateReviewRequest,
   UpdateReviewRequest,
+  ReportReviewRequest,
+  ReviewReplyRequest,
+  ModerateReviewRequest,
+  AdminReviewFilters,
+  ReviewSort,
   ReviewResponse,
+  AdminReviewResponse,
   ReviewSummary,
   PaginatedReviewsResponse,
+  PaginatedAdminReviewsResponse,
 } from '../types/review.types.ts';
 
 /**
- * Create a product review (buyer only, must have delivered order item)
+ * Reviews shown on the storefront: published by a moderator and written by
+ * a user who is not suspended
+ */
+export const publishedReviewWhere = {
+  status: 'PUBLISHED',
+  user: { status: { not: 'SUSPENDED' } },
+} as const;
+
+const REVIEW_ORDER_BY: Record<ReviewSort, Prisma.ProductReviewOrderByWithRelationInput[]> = {
+  most_helpful: [{ helpfulCount: 'desc' }, { createdAt: 'desc' }],
+  newest: [{ createdAt: 'desc' }],
+  highest_rating: [{ rating: 'desc' }, { createdAt: 'desc' }],
+  lowest_rating: [{ rating: 'asc' }, { createdAt: 'desc' }],
+};
+
+const reviewInclude = {
+  user: { select: { id: true, name: true, email: true } },
+  product: { select: { id: true, name: true } },
+};
+
+/**
+ * Create a product review (buyer only, must have delivered order item).
+ * The review waits for moderation before it is shown.
  */
 export async function createReview(
   userId: string,
@@ -65,17 +95,14 @@ export async function createReview(
       comment: data.comment ?? null,
       isVerifiedPurchase: true,
     },
-    include: {
-      user: { select: { id: true, name: true, email: true } },
-      product: { select: { id: true, name: true } },
-    },
+    include: reviewInclude,
   });
 
   return mapReviewToResponse(review);
 }
 
 /**
- * Update a review (owner only)
+ * Update a review (owner only). An edited review goes back to moderation.
  */
 export async function updateReview(
   reviewId: string,
@@ -94,17 +121,15 @@ export async function updateReview(
     throw new Error('Unauthorized: You can only edit your own reviews');
   }
 
-  const updateData: { rating?: number; comment?: string | null } = {};
+  const updateData: Prisma.ProductReviewUpdateInput = {};
   if (data.rating !== undefined) updateData.rating = data.rating;
   if (data.comment !== undefined) updateData.comment = data.comment ?? null;
+  if (data.rating !== undefined || data.comment !== undefined) updateData.status = 'PENDING';
 
   const updatedReview = await prisma.productReview.update({
     where: { id: reviewId },
     data: updateData,
-    include: {
-      user: { select: { id: true, name: true, email: true } },
-      product: { select: { id: true, name: true } },
-    },
+    include: reviewInclude,
   });
 
   return mapReviewToResponse(updatedReview);
@@ -135,27 +160,26 @@ export async function deleteReview(
 }
 
 /**
- * Get reviews for a product (public, paginated)
+ * Get published reviews for a product (public, sorted, paginated)
  */
 export async function getProductReviews(
   productId: string,
+  sort: ReviewSort = 'newest',
   page: number = 1,
   limit: number = 10
 ): Promise<PaginatedReviewsResponse> {
   const skip = (page - 1) * limit;
+  const where = { productId, ...publishedReviewWhere };
 
   const [reviews, total] = await Promise.all([
     prisma.productReview.findMany({
-      where: { productId },
+      where,
       skip,
       take: limit,
-      orderBy: { createdAt: 'desc' },
-      include: {
-        user: { select: { id: true, name: true, email: true } },
-        product: { select: { id: true, name: true } },
-      },
+      orderBy: REVIEW_ORDER_BY[sort],
+      include: reviewInclude,
     }),
-    prisma.productReview.count({ where: { productId } }),
+    prisma.productReview.count({ where }),
   ]);
 
   return {
@@ -168,13 +192,13 @@ export async function getProductReviews(
 }
 
 /**
- * Get review summary for a product (avgRating, count)
+ * Get review summary for a product (avgRating, count of published reviews)
  */
 export async function getProductReviewSummary(
   productId: string
 ): Promise<ReviewSummary> {
   const aggregation = await prisma.productReview.aggregate({
-    where: { productId },
+    where: { productId, ...publishedReviewWhere },
     _avg: { rating: true },
     _count: { id: true },
   });
@@ -187,15 +211,12 @@ export async function getProductReviewSummary(
 }
 
 /**
- * Get a single review by ID
+ * Get a single published review by ID
  */
 export async function getReviewById(reviewId: string): Promise<ReviewResponse | null> {
-  const review = await prisma.productReview.findUnique({
-    where: { id: reviewId },
-    include: {
-      user: { select: { id: true, name: true, email: true } },
-      product: { select: { id: true, name: true } },
-    },
+  const review = await prisma.productReview.findFirst({
+    where: { id: reviewId, ...publishedReviewWhere },
+    include: reviewInclude,
   });
 
   if (!review) return null;
@@ -203,7 +224,7 @@ export async function getReviewById(reviewId: string): Promise<ReviewResponse |
 }
 
 /**
- * Get user's reviews
+ * Get user's reviews, whatever their moderation status
  */
 export async function getUserReviews(
   userId: string,
@@ -218,10 +239,7 @@ export async function getUserReviews(
       skip,
       take: limit,
       orderBy: { createdAt: 'desc' },
-      include: {
-        user: { select: { id: true, name: true, email: true } },
-        product: { select: { id: true, name: true } },
-      },
+      include: reviewInclude,
     }),
     prisma.productReview.count({ where: { userId } }),
   ]);
@@ -235,6 +253,235 @@ export async function getUserReviews(
   };
 }
 
+/**
+ * Report a review for abuse (once per user)
+ */
+export async function reportReview(
+  userId: string,
+  reviewId: string,
+  data: ReportReviewRequest
+): Promise<void> {
+  const review = await prisma.productReview.findFirst({
+    where: { id: reviewId, ...publishedReviewWhere },
+    select: { userId: true },
+  });
+
+  if (!review) {
+    throw new Error('Review not found');
+  }
+
+  if (review.userId === userId) {
+    throw new Error('You cannot report your own review');
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.reviewReport.create({
+        data: { reviewId, userId, reason: data.reason, details: data.details ?? null },
+      }),
+      prisma.productReview.update({
+        where: { id: reviewId },
+        data: { reportCount: { increment: 1 } },
+      }),
+    ]);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('You have already reported this review');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Vote a review as helpful (once per user; voting again is a no-op)
+ */
+export async function markReviewHelpful(userId: string, reviewId: string): Promise<ReviewResponse> {
+  const review = await prisma.productReview.findFirst({
+    where: { id: reviewId, ...publishedReviewWhere },
+    include: { helpfulVotes: { where: { userId }, select: { userId: true } } },
+  });
+
+  if (!review) {
+    throw new Error('Review not found');
+  }
+
+  if (review.userId === userId) {
+    throw new Error('You cannot vote on your own review');
+  }
+
+  if (review.helpfulVotes.length === 0) {
+    try {
+      await prisma.$transaction([
+        prisma.reviewHelpfulVote.create({ data: { reviewId, userId } }),
+        prisma.productReview.update({
+          where: { id: reviewId },
+          data: { helpfulCount: { increment: 1 } },
+        }),
+      ]);
+    } catch (error) {
+      // A concurrent vote by the same user already counted
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+  }
+
+  return getReviewOrThrow(reviewId);
+}
+
+/**
+ * Take back a helpful vote
+ */
+export async function removeHelpfulVote(userId: string, reviewId: string): Promise<ReviewResponse> {
+  await prisma.$transaction(async (tx) => {
+    const removed = await tx.reviewHelpfulVote.deleteMany({
+      where: { reviewId, userId },
+    });
+
+    if (removed.count > 0) {
+      await tx.productReview.update({
+        where: { id: reviewId },
+        data: { helpfulCount: { decrement: 1 } },
+      });
+    }
+  });
+
+  return getReviewOrThrow(reviewId);
+}
+
+/**
+ * Post or edit the vendor's public reply to a review of their product
+ */
+export async function replyToReview(
+  productId: string,
+  reviewId: string,
+  data: ReviewReplyRequest
+): Promise<ReviewResponse> {
+  const review = await prisma.productReview.findUnique({
+    where: { id: reviewId },
+    select: { productId: true, status: true },
+  });
+
+  if (!review || review.productId !== productId) {
+    throw new Error('Review not found');
+  }
+
+  if (review.status === 'HIDDEN') {
+    throw new Error('Cannot reply to a hidden review');
+  }
+
+  const updated = await prisma.productReview.update({
+    where: { id: reviewId },
+    data: { vendorReply: data.body, vendorRepliedAt: new Date() },
+    include: reviewInclude,
+  });
+
+  return mapReviewToResponse(updated);
+}
+
+/**
+ * Remove the vendor's reply to a review
+ */
+export async function deleteReviewReply(productId: string, reviewId: string): Promise<ReviewResponse> {
+  const review = await prisma.productReview.findUnique({
+    where: { id: reviewId },
+    select: { productId: true },
+  });
+
+  if (!review || review.productId !== productId) {
+    throw new Error('Review not found');
+  }
+
+  const updated = await prisma.productReview.update({
+    where: { id: reviewId },
+    data: { vendorReply: null, vendorRepliedAt: null },
+    include: reviewInclude,
+  });
+
+  return mapReviewToResponse(updated);
+}
+
+/**
+ * List reviews for moderation (admin). Reported reviews come first, then
+ * the oldest.
+ */
+export async function getReviewsForModeration(
+  filters: AdminReviewFilters,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedAdminReviewsResponse> {
+  const skip = (page - 1) * limit;
+
+  const where: Prisma.ProductReviewWhereInput = {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.reported && { reportCount: { gt: 0 } }),
+    ...(filters.productId && { productId: filters.productId }),
+  };
+
+  const [reviews, total] = await Promise.all([
+    prisma.productReview.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ reportCount: 'desc' }, { createdAt: 'asc' }],
+      include: { ...reviewInclude, reports: { orderBy: { createdAt: 'asc' } } },
+    }),
+    prisma.productReview.count({ where }),
+  ]);
+
+  return {
+    reviews: reviews.map(mapAdminReviewToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Publish, hide or send back a review (admin). Its open reports are
+ * resolved by the decision.
+ */
+export async function moderateReview(
+  reviewId: string,
+  data: ModerateReviewRequest
+): Promise<AdminReviewResponse> {
+  const existing = await prisma.productReview.findUnique({
+    where: { id: reviewId },
+  });
+
+  if (!existing) {
+    throw new Error('Review not found');
+  }
+
+  const [, review] = await prisma.$transaction([
+    prisma.reviewReport.deleteMany({ where: { reviewId } }),
+    prisma.productReview.update({
+      where: { id: reviewId },
+      data: {
+        status: data.status,
+        moderationNote: data.note ?? null,
+        moderatedAt: new Date(),
+        reportCount: 0,
+      },
+      include: { ...reviewInclude, reports: true },
+    }),
+  ]);
+
+  return mapAdminReviewToResponse(review);
+}
+
+// Helper to load a single published review for a response
+async function getReviewOrThrow(reviewId: string): Promise<ReviewResponse> {
+  const review = await getReviewById(reviewId);
+
+  if (!review) {
+    throw new Error('Review not found');
+  }
+
+  return review;
+}
+
 // Helper to map Prisma result to response type
 function mapReviewToResponse(review: any): ReviewResponse {
   return {
@@ -246,6 +493,14 @@ function mapReviewToResponse(review: any): ReviewResponse {
     rating: review.rating,
     comment: review.comment,
     isVerifiedPurchase: review.isVerifiedPurchase,
+    status: review.status,
+    helpfulCount: review.helpfulCount,
+    vendorReply: review.vendorReply
+      ? {
+          body: review.vendorReply,
+          repliedAt: review.vendorRepliedAt,
+        }
+      : null,
     createdAt: review.createdAt,
     updatedAt: review.updatedAt,
     user: review.user
@@ -262,3 +517,20 @@ function mapReviewToResponse(review: any): ReviewResponse {
       : undefined,
   };
 }
+
+// Helper to map Prisma result to the moderation view
+function mapAdminReviewToResponse(review: any): AdminReviewResponse {
+  return {
+    ...mapReviewToResponse(review),
+    moderationNote: review.moderationNote,
+    moderatedAt: review.moderatedAt,
+    reportCount: review.reportCount,
+    reports: review.reports.map((report: any) => ({
+      id: report.id,
+      userId: report.userId,
+      reason: report.reason,
+      details: report.details,
+      createdAt: report.createdAt,
+    })),
+  };
+}
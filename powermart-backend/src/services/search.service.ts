@@ -0,0 +1,123 @@
+import { prisma } from '../../lib/prisma.ts';
+import { Prisma } from '../../prisma/generated/client.ts';
+import {
+  CATALOG_FROM_SQL,
+  CATALOG_ORDER_BY_SQL,
+  buildCatalogConditions,
+  loadCatalogProducts,
+} from './catalog.service.ts';
+import {
+  FUZZY_MATCH_THRESHOLD,
+  buildPrefixTsQuery,
+  getSearchTerms,
+} from '../utils/search.util.ts';
+import type {
+  CatalogFilters,
+  PaginatedCatalogSearchResponse,
+} from '../types/catalog.types.ts';
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+const SNIPPET_OPTIONS = `${HEADLINE_OPTIONS}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * Search storefront products across all shops.
+ *
+ * Matches the English (stemmed) form of the query and a prefix match on every
+ * term with its Roman Urdu spelling variants, falling back to trigram
+ * similarity on the product name so misspelt queries still find results.
+ * Results are ordered by relevance unless a catalog sort is given.
+ */
+export async function searchCatalogProducts(
+  query: string,
+  filters: CatalogFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedCatalogSearchResponse> {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    throw new Error('Search query must contain letters or numbers');
+  }
+
+  const text = terms.join(' ');
+  const tsQuerySql = Prisma.sql`(
+    websearch_to_tsquery('english', ${text}) || to_tsquery('simple', ${buildPrefixTsQuery(terms)})
+  )`;
+
+  const conditions = await buildCatalogConditions(filters);
+  conditions.push(Prisma.sql`(
+    p."searchVector" @@ search.tsq
+    OR ${text} <% p."name"
+  )`);
+  const whereSql = Prisma.join(conditions, ' AND ');
+
+  const rankSql = Prisma.sql`(
+    ts_rank_cd(COALESCE(p."searchVector", ''::tsvector), search.tsq, 32)
+    + word_similarity(${text}, p."name") * 0.5
+  )`;
+  const orderBySql = filters.sort
+    ? CATALOG_ORDER_BY_SQL[filters.sort]
+    : Prisma.sql`rank DESC, p."createdAt" DESC`;
+
+  const fromSql = Prisma.sql`${CATALOG_FROM_SQL} CROSS JOIN (SELECT ${tsQuerySql} AS tsq) search`;
+
+  // `<%` (unlike word_similarity() >= x) can use the trigram index on the
+  // name; its threshold is a setting, scoped here to the transaction
+  const [rows, countRows] = await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SET LOCAL pg_trgm.word_similarity_threshold = ${Prisma.raw(String(FUZZY_MATCH_THRESHOLD))}`;
+
+    const pageRows = await tx.$queryRaw<{ id: string; rank: number }[]>`
+      SELECT p."id", ${rankSql}::float AS rank
+      ${fromSql}
+      WHERE ${whereSql}
+      ORDER BY ${orderBySql}
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+    const count = await tx.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS total
+      ${fromSql}
+      WHERE ${whereSql}
+    `;
+
+    return [pageRows, count] as const;
+  });
+
+  const total = countRows[0]?.total ?? 0;
+  const productIds = rows.map((row) => row.id);
+
+  // Headlines are only generated for the current page, ts_headline is costly
+  const [products, highlights] = await Promise.all([
+    loadCatalogProducts(productIds),
+    productIds.length === 0
+      ? Promise.resolve([])
+      : prisma.$queryRaw<{ id: string; name: string; snippet: string | null }[]>`
+          SELECT
+            p."id",
+            ts_headline('english', p."name", search.tsq, ${HEADLINE_OPTIONS}) AS name,
+            CASE WHEN p."description" IS NULL THEN NULL
+              ELSE ts_headline('english', p."description", search.tsq, ${SNIPPET_OPTIONS})
+            END AS snippet
+          FROM "products" p
+          CROSS JOIN (SELECT ${tsQuerySql} AS tsq) search
+          WHERE p."id" IN (${Prisma.join(productIds)})
+        `,
+  ]);
+
+  const rankMap = new Map(rows.map((row) => [row.id, row.rank]));
+  const highlightMap = new Map(highlights.map((row) => [row.id, row]));
+
+  return {
+    query: text,
+    products: products.map((product) => ({
+      ...product,
+      rank: rankMap.get(product.id) ?? 0,
+      highlight: {
+        name: highlightMap.get(product.id)?.name ?? product.name,
+        snippet: highlightMap.get(product.id)?.snippet ?? null,
+      },
+    })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
@@ -0,0 +1,621 @@
+import { prisma } from '../../lib/prisma.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type { LedgerTransactionType } from '../../prisma/generated/enums.ts';
+import type {
+  LedgerPosting,
+  GeneratePayoutBatchRequest,
+  GeneratePayoutBatchResponse,
+  PaginatedPayoutBatchesResponse,
+  PayoutBatchResponse,
+  SettlementStatementResponse,
+  SkippedPayoutResponse,
+  StatementFilters,
+} from '../types/settlement.types.ts';
+import { FALLBACK_COMMISSION_RATE, calculateCommission } from './commission.service.ts';
+
+// Sale credits are held until customers can no longer open a return
+const SETTLEMENT_HOLD_DAYS = parseInt(
+  process.env.SETTLEMENT_HOLD_DAYS ?? process.env.RETURN_WINDOW_DAYS ?? '7',
+  10
+);
+
+// Vendors owed less than this are left for the next payout run
+const PAYOUT_MIN_AMOUNT = parseFloat(process.env.PAYOUT_MIN_AMOUNT ?? '1000');
+
+// Returns that keep the item's sale credit on hold
+const OPEN_RETURN_STATUSES = ['REQUESTED', 'APPROVED', 'RECEIVED'] as const;
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Post a balanced ledger transaction. Posting is idempotent per reference:
+ * returns false if the reference was already posted.
+ */
+async function postLedgerTransaction(
+  tx: Prisma.TransactionClient,
+  data: {
+    type: LedgerTransactionType;
+    reference: string;
+    description: string;
+    orderItemId?: string;
+    shipmentId?: string;
+    returnRequestId?: string;
+    payoutItemId?: string;
+  },
+  postings: LedgerPosting[]
+): Promise<boolean> {
+  const imbalance = roundAmount(postings.reduce((sum, posting) => sum + posting.amount, 0));
+  if (imbalance !== 0) {
+    throw new Error(`Unbalanced ledger transaction ${data.reference} (${imbalance})`);
+  }
+
+  const existing = await tx.ledgerTransaction.findUnique({
+    where: { reference: data.reference },
+    select: { id: true },
+  });
+  if (existing) {
+    return false;
+  }
+
+  await tx.ledgerTransaction.create({
+    data: {
+      type: data.type,
+      reference: data.reference,
+      description: data.description,
+      orderItemId: data.orderItemId ?? null,
+      shipmentId: data.shipmentId ?? null,
+      returnRequestId: data.returnRequestId ?? null,
+      payoutItemId: data.payoutItemId ?? null,
+      entries: {
+        create: postings
+          .filter((posting) => posting.amount !== 0)
+          .map((posting) => ({
+            account: posting.account,
+            shopId: posting.shopId ?? null,
+            amount: roundAmount(posting.amount),
+            ...(posting.availableAt ? { availableAt: posting.availableAt } : {}),
+          })),
+      },
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Credit shops for delivered order items, net of the commission
+ * snapshotted on each item when the order was placed, and for the shipping
+ * fee of their shipments (which is not commissioned).
+ * A line's coupon discount is borne by the shop for shop coupons and by
+ * the platform for every other coupon.
+ * The shop's share becomes available once the hold period has passed.
+ */
+export async function creditDeliveredItems(
+  tx: Prisma.TransactionClient,
+  orderItemIds: string[]
+): Promise<void> {
+  const items = await tx.orderItem.findMany({
+    where: { id: { in: orderItemIds }, status: 'DELIVERED' },
+    include: { order: { select: { orderNumber: true, coupon: { select: { scope: true } } } } },
+  });
+
+  const releaseAt = (deliveredAt: Date) =>
+    new Date(deliveredAt.getTime() + SETTLEMENT_HOLD_DAYS * 24 * 60 * 60 * 1000);
+
+  for (const item of items) {
+    const deliveredAt = item.deliveredAt ?? new Date();
+    // Items ordered before commission snapshots existed use the flat rate
+    const commission =
+      item.commissionAmount ??
+      calculateCommission(item.unitPrice * item.quantity, FALLBACK_COMMISSION_RATE);
+    const shopDiscount = item.order.coupon?.scope === 'SHOP' ? item.couponDiscount : 0;
+    const platformDiscount = item.couponDiscount - shopDiscount;
+
+    await postLedgerTransaction(
+      tx,
+      {
+        type: 'SALE',
+        reference: `sale:${item.id}`,
+        description: `Sale on order ${item.order.orderNumber}`,
+        orderItemId: item.id,
+      },
+      [
+        { account: 'CUSTOMER_FUNDS', amount: -(item.totalPrice - item.couponDiscount) },
+        {
+          account: 'SHOP_PAYABLE',
+          shopId: item.shopId,
+          amount: item.totalPrice - commission - shopDiscount,
+          availableAt: releaseAt(deliveredAt),
+        },
+        { account: 'PLATFORM_REVENUE', amount: commission - platformDiscount },
+      ]
+    );
+  }
+
+  // Posted once per shipment, with its first delivered item
+  const shipmentIds = [
+    ...new Set(items.map((item) => item.shipmentId).filter((id): id is string => id !== null)),
+  ];
+  const shipments = await tx.shipment.findMany({
+    where: { id: { in: shipmentIds }, shippingFee: { gt: 0 } },
+    include: { order: { select: { orderNumber: true } } },
+  });
+
+  for (const shipment of shipments) {
+    await postLedgerTransaction(
+      tx,
+      {
+        type: 'SALE',
+        reference: `shipping:${shipment.id}`,
+        description: `Shipping on order ${shipment.order.orderNumber}`,
+        shipmentId: shipment.id,
+      },
+      [
+        { account: 'CUSTOMER_FUNDS', amount: -shipment.shippingFee },
+        {
+          account: 'SHOP_PAYABLE',
+          shopId: shipment.shopId,
+          amount: shipment.shippingFee,
+          availableAt: releaseAt(shipment.deliveredAt ?? new Date()),
+        },
+      ]
+    );
+  }
+}
+
+/**
+ * Debit a shop for a refunded return. The platform gives back the same
+ * share of what it kept on the sale (commission less any coupon it funded).
+ */
+export async function debitRefund(
+  tx: Prisma.TransactionClient,
+  returnRequest: { id: string; orderItemId: string; shopId: string },
+  amount: number
+): Promise<void> {
+  const sale = await tx.ledgerTransaction.findUnique({
+    where: { reference: `sale:${returnRequest.orderItemId}` },
+    include: { entries: true },
+  });
+
+  // Items delivered before the ledger existed were never credited
+  if (!sale) {
+    return;
+  }
+
+  const gross = -(sale.entries.find((entry) => entry.account === 'CUSTOMER_FUNDS')?.amount ?? 0);
+  const commission =
+    sale.entries.find((entry) => entry.account === 'PLATFORM_REVENUE')?.amount ?? 0;
+  const commissionShare = gross > 0 ? roundAmount((amount * commission) / gross) : 0;
+
+  await postLedgerTransaction(
+    tx,
+    {
+      type: 'REFUND',
+      reference: `refund:${returnRequest.id}`,
+      description: `Refund for return ${returnRequest.id}`,
+      orderItemId: returnRequest.orderItemId,
+      returnRequestId: returnRequest.id,
+    },
+    [
+      { account: 'SHOP_PAYABLE', shopId: returnRequest.shopId, amount: -(amount - commissionShare) },
+      { account: 'PLATFORM_REVENUE', amount: -commissionShare },
+      { account: 'CUSTOMER_FUNDS', amount },
+    ]
+  );
+}
+
+// Shop payable entries that can be paid out now
+function availableEntryWhere(now: Date): Prisma.LedgerEntryWhereInput {
+  return {
+    account: 'SHOP_PAYABLE',
+    availableAt: { lte: now },
+    NOT: {
+      transaction: {
+        type: 'SALE',
+        orderItem: { returnRequests: { some: { status: { in: [...OPEN_RETURN_STATUSES] } } } },
+      },
+    },
+  };
+}
+
+// Helper to sum shop payable entries matching a filter
+async function sumShopPayable(where: Prisma.LedgerEntryWhereInput): Promise<number> {
+  const result = await prisma.ledgerEntry.aggregate({
+    where: { account: 'SHOP_PAYABLE', ...where },
+    _sum: { amount: true },
+  });
+
+  return roundAmount(result._sum.amount ?? 0);
+}
+
+/**
+ * Vendor statement: balance, what is available or pending, what has been
+ * paid out, and the ledger lines behind them
+ */
+export async function getVendorStatement(
+  vendorId: string,
+  filters: StatementFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<SettlementStatementResponse> {
+  if (filters.shopId) {
+    const shop = await prisma.shop.findFirst({
+      where: { id: filters.shopId, vendorId },
+      select: { id: true },
+    });
+
+    if (!shop) {
+      throw new Error('Shop not found or access denied');
+    }
+  }
+
+  const shopWhere: Prisma.LedgerEntryWhereInput = filters.shopId
+    ? { shopId: filters.shopId }
+    : { shop: { vendorId } };
+  const now = new Date();
+
+  const [balance, available, payouts, entries, total] = await Promise.all([
+    sumShopPayable(shopWhere),
+    sumShopPayable({ ...shopWhere, ...availableEntryWhere(now) }),
+    sumShopPayable({
+      ...shopWhere,
+      transaction: { type: { in: ['PAYOUT', 'PAYOUT_REVERSAL'] } },
+    }),
+    prisma.ledgerEntry.findMany({
+      where: { account: 'SHOP_PAYABLE', ...shopWhere },
+      include: { transaction: true },
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.ledgerEntry.count({ where: { account: 'SHOP_PAYABLE', ...shopWhere } }),
+  ]);
+
+  return {
+    balance,
+    available,
+    pending: roundAmount(balance - available),
+    paidOut: roundAmount(-payouts),
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      type: entry.transaction.type,
+      reference: entry.transaction.reference,
+      description: entry.transaction.description,
+      shopId: entry.shopId,
+      orderItemId: entry.transaction.orderItemId,
+      shipmentId: entry.transaction.shipmentId,
+      returnRequestId: entry.transaction.returnRequestId,
+      amount: entry.amount,
+      availableAt: entry.availableAt,
+      createdAt: entry.createdAt,
+    })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Generate a payout batch for every vendor whose available balance reaches
+ * the minimum. Each payout debits the vendor's shops immediately, so the
+ * same funds cannot be included in two batches.
+ */
+export async function generatePayoutBatch(
+  adminUserId: string,
+  data: GeneratePayoutBatchRequest
+): Promise<GeneratePayoutBatchResponse> {
+  const minAmount = data.minAmount ?? PAYOUT_MIN_AMOUNT;
+
+  return prisma.$transaction(
+    async (tx) => {
+      // One payout run at a time
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('payout_batches'))`;
+
+      const balances = await tx.ledgerEntry.groupBy({
+        by: ['shopId'],
+        where: availableEntryWhere(new Date()),
+        _sum: { amount: true },
+      });
+
+      const shopIds = balances
+        .filter((row) => row.shopId && roundAmount(row._sum.amount ?? 0) !== 0)
+        .map((row) => row.shopId as string);
+
+      const shops = await tx.shop.findMany({
+        where: { id: { in: shopIds } },
+        include: {
+          vendor: {
+            include: {
+              kyc: { include: { bankDetails: { where: { isPrimary: true }, take: 1 } } },
+            },
+          },
+        },
+      });
+
+      type VendorBalance = {
+        vendor: (typeof shops)[number]['vendor'];
+        shops: { id: string; amount: number }[];
+      };
+
+      // Group shop balances by vendor
+      const amountByShop = new Map(
+        balances.map((row) => [row.shopId, roundAmount(row._sum.amount ?? 0)])
+      );
+      const vendors = new Map<string, VendorBalance>();
+      for (const shop of shops) {
+        const entry = vendors.get(shop.vendorId) ?? { vendor: shop.vendor, shops: [] };
+        entry.shops.push({ id: shop.id, amount: amountByShop.get(shop.id) ?? 0 });
+        vendors.set(shop.vendorId, entry);
+      }
+
+      const skipped: SkippedPayoutResponse[] = [];
+      const payable: (VendorBalance & { amount: number })[] = [];
+
+      for (const { vendor, shops: vendorShops } of vendors.values()) {
+        const amount = roundAmount(vendorShops.reduce((sum, shop) => sum + shop.amount, 0));
+        const skip = (reason: string) =>
+          skipped.push({ vendorId: vendor.id, vendorName: vendor.name, amount, reason });
+
+        if (amount < minAmount) {
+          if (amount > 0) skip(`Below minimum payout of ${minAmount}`);
+          continue;
+        }
+
+        if (vendor.kyc?.status !== 'APPROVED') {
+          skip('KYC is not approved');
+          continue;
+        }
+
+        if (!vendor.kyc.bankDetails[0]) {
+          skip('No primary bank account');
+          continue;
+        }
+
+        payable.push({ vendor, shops: vendorShops, amount });
+      }
+
+      if (payable.length === 0) {
+        throw new Error('No vendors are due a payout');
+      }
+
+      const batch = await tx.payoutBatch.create({
+        data: {
+          totalAmount: roundAmount(payable.reduce((sum, item) => sum + item.amount, 0)),
+          createdById: adminUserId,
+        },
+      });
+
+      for (const { vendor, shops: vendorShops, amount } of payable) {
+        const bank = vendor.kyc!.bankDetails[0]!;
+        const payoutItem = await tx.payoutItem.create({
+          data: {
+            batchId: batch.id,
+            vendorId: vendor.id,
+            amount,
+            accountTitle: bank.accountTitle,
+            bankName: bank.bankName,
+            branchCode: bank.branchCode,
+            iban: bank.iban,
+            accountNumber: bank.accountNumber,
+          },
+        });
+
+        await postLedgerTransaction(
+          tx,
+          {
+            type: 'PAYOUT',
+            reference: `payout:${payoutItem.id}`,
+            description: `Payout batch ${batch.id}`,
+            payoutItemId: payoutItem.id,
+          },
+          [
+            ...vendorShops.map((shop) => ({
+              account: 'SHOP_PAYABLE' as const,
+              shopId: shop.id,
+              amount: -shop.amount,
+            })),
+            { account: 'BANK_PAYOUT', amount },
+          ]
+        );
+      }
+
+      const created = await tx.payoutBatch.findUniqueOrThrow({
+        where: { id: batch.id },
+        include: payoutBatchInclude,
+      });
+
+      return { batch: mapPayoutBatchToResponse(created), skipped };
+    },
+    { timeout: 30000 }
+  );
+}
+
+const payoutBatchInclude = {
+  items: {
+    include: { vendor: { select: { name: true } } },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+/**
+ * List payout batches
+ */
+export async function getPayoutBatches(
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedPayoutBatchesResponse> {
+  const [batches, total] = await Promise.all([
+    prisma.payoutBatch.findMany({
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { items: true } } },
+    }),
+    prisma.payoutBatch.count(),
+  ]);
+
+  return {
+    batches: batches.map((batch) => ({
+      id: batch.id,
+      status: batch.status,
+      totalAmount: batch.totalAmount,
+      itemCount: batch._count.items,
+      paidAt: batch.paidAt,
+      cancelledAt: batch.cancelledAt,
+      createdAt: batch.createdAt,
+    })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Get a payout batch with its transfers
+ */
+export async function getPayoutBatchById(batchId: string): Promise<PayoutBatchResponse | null> {
+  const batch = await prisma.payoutBatch.findUnique({
+    where: { id: batchId },
+    include: payoutBatchInclude,
+  });
+
+  return batch ? mapPayoutBatchToResponse(batch) : null;
+}
+
+/**
+ * Mark a batch as paid once the bank has processed the upload
+ */
+export async function markPayoutBatchPaid(batchId: string): Promise<PayoutBatchResponse> {
+  const result = await prisma.payoutBatch.updateMany({
+    where: { id: batchId, status: 'GENERATED' },
+    data: { status: 'PAID', paidAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    await assertBatchExists(batchId);
+    throw new Error('Only generated payout batches can be marked as paid');
+  }
+
+  return (await getPayoutBatchById(batchId))!;
+}
+
+/**
+ * Cancel a batch that has not been paid, returning its amounts to the
+ * vendors' available balances
+ */
+export async function cancelPayoutBatch(batchId: string): Promise<PayoutBatchResponse> {
+  await prisma.$transaction(async (tx) => {
+    const result = await tx.payoutBatch.updateMany({
+      where: { id: batchId, status: 'GENERATED' },
+      data: { status: 'CANCELLED', cancelledAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      await assertBatchExists(batchId);
+      throw new Error('Only generated payout batches can be cancelled');
+    }
+
+    const payouts = await tx.ledgerTransaction.findMany({
+      where: { type: 'PAYOUT', payoutItem: { batchId } },
+      include: { entries: true },
+    });
+
+    for (const payout of payouts) {
+      await postLedgerTransaction(
+        tx,
+        {
+          type: 'PAYOUT_REVERSAL',
+          reference: `payout-reversal:${payout.payoutItemId}`,
+          description: `Cancelled payout batch ${batchId}`,
+          ...(payout.payoutItemId ? { payoutItemId: payout.payoutItemId } : {}),
+        },
+        payout.entries.map((entry) => ({
+          account: entry.account,
+          ...(entry.shopId ? { shopId: entry.shopId } : {}),
+          amount: -entry.amount,
+        }))
+      );
+    }
+  });
+
+  return (await getPayoutBatchById(batchId))!;
+}
+
+/**
+ * Export a batch as a bank bulk-upload CSV
+ */
+export async function exportPayoutBatchCsv(batchId: string): Promise<string> {
+  const batch = await prisma.payoutBatch.findUnique({
+    where: { id: batchId },
+    include: payoutBatchInclude,
+  });
+
+  if (!batch) {
+    throw new Error('Payout batch not found');
+  }
+
+  if (batch.status === 'CANCELLED') {
+    throw new Error('Cannot export a cancelled payout batch');
+  }
+
+  const header = [
+    'Beneficiary Name',
+    'Bank Name',
+    'Branch Code',
+    'Account Number',
+    'IBAN',
+    'Amount',
+    'Reference',
+  ];
+  const rows = batch.items.map((item) => [
+    item.accountTitle,
+    item.bankName,
+    item.branchCode ?? '',
+    item.accountNumber,
+    item.iban ?? '',
+    item.amount.toFixed(2),
+    `PM-${item.id.slice(0, 8).toUpperCase()}`,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+// Quote values that contain separators, quotes or line breaks
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+async function assertBatchExists(batchId: string): Promise<void> {
+  const batch = await prisma.payoutBatch.findUnique({ where: { id: batchId }, select: { id: true } });
+  if (!batch) {
+    throw new Error('Payout batch not found');
+  }
+}
+
+// Helper to map Prisma result to response type
+function mapPayoutBatchToResponse(batch: any): PayoutBatchResponse {
+  return {
+    id: batch.id,
+    status: batch.status,
+    totalAmount: batch.totalAmount,
+    itemCount: batch.items.length,
+    items: batch.items.map((item: any) => ({
+      id: item.id,
+      vendorId: item.vendorId,
+      vendorName: item.vendor.name,
+      amount: item.amount,
+      accountTitle: item.accountTitle,
+      bankName: item.bankName,
+      branchCode: item.branchCode,
+      iban: item.iban,
+      accountNumber: item.accountNumber,
+    })),
+    paidAt: batch.paidAt,
+    cancelledAt: batch.cancelledAt,
+    createdAt: batch.createdAt,
+  };
+}
@@ -0,0 +1,420 @@
+import { prisma } from '../../lib/prisma.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type { OrderItemStatus } from '../../prisma/generated/enums.ts';
+import { mapOrderItemToResponse, recordOrderEvents, syncOrderStatus } from './order.service.ts';
+import { creditDeliveredItems } from './settlement.service.ts';
+import {
+  assertShipmentTransition,
+  canTransitionOrderItem,
+  deriveShipmentStatus,
+} from '../utils/orderStatus.util.ts';
+import type { OrderActor, OrderEventInput } from '../types/order.types.ts';
+import type {
+  BulkConfirmShipmentsRequest,
+  BulkShipShipmentsRequest,
+  BulkShipmentActionResponse,
+  PaginatedVendorShipmentsResponse,
+  ShipmentFilters,
+  ShipmentResponse,
+  VendorShipmentResponse,
+} from '../types/shipment.types.ts';
+import type { ShopShippingQuote } from '../types/shipping.types.ts';
+
+// Steps a shipment can be moved to as a whole; cancellations and returns
+// are handled per item
+export type ShipmentProgressStatus = 'CONFIRMED' | 'SHIPPED' | 'DELIVERED';
+
+export interface ShipmentDetails {
+  carrier?: string | null;
+  trackingCode?: string | null;
+  trackingUrl?: string | null;
+  weightKg?: number;
+  estimatedDelivery?: Date | null;
+  courier?: string | null; // Courier adapter the shipment is booked with
+}
+
+// Shipment with its shop and the ids of the items it carries
+export const shipmentInclude = {
+  shop: { select: { id: true, name: true } },
+  items: { select: { id: true } },
+};
+
+// Shipment with the order details a vendor needs to fulfil it
+const vendorShipmentInclude = {
+  shop: { select: { id: true, name: true } },
+  items: {
+    include: {
+      product: { select: { id: true, name: true, sku: true } },
+      variant: { select: { id: true, name: true, value: true } },
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+  order: {
+    include: {
+      shippingAddress: true,
+      user: { select: { id: true, name: true } },
+    },
+  },
+};
+
+/**
+ * Group an order's items into one shipment per shop, charging each the fee
+ * quoted for its shop (pass the transaction client the order is created with)
+ */
+export async function createOrderShipments(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  shippingQuotes: ShopShippingQuote[] = []
+): Promise<void> {
+  const items = await tx.orderItem.findMany({
+    where: { orderId, shipmentId: null },
+    select: { shopId: true },
+  });
+  const quoteByShop = new Map(shippingQuotes.map((quote) => [quote.shopId, quote]));
+
+  for (const shopId of new Set(items.map((item) => item.shopId))) {
+    const quote = quoteByShop.get(shopId);
+    const shipment = await tx.shipment.create({
+      data: {
+        orderId,
+        shopId,
+        shippingFee: quote?.fee ?? 0,
+        zone: quote?.zone ?? null,
+      },
+    });
+
+    await tx.orderItem.updateMany({
+      where: { orderId, shopId, shipmentId: null },
+      data: { shipmentId: shipment.id },
+    });
+  }
+}
+
+/**
+ * Re-derive the status of each shipment in an order from its items,
+ * stamping when it was shipped, delivered or cancelled
+ */
+export async function syncShipmentStatuses(
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<void> {
+  const shipments = await tx.shipment.findMany({
+    where: { orderId },
+    include: { items: { select: { status: true } } },
+  });
+
+  const now = new Date();
+
+  for (const shipment of shipments) {
+    const status = deriveShipmentStatus(shipment.items.map((item) => item.status));
+    if (status === shipment.status) {
+      continue;
+    }
+
+    const updateData: any = { status };
+    if (status === 'SHIPPED' && !shipment.shippedAt) updateData.shippedAt = now;
+    if (status === 'DELIVERED' && !shipment.deliveredAt) updateData.deliveredAt = now;
+    if (status === 'CANCELLED') updateData.cancelledAt = now;
+
+    await tx.shipment.update({ where: { id: shipment.id }, data: updateData });
+  }
+}
+
+/**
+ * Move every item of a shipment to `status` and store its shipping details.
+ * Sending the current status again only updates the details.
+ */
+export async function applyShipmentStatus(
+  shipmentId: string,
+  status: ShipmentProgressStatus,
+  actor: OrderActor,
+  details: ShipmentDetails = {},
+  note?: string
+): Promise<void> {
+  const shipment = await prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    include: { items: true },
+  });
+
+  if (!shipment) {
+    throw new Error('Shipment not found');
+  }
+
+  const statusChanged = status !== shipment.status;
+  if (statusChanged) {
+    assertShipmentTransition(shipment.status, status, actor.role);
+  }
+
+  const itemStatus = status as OrderItemStatus;
+  const items = statusChanged
+    ? shipment.items.filter((item) => canTransitionOrderItem(item.status, itemStatus, actor.role))
+    : [];
+
+  const updateData: any = {};
+  if (details.carrier !== undefined) updateData.carrier = details.carrier;
+  if (details.trackingCode !== undefined) updateData.trackingCode = details.trackingCode;
+  if (details.trackingUrl !== undefined) updateData.trackingUrl = details.trackingUrl;
+  if (details.weightKg !== undefined) updateData.weightKg = details.weightKg;
+  if (details.estimatedDelivery !== undefined) {
+    updateData.estimatedDelivery = details.estimatedDelivery && new Date(details.estimatedDelivery);
+  }
+  if (details.courier !== undefined) {
+    updateData.courier = details.courier;
+    updateData.courierStatus = details.courier ? 'BOOKED' : null;
+    updateData.bookedAt = details.courier ? new Date() : null;
+  }
+
+  const nextTracking = formatTracking({ ...shipment, ...updateData });
+  if (status === 'SHIPPED' && !(updateData.trackingCode ?? shipment.trackingCode)) {
+    throw new Error('A tracking code is required to ship');
+  }
+
+  const trackingEvents: OrderEventInput[] = [];
+
+  // Tracking is recorded against each item so vendors only see their own
+  const previousTracking = formatTracking(shipment);
+  if (previousTracking !== nextTracking) {
+    for (const item of shipment.items.filter((item) => item.status !== 'CANCELLED')) {
+      trackingEvents.push({
+        orderId: shipment.orderId,
+        orderItemId: item.id,
+        type: 'TRACKING',
+        fromValue: previousTracking,
+        toValue: nextTracking,
+        note: note ?? null,
+      });
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // Only move items still in the status they were read in, so a concurrent
+    // update (e.g. a courier callback racing a vendor) cannot credit twice
+    const moved: typeof items = [];
+    for (const item of items) {
+      const result = await tx.orderItem.updateMany({
+        where: { id: item.id, status: item.status },
+        data: {
+          status: itemStatus,
+          ...(itemStatus === 'DELIVERED' ? { deliveredAt: new Date() } : {}),
+        },
+      });
+
+      if (result.count > 0) {
+        moved.push(item);
+      }
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      await tx.shipment.update({ where: { id: shipmentId }, data: updateData });
+    }
+
+    await recordOrderEvents(tx, actor, [
+      ...moved.map((item) => ({
+        orderId: shipment.orderId,
+        orderItemId: item.id,
+        type: 'ITEM_STATUS' as const,
+        fromValue: item.status,
+        toValue: itemStatus,
+        note: note ?? null,
+      })),
+      ...trackingEvents,
+    ]);
+
+    if (itemStatus === 'DELIVERED' && moved.length > 0) {
+      await creditDeliveredItems(tx, moved.map((item) => item.id));
+    }
+
+    await syncOrderStatus(tx, shipment.orderId, actor, note);
+  });
+}
+
+/**
+ * List shipments of the vendor's shops, newest first
+ */
+export async function getVendorShipments(
+  vendorId: string,
+  filters: ShipmentFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedVendorShipmentsResponse> {
+  const where: any = { shop: { vendorId } };
+  if (filters.shopId) where.shopId = filters.shopId;
+  if (filters.status) where.status = filters.status;
+
+  const [shipments, total] = await Promise.all([
+    prisma.shipment.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: vendorShipmentInclude,
+    }),
+    prisma.shipment.count({ where }),
+  ]);
+
+  return {
+    shipments: shipments.map(mapVendorShipmentToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Get one of the vendor's shipments
+ */
+export async function getVendorShipmentById(
+  vendorId: string,
+  shipmentId: string
+): Promise<VendorShipmentResponse | null> {
+  const shipment = await prisma.shipment.findFirst({
+    where: { id: shipmentId, shop: { vendorId } },
+    include: vendorShipmentInclude,
+  });
+
+  return shipment ? mapVendorShipmentToResponse(shipment) : null;
+}
+
+/**
+ * Confirm several shipments at once. Each shipment is processed on its own,
+ * so one failure does not block the rest.
+ */
+export async function bulkConfirmShipments(
+  vendorId: string,
+  vendorUserId: string,
+  data: BulkConfirmShipmentsRequest
+): Promise<BulkShipmentActionResponse> {
+  const actor: OrderActor = { userId: vendorUserId, role: 'VENDOR' };
+
+  return runBulkShipmentAction(vendorId, data.shipmentIds, (shipmentId) =>
+    applyShipmentStatus(shipmentId, 'CONFIRMED', actor, {}, data.note)
+  );
+}
+
+/**
+ * Ship several shipments at once, each with its own tracking details
+ */
+export async function bulkShipShipments(
+  vendorId: string,
+  vendorUserId: string,
+  data: BulkShipShipmentsRequest
+): Promise<BulkShipmentActionResponse> {
+  const actor: OrderActor = { userId: vendorUserId, role: 'VENDOR' };
+  const detailsById = new Map(data.shipments.map((shipment) => [shipment.shipmentId, shipment]));
+
+  return runBulkShipmentAction(vendorId, [...detailsById.keys()], (shipmentId) => {
+    const { shipmentId: _id, ...details } = detailsById.get(shipmentId)!;
+    return applyShipmentStatus(shipmentId, 'SHIPPED', actor, details, data.note);
+  });
+}
+
+/**
+ * Mark a shipment the vendor delivered themselves as delivered
+ */
+export async function deliverShipment(
+  vendorId: string,
+  vendorUserId: string,
+  shipmentId: string,
+  note?: string
+): Promise<VendorShipmentResponse> {
+  const owned = await prisma.shipment.findFirst({
+    where: { id: shipmentId, shop: { vendorId } },
+    select: { id: true },
+  });
+
+  if (!owned) {
+    throw new Error('Shipment not found');
+  }
+
+  await applyShipmentStatus(shipmentId, 'DELIVERED', { userId: vendorUserId, role: 'VENDOR' }, {}, note);
+
+  return (await getVendorShipmentById(vendorId, shipmentId))!;
+}
+
+// Helper to apply an action to each of the vendor's shipments and collect per-shipment results
+async function runBulkShipmentAction(
+  vendorId: string,
+  shipmentIds: string[],
+  action: (shipmentId: string) => Promise<unknown>
+): Promise<BulkShipmentActionResponse> {
+  const uniqueIds = [...new Set(shipmentIds)];
+  const owned = await prisma.shipment.findMany({
+    where: { id: { in: uniqueIds }, shop: { vendorId } },
+    select: { id: true },
+  });
+  const ownedIds = new Set(owned.map((shipment) => shipment.id));
+
+  const result: BulkShipmentActionResponse = { updated: [], failed: [] };
+
+  // Sequential on purpose: shipments of the same order re-derive the same order status
+  for (const shipmentId of uniqueIds) {
+    if (!ownedIds.has(shipmentId)) {
+      result.failed.push({ shipmentId, error: 'Shipment not found' });
+      continue;
+    }
+
+    try {
+      await action(shipmentId);
+      result.updated.push(shipmentId);
+    } catch (error) {
+      result.failed.push({
+        shipmentId,
+        error: error instanceof Error ? error.message : 'Failed to update shipment',
+      });
+    }
+  }
+
+  return result;
+}
+
+// Helper to summarise tracking details for the timeline
+function formatTracking(shipment: {
+  carrier: string | null;
+  trackingCode: string | null;
+  trackingUrl: string | null;
+}): string | null {
+  const parts = [shipment.carrier, shipment.trackingCode, shipment.trackingUrl].filter(Boolean);
+  return parts.length > 0 ? parts.join(' | ') : null;
+}
+
+// Helper to map Prisma result to response type
+export function mapShipmentToResponse(shipment: any): ShipmentResponse {
+  return {
+    id: shipment.id,
+    orderId: shipment.orderId,
+    shopId: shipment.shopId,
+    ...(shipment.shop && { shop: { id: shipment.shop.id, name: shipment.shop.name } }),
+    status: shipment.status,
+    shippingFee: shipment.shippingFee,
+    zone: shipment.zone,
+    courier: shipment.courier,
+    courierStatus: shipment.courierStatus,
+    carrier: shipment.carrier,
+    trackingCode: shipment.trackingCode,
+    trackingUrl: shipment.trackingUrl,
+    weightKg: shipment.weightKg,
+    estimatedDelivery: shipment.estimatedDelivery,
+    shippedAt: shipment.shippedAt,
+    deliveredAt: shipment.deliveredAt,
+    cancelledAt: shipment.cancelledAt,
+    itemIds: shipment.items?.map((item: any) => item.id) ?? [],
+    createdAt: shipment.createdAt,
+    updatedAt: shipment.updatedAt,
+  };
+}
+
+function mapVendorShipmentToResponse(shipment: any): VendorShipmentResponse {
+  return {
+    ...mapShipmentToResponse(shipment),
+    order: {
+      id: shipment.order.id,
+      orderNumber: shipment.order.orderNumber,
+      status: shipment.order.status,
+      placedAt: shipment.order.placedAt,
+    },
+    buyer: shipment.order.user,
+    shippingAddress: shipment.order.shippingAddress,
+    items: shipment.items.map(mapOrderItemToResponse),
+  };
+}
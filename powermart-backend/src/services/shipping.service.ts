@@ -0,0 +1,244 @@
+import { prisma } from '../../lib/prisma.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type { ShippingZone } from '../../prisma/generated/enums.ts';
+import type {
+  ShippingDestination,
+  ShippingLine,
+  ShippingProfileResponse,
+  ShippingQuoteResponse,
+  ShopShippingQuote,
+  UpsertShippingProfileRequest,
+} from '../types/shipping.types.ts';
+
+// Helper to parse a comma-separated list of place names for matching
+function parsePlaceList(value: string): Set<string> {
+  return new Set(value.split(',').map(normalizePlace).filter(Boolean));
+}
+
+function normalizePlace(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Destinations quoted at the MAJOR_CITY rate
+const MAJOR_CITIES = parsePlaceList(
+  process.env.SHIPPING_MAJOR_CITIES ??
+    'Karachi,Lahore,Islamabad,Rawalpindi,Faisalabad,Multan,Peshawar,Quetta,Hyderabad,Gujranwala,Sialkot'
+);
+
+// Cities or provinces quoted at the REMOTE rate
+const REMOTE_AREAS = parsePlaceList(
+  process.env.SHIPPING_REMOTE_AREAS ?? 'Gilgit-Baltistan,Azad Kashmir,Azad Jammu and Kashmir,Chitral,Gwadar'
+);
+
+// Weight assumed for products that do not declare one
+export const DEFAULT_ITEM_WEIGHT_KG = parseFloat(process.env.SHIPPING_DEFAULT_WEIGHT_KG ?? '0.5');
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Decide which zone a destination falls in, as seen from a shop's city
+ */
+export function resolveShippingZone(originCity: string, destination: ShippingDestination): ShippingZone {
+  const city = normalizePlace(destination.city);
+
+  if (city === normalizePlace(originCity)) {
+    return 'SAME_CITY';
+  }
+
+  if (MAJOR_CITIES.has(city)) {
+    return 'MAJOR_CITY';
+  }
+
+  if (REMOTE_AREAS.has(city) || (destination.state && REMOTE_AREAS.has(normalizePlace(destination.state)))) {
+    return 'REMOTE';
+  }
+
+  return 'OTHER_CITY';
+}
+
+/**
+ * Quote shipping for a set of lines. Items from the same shop ship together,
+ * so each shop is charged once: from its profile's tiers, or the highest
+ * per-product delivery charge for shops that have not set up a profile.
+ */
+export async function quoteShipping(
+  lines: ShippingLine[],
+  destination: ShippingDestination,
+  client: Prisma.TransactionClient = prisma
+): Promise<ShippingQuoteResponse> {
+  const linesByShop = new Map<string, ShippingLine[]>();
+  for (const line of lines) {
+    linesByShop.set(line.shopId, [...(linesByShop.get(line.shopId) ?? []), line]);
+  }
+
+  const shops = await client.shop.findMany({
+    where: { id: { in: [...linesByShop.keys()] } },
+    select: {
+      id: true,
+      name: true,
+      shippingProfile: { include: { rates: true } },
+    },
+  });
+  const shopById = new Map(shops.map((shop) => [shop.id, shop]));
+
+  const quotes: ShopShippingQuote[] = [...linesByShop.entries()].map(([shopId, shopLines]) => {
+    const shop = shopById.get(shopId);
+    const profile = shop?.shippingProfile;
+    const subtotal = shopLines.reduce((sum, line) => sum + line.lineSubtotal, 0);
+
+    const quote: ShopShippingQuote = {
+      shopId,
+      shopName: shop?.name ?? '',
+      zone: null,
+      fee: 0,
+      freeShipping: false,
+      amountToFreeShipping: null,
+      error: null,
+    };
+
+    if (!profile) {
+      quote.fee = Math.max(0, ...shopLines.map((line) => line.deliveryCharge));
+      return quote;
+    }
+
+    quote.zone = resolveShippingZone(profile.originCity, destination);
+
+    const value =
+      profile.basis === 'WEIGHT'
+        ? shopLines.reduce((sum, line) => sum + (line.weightKg ?? DEFAULT_ITEM_WEIGHT_KG) * line.quantity, 0)
+        : shopLines.reduce((sum, line) => sum + line.quantity, 0);
+
+    // Smallest tier that covers the package; an open-ended tier comes last
+    const tier = profile.rates
+      .filter((rate) => rate.zone === quote.zone)
+      .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity))
+      .find((rate) => rate.upTo === null || value <= rate.upTo);
+
+    if (!tier) {
+      quote.error = `${quote.shopName} does not deliver to ${destination.city}`;
+      return quote;
+    }
+
+    if (profile.freeShippingThreshold !== null && subtotal >= profile.freeShippingThreshold) {
+      quote.freeShipping = true;
+      return quote;
+    }
+
+    quote.fee = roundAmount(tier.fee);
+    if (profile.freeShippingThreshold !== null) {
+      quote.amountToFreeShipping = roundAmount(profile.freeShippingThreshold - subtotal);
+    }
+
+    return quote;
+  });
+
+  return {
+    destination,
+    shops: quotes,
+    total: roundAmount(quotes.reduce((sum, quote) => sum + quote.fee, 0)),
+    deliverable: quotes.every((quote) => quote.error === null),
+  };
+}
+
+/**
+ * Throw if any shop in the quote cannot deliver to the destination
+ */
+export function assertDeliverable(quote: ShippingQuoteResponse): void {
+  const undeliverable = quote.shops.find((shop) => shop.error !== null);
+  if (undeliverable) {
+    throw new Error(undeliverable.error!);
+  }
+}
+
+/**
+ * Get a shop's shipping profile
+ */
+export async function getShippingProfile(shopId: string): Promise<ShippingProfileResponse | null> {
+  const profile = await prisma.shippingProfile.findUnique({
+    where: { shopId },
+    include: { rates: true },
+  });
+
+  return profile ? mapShippingProfileToResponse(profile) : null;
+}
+
+/**
+ * Create or replace a shop's shipping profile and its rate tiers
+ */
+export async function upsertShippingProfile(
+  shopId: string,
+  data: UpsertShippingProfileRequest
+): Promise<ShippingProfileResponse> {
+  const seen = new Set<string>();
+  for (const rate of data.rates) {
+    const key = `${rate.zone}:${rate.upTo ?? 'none'}`;
+    if (seen.has(key)) {
+      throw new Error(`Duplicate ${rate.zone} tier${rate.upTo != null ? ` up to ${rate.upTo}` : ' without a limit'}`);
+    }
+    seen.add(key);
+  }
+
+  const profileData = {
+    basis: data.basis ?? 'WEIGHT',
+    originCity: data.originCity,
+    freeShippingThreshold: data.freeShippingThreshold ?? null,
+  } as const;
+
+  const profile = await prisma.$transaction(async (tx) => {
+    const saved = await tx.shippingProfile.upsert({
+      where: { shopId },
+      create: { shopId, ...profileData },
+      update: profileData,
+    });
+
+    await tx.shippingRate.deleteMany({ where: { profileId: saved.id } });
+    await tx.shippingRate.createMany({
+      data: data.rates.map((rate) => ({
+        profileId: saved.id,
+        zone: rate.zone,
+        upTo: rate.upTo ?? null,
+        fee: rate.fee,
+      })),
+    });
+
+    return tx.shippingProfile.findUniqueOrThrow({
+      where: { id: saved.id },
+      include: { rates: true },
+    });
+  });
+
+  return mapShippingProfileToResponse(profile);
+}
+
+/**
+ * Remove a shop's shipping profile; its products fall back to their
+ * per-product delivery charge
+ */
+export async function deleteShippingProfile(shopId: string): Promise<void> {
+  const result = await prisma.shippingProfile.deleteMany({ where: { shopId } });
+
+  if (result.count === 0) {
+    throw new Error('Shipping profile not found');
+  }
+}
+
+// Helper to map Prisma result to response type
+function mapShippingProfileToResponse(profile: any): ShippingProfileResponse {
+  return {
+    id: profile.id,
+    shopId: profile.shopId,
+    basis: profile.basis,
+    originCity: profile.originCity,
+    freeShippingThreshold: profile.freeShippingThreshold,
+    rates: profile.rates
+      .map((rate: any) => ({ id: rate.id, zone: rate.zone, upTo: rate.upTo, fee: rate.fee }))
+      .sort(
+        (a: any, b: any) =>
+          a.zone.localeCompare(b.zone) || (a.upTo ?? Infinity) - (b.upTo ?? Infinity)
+      ),
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  };
+}
@@ -384,6 +384,17 @@ export async function uploadVendorDocument(
   return uploadSecureDocument(file, folder, true);
 }
 
+/**
+ * Upload return photo evidence (private - requires signed URL)
+ */
+export async function uploadReturnEvidence(
+  files: Express.Multer.File[],
+  userId: string
+): Promise<UploadResult[]> {
+  const folder = `${CloudinaryFolders.RETURN_EVIDENCE}/${userId}`;
+  return Promise.all(files.map((file) => uploadSecureDocument(file, folder, true)));
+}
+
 /**
  * Get a signed URL for accessing a private/authenticated asset
  */
@@ -1,5 +1,8 @@
 import { prisma } from '../../lib/prisma.ts';
-import { UserRole } from '../../prisma/generated/enums.ts';
+import { generatePrivateUrl, parseAssetReference } from '../../lib/cloudinary.ts';
+import { sendKYCDecisionEmail } from '../../lib/email.ts';
+import { sendKYCDecisionMessage } from '../../lib/sms.ts';
+import { UserRole, KYCStatus } from '../../prisma/generated/enums.ts';
 import type {
   RegisterVendorRequest,
   UpdateVendorRequest,
@@ -7,8 +10,13 @@ import type {
   VendorWithShopsResponse,
   SubmitKYCRequest,
   KYCResponse,
+  KYCReviewDetailResponse,
+  PaginatedKYCSubmissionsResponse,
 } from '../types/vendor.types.ts';
 
+// Signed KYC document URLs handed to reviewers are short-lived
+const KYC_DOCUMENT_URL_TTL_SECONDS = 15 * 60;
+
 export async function registerVendor(
   userId: string,
   data: RegisterVendorRequest
@@ -176,74 +184,154 @@ export async function submitKYC(vendorId: string, data: SubmitKYCRequest): Promi
     throw new Error('Vendor not found');
   }
 
-  if (vendor.kyc) {
+  if (vendor.kyc?.status === KYCStatus.PENDING) {
     throw new Error('KYC has already been submitted. Please wait for review.');
   }
 
+  if (vendor.kyc?.status === KYCStatus.APPROVED) {
+    throw new Error('KYC has already been approved');
+  }
+
+  const documents = data.documents.map((doc) => ({
+    documentType: doc.documentType,
+    documentNumber: doc.documentNumber,
+    frontImageURL: doc.frontImageURL ?? null,
+    backImageURL: doc.backImageURL ?? null,
+  }));
+
+  const bankDetails = data.bankDetails.map((bank) => ({
+    accountTitle: bank.accountTitle,
+    bankName: bank.bankName,
+    branchName: bank.branchName ?? null,
+    branchCode: bank.branchCode ?? null,
+    iban: bank.iban ?? null,
+    accountNumber: bank.accountNumber,
+    isPrimary: bank.isPrimary ?? false,
+  }));
+
+  // Rejected submissions are replaced in place and go back into the review queue
+  if (vendor.kyc) {
+    const kycId = vendor.kyc.id;
+    const kyc = await prisma.$transaction(async (tx) => {
+      await tx.kYCDocument.deleteMany({ where: { kycId } });
+      await tx.vendorBankDetails.deleteMany({ where: { kycId } });
+
+      return tx.vendorKYC.update({
+        where: { id: kycId },
+        data: {
+          status: KYCStatus.PENDING,
+          submittedAt: new Date(),
+          reviewedAt: null,
+          reviewedById: null,
+          rejectionReason: null,
+          documents: { create: documents },
+          bankDetails: { create: bankDetails },
+        },
+        include: {
+          documents: true,
+          bankDetails: true,
+        },
+      });
+    });
+
+    return mapKYCToResponse(kyc);
+  }
+
   // Create KYC with documents and bank details
   const kyc = await prisma.vendorKYC.create({
     data: {
       vendorId,
-      documents: {
-        create: data.documents.map((doc) => ({
-          documentType: doc.documentType,
-          documentNumber: doc.documentNumber,
-          frontImageURL: doc.frontImageURL ?? null,
-          backImageURL: doc.backImageURL ?? null,
-        })),
-      },
-      bankDetails: {
-        create: data.bankDetails.map((bank) => ({
-          accountTitle: bank.accountTitle,
-          bankName: bank.bankName,
-          branchName: bank.branchName ?? null,
-          branchCode: bank.branchCode ?? null,
-          iban: bank.iban ?? null,
-          accountNumber: bank.accountNumber,
-          isPrimary: bank.isPrimary ?? false,
-        })),
-      },
+      documents: { create: documents },
+      bankDetails: { create: bankDetails },
+    },
+    include: {
+      documents: true,
+      bankDetails: true,
     },
+  });
+
+  return mapKYCToResponse(kyc);
+}
+
+export async function getKYCStatus(vendorId: string): Promise<KYCResponse | null> {
+  const kyc = await prisma.vendorKYC.findUnique({
+    where: { vendorId },
     include: {
       documents: true,
       bankDetails: true,
     },
   });
 
+  if (!kyc) {
+    return null;
+  }
+
+  return mapKYCToResponse(kyc);
+}
+
+// ============ Admin KYC Review ============
+
+/**
+ * List KYC submissions for review (oldest first so the queue is fair)
+ */
+export async function getKYCSubmissions(
+  status: KYCStatus = KYCStatus.PENDING,
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedKYCSubmissionsResponse> {
+  const where = { status };
+
+  const [submissions, total] = await Promise.all([
+    prisma.vendorKYC.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { submittedAt: 'asc' },
+      include: {
+        vendor: {
+          include: { user: { select: { email: true } } },
+        },
+        _count: { select: { documents: true } },
+      },
+    }),
+    prisma.vendorKYC.count({ where }),
+  ]);
+
   return {
-    id: kyc.id,
-    vendorId: kyc.vendorId,
-    status: kyc.status,
-    submittedAt: kyc.submittedAt,
-    reviewedAt: kyc.reviewedAt,
-    documents: kyc.documents.map((doc: any) => ({
-      id: doc.id,
-      documentType: doc.documentType,
-      documentNumber: doc.documentNumber,
-      frontImageURL: doc.frontImageURL,
-      backImageURL: doc.backImageURL,
-      uploadedAt: doc.uploadedAt,
-    })),
-    bankDetails: kyc.bankDetails.map((bank: any) => ({
-      id: bank.id,
-      accountTitle: bank.accountTitle,
-      bankName: bank.bankName,
-      branchName: bank.branchName,
-      branchCode: bank.branchCode,
-      iban: bank.iban,
-      accountNumber: bank.accountNumber,
-      isPrimary: bank.isPrimary,
-      createdAt: bank.createdAt,
+    submissions: submissions.map((kyc) => ({
+      id: kyc.id,
+      vendorId: kyc.vendorId,
+      status: kyc.status,
+      submittedAt: kyc.submittedAt,
+      reviewedAt: kyc.reviewedAt,
+      documentCount: kyc._count.documents,
+      vendor: {
+        id: kyc.vendor.id,
+        name: kyc.vendor.name,
+        phoneNumber: kyc.vendor.phoneNumber,
+        phoneVerified: kyc.vendor.phoneVerified,
+        email: kyc.vendor.user.email,
+      },
     })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
   };
 }
 
-export async function getKYCStatus(vendorId: string): Promise<KYCResponse | null> {
+/**
+ * Get a KYC submission with short-lived signed URLs for its documents
+ */
+export async function getKYCSubmissionForReview(kycId: string): Promise<KYCReviewDetailResponse | null> {
   const kyc = await prisma.vendorKYC.findUnique({
-    where: { vendorId },
+    where: { id: kycId },
     include: {
       documents: true,
       bankDetails: true,
+      vendor: {
+        include: { user: { select: { email: true } } },
+      },
     },
   });
 
@@ -251,12 +339,119 @@ export async function getKYCStatus(vendorId: string): Promise<KYCResponse | null
     return null;
   }
 
+  const signUrl = (value: string | null): string | null => {
+    if (!value) return null;
+    const { publicId, resourceType } = parseAssetReference(value);
+    return generatePrivateUrl(publicId, KYC_DOCUMENT_URL_TTL_SECONDS, resourceType);
+  };
+
+  const base = mapKYCToResponse(kyc);
+
+  return {
+    ...base,
+    reviewedById: kyc.reviewedById,
+    vendor: {
+      id: kyc.vendor.id,
+      name: kyc.vendor.name,
+      phoneNumber: kyc.vendor.phoneNumber,
+      phoneVerified: kyc.vendor.phoneVerified,
+      email: kyc.vendor.user.email,
+    },
+    documents: base.documents.map((doc) => ({
+      ...doc,
+      frontImageSignedUrl: signUrl(doc.frontImageURL),
+      backImageSignedUrl: signUrl(doc.backImageURL),
+    })),
+    signedUrlsExpireAt: new Date(Date.now() + KYC_DOCUMENT_URL_TTL_SECONDS * 1000),
+  };
+}
+
+/**
+ * Approve a pending KYC submission
+ */
+export async function approveKYC(kycId: string, adminUserId: string): Promise<KYCResponse> {
+  return applyKYCDecision(kycId, adminUserId, KYCStatus.APPROVED, null);
+}
+
+/**
+ * Reject a pending KYC submission; the vendor may resubmit afterwards
+ */
+export async function rejectKYC(
+  kycId: string,
+  adminUserId: string,
+  reason: string
+): Promise<KYCResponse> {
+  if (!reason.trim()) {
+    throw new Error('A rejection reason is required');
+  }
+
+  return applyKYCDecision(kycId, adminUserId, KYCStatus.REJECTED, reason.trim());
+}
+
+async function applyKYCDecision(
+  kycId: string,
+  adminUserId: string,
+  status: KYCStatus,
+  reason: string | null
+): Promise<KYCResponse> {
+  const existing = await prisma.vendorKYC.findUnique({
+    where: { id: kycId },
+    include: {
+      vendor: {
+        include: { user: { select: { email: true } } },
+      },
+    },
+  });
+
+  if (!existing) {
+    throw new Error('KYC submission not found');
+  }
+
+  if (existing.status !== KYCStatus.PENDING) {
+    throw new Error(`KYC submission has already been ${existing.status.toLowerCase()}`);
+  }
+
+  // Guard against two admins reviewing the same submission at once
+  const { count } = await prisma.vendorKYC.updateMany({
+    where: { id: kycId, status: KYCStatus.PENDING },
+    data: {
+      status,
+      reviewedAt: new Date(),
+      reviewedById: adminUserId,
+      rejectionReason: reason,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error('KYC submission has already been reviewed');
+  }
+
+  const kyc = await prisma.vendorKYC.findUniqueOrThrow({
+    where: { id: kycId },
+    include: {
+      documents: true,
+      bankDetails: true,
+    },
+  });
+
+  // Notify the vendor (fire and forget - don't block the review)
+  const approved = status === KYCStatus.APPROVED;
+  const { vendor } = existing;
+  sendKYCDecisionEmail(vendor.user.email, approved, vendor.name, reason).catch(console.error);
+  sendKYCDecisionMessage(vendor.phoneNumber, approved, vendor.name, reason).catch(console.error);
+
+  return mapKYCToResponse(kyc);
+}
+
+// Helper to map Prisma result to response type
+function mapKYCToResponse(kyc: any): KYCResponse {
   return {
     id: kyc.id,
     vendorId: kyc.vendorId,
     status: kyc.status,
     submittedAt: kyc.submittedAt,
     reviewedAt: kyc.reviewedAt,
+    rejectionReason: kyc.rejectionReason ?? null,
     documents: kyc.documents.map((doc: any) => ({
       id: doc.id,
       documentType: doc.documentType,
@@ -0,0 +1,163 @@
+import { prisma } from '../../lib/prisma.ts';
+import { mapOrderItemToResponse } from './order.service.ts';
+import { mapShipmentToResponse, shipmentInclude } from './shipment.service.ts';
+import { normalizeOrderNumber } from '../utils/orderNumber.util.ts';
+import type {
+  PaginatedVendorOrdersResponse,
+  VendorOrderFilters,
+  VendorOrderResponse,
+} from '../types/order.types.ts';
+
+/**
+ * Build the order item filter for a vendor's shops
+ */
+async function buildVendorItemWhere(vendorId: string, filters: VendorOrderFilters) {
+  if (filters.shopId) {
+    const shop = await prisma.shop.findFirst({
+      where: { id: filters.shopId, vendorId },
+      select: { id: true },
+    });
+
+    if (!shop) {
+      throw new Error('Shop not found or access denied');
+    }
+  }
+
+  const where: any = {
+    shop: { vendorId },
+  };
+
+  if (filters.shopId) {
+    where.shopId = filters.shopId;
+  }
+
+  if (filters.status) {
+    where.status = filters.status;
+  }
+
+  return where;
+}
+
+// Items, shipments, buyer and address needed to fulfil an order
+function vendorOrderInclude(itemWhere: any) {
+  return {
+    items: {
+      where: itemWhere,
+      include: {
+        product: { select: { id: true, name: true, sku: true } },
+        variant: { select: { id: true, name: true, value: true } },
+        shop: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' as const },
+    },
+    shipments: {
+      where: { items: { some: itemWhere } },
+      include: shipmentInclude,
+    },
+    shippingAddress: true,
+    user: { select: { id: true, name: true } },
+  };
+}
+
+/**
+ * List orders containing items from the vendor's shops. Each order only
+ * includes the vendor's own items.
+ */
+export async function getVendorOrders(
+  vendorId: string,
+  filters: VendorOrderFilters = {},
+  page: number = 1,
+  limit: number = 20
+): Promise<PaginatedVendorOrdersResponse> {
+  const itemWhere = await buildVendorItemWhere(vendorId, filters);
+
+  const where: any = {
+    items: { some: itemWhere },
+  };
+
+  if (filters.startDate || filters.endDate) {
+    where.placedAt = {};
+    if (filters.startDate) {
+      where.placedAt.gte = filters.startDate;
+    }
+    if (filters.endDate) {
+      where.placedAt.lte = filters.endDate;
+    }
+  }
+
+  const [orders, total] = await Promise.all([
+    prisma.order.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { placedAt: 'desc' },
+      include: vendorOrderInclude(itemWhere),
+    }),
+    prisma.order.count({ where }),
+  ]);
+
+  return {
+    orders: orders.map(mapVendorOrderToResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
+
+/**
+ * Get a single order with the vendor's items
+ */
+export async function getVendorOrderById(
+  vendorId: string,
+  orderId: string
+): Promise<VendorOrderResponse | null> {
+  const itemWhere = await buildVendorItemWhere(vendorId, {});
+
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, items: { some: itemWhere } },
+    include: vendorOrderInclude(itemWhere),
+  });
+
+  return order ? mapVendorOrderToResponse(order) : null;
+}
+
+/**
+ * Look up an order containing the vendor's items by its number
+ */
+export async function getVendorOrderByNumber(
+  vendorId: string,
+  orderNumber: string
+): Promise<VendorOrderResponse | null> {
+  const itemWhere = await buildVendorItemWhere(vendorId, {});
+
+  const order = await prisma.order.findFirst({
+    where: { orderNumber: normalizeOrderNumber(orderNumber), items: { some: itemWhere } },
+    include: vendorOrderInclude(itemWhere),
+  });
+
+  return order ? mapVendorOrderToResponse(order) : null;
+}
+
+// Helper to map Prisma result to response type
+function mapVendorOrderToResponse(order: any): VendorOrderResponse {
+  const items = order.items.map((item: any) => ({
+    ...mapOrderItemToResponse(item),
+    shop: item.shop,
+  }));
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    paymentStatus: order.paymentStatus,
+    paymentMethod: order.paymentMethod,
+    notes: order.notes,
+    placedAt: order.placedAt,
+    buyer: order.user,
+    shippingAddress: order.shippingAddress,
+    items,
+    shipments: order.shipments.map(mapShipmentToResponse),
+    vendorTotal: items.reduce((sum: number, item: any) => sum + item.totalPrice, 0),
+  };
+}
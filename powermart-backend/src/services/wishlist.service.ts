@@ -0,0 +1,411 @@
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma.ts';
+import type { Prisma } from '../../prisma/generated/client.ts';
+import type {
+  AddWishlistItemRequest,
+  CreateWishlistRequest,
+  MoveWishlistItemToCartRequest,
+  SaveCartItemRequest,
+  SharedWishlistResponse,
+  UpdateWishlistRequest,
+  WishlistItemResponse,
+  WishlistMoveResponse,
+  WishlistResponse,
+} from '../types/wishlist.types.ts';
+import * as cartService from './cart.service.ts';
+
+const DEFAULT_WISHLIST_NAME = 'Saved for later';
+const MAX_WISHLISTS_PER_USER = 20;
+
+const frontendUrl = process.env.FRONTEND_URL ?? 'http://localhost:3000';
+
+// Items with what a shopper needs to decide on them: live price, stock and status
+const wishlistInclude = {
+  items: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          price: true,
+          discount: true,
+          stock: true,
+          status: true,
+          images: { select: { url: true }, take: 1 },
+        },
+      },
+      variant: {
+        select: {
+          id: true,
+          name: true,
+          value: true,
+          priceDiff: true,
+          stock: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'desc' as const },
+  },
+};
+
+// Helper to find a wishlist owned by the user
+async function findOwnedWishlist(userId: string, wishlistId: string) {
+  const wishlist = await prisma.wishlist.findFirst({
+    where: { id: wishlistId, userId },
+    include: wishlistInclude,
+  });
+
+  if (!wishlist) {
+    throw new Error('Wishlist not found');
+  }
+
+  return wishlist;
+}
+
+/**
+ * Get the user's "Saved for later" list, creating it on first use
+ */
+async function getOrCreateDefaultWishlist(userId: string) {
+  const existing = await prisma.wishlist.findFirst({
+    where: { userId, isDefault: true },
+    include: wishlistInclude,
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  return prisma.wishlist.create({
+    data: { userId, name: DEFAULT_WISHLIST_NAME, isDefault: true },
+    include: wishlistInclude,
+  });
+}
+
+// Helper to add a product (or variant) to a list; saving it twice is a no-op
+async function addItemToWishlist(
+  client: Prisma.TransactionClient,
+  wishlistId: string,
+  productId: string,
+  variantId: string | null
+): Promise<void> {
+  const existing = await client.wishlistItem.findFirst({
+    where: { wishlistId, productId, variantId },
+  });
+
+  if (!existing) {
+    await client.wishlistItem.create({
+      data: { wishlistId, productId, variantId },
+    });
+  }
+
+  await client.wishlist.update({
+    where: { id: wishlistId },
+    data: { updatedAt: new Date() },
+  });
+}
+
+/**
+ * Get all of the user's wishlists (the "Saved for later" list first)
+ */
+export async function getWishlists(userId: string): Promise<WishlistResponse[]> {
+  await getOrCreateDefaultWishlist(userId);
+
+  const wishlists = await prisma.wishlist.findMany({
+    where: { userId },
+    include: wishlistInclude,
+    orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+  });
+
+  return wishlists.map(mapWishlistToResponse);
+}
+
+/**
+ * Get a single wishlist
+ */
+export async function getWishlistById(userId: string, wishlistId: string): Promise<WishlistResponse> {
+  return mapWishlistToResponse(await findOwnedWishlist(userId, wishlistId));
+}
+
+/**
+ * Create a named wishlist
+ */
+export async function createWishlist(
+  userId: string,
+  data: CreateWishlistRequest
+): Promise<WishlistResponse> {
+  const count = await prisma.wishlist.count({ where: { userId } });
+  if (count >= MAX_WISHLISTS_PER_USER) {
+    throw new Error(`You can have at most ${MAX_WISHLISTS_PER_USER} wishlists`);
+  }
+
+  const wishlist = await prisma.wishlist.create({
+    data: { userId, name: data.name },
+    include: wishlistInclude,
+  });
+
+  return mapWishlistToResponse(wishlist);
+}
+
+/**
+ * Rename a wishlist
+ */
+export async function updateWishlist(
+  userId: string,
+  wishlistId: string,
+  data: UpdateWishlistRequest
+): Promise<WishlistResponse> {
+  await findOwnedWishlist(userId, wishlistId);
+
+  const wishlist = await prisma.wishlist.update({
+    where: { id: wishlistId },
+    data: { name: data.name },
+    include: wishlistInclude,
+  });
+
+  return mapWishlistToResponse(wishlist);
+}
+
+/**
+ * Delete a wishlist and its items. The "Saved for later" list stays.
+ */
+export async function deleteWishlist(userId: string, wishlistId: string): Promise<void> {
+  const wishlist = await findOwnedWishlist(userId, wishlistId);
+
+  if (wishlist.isDefault) {
+    throw new Error('The "Saved for later" list cannot be deleted');
+  }
+
+  await prisma.wishlist.delete({ where: { id: wishlistId } });
+}
+
+/**
+ * Add a product (optionally a specific variant) to a wishlist
+ */
+export async function addWishlistItem(
+  userId: string,
+  wishlistId: string,
+  data: AddWishlistItemRequest
+): Promise<WishlistResponse> {
+  await findOwnedWishlist(userId, wishlistId);
+
+  const product = await prisma.product.findUnique({
+    where: { id: data.productId },
+    select: { id: true },
+  });
+
+  if (!product) {
+    throw new Error('Product not found');
+  }
+
+  if (data.variantId) {
+    const variant = await prisma.productVariant.findUnique({
+      where: { id: data.variantId },
+    });
+
+    if (!variant) {
+      throw new Error('Variant not found');
+    }
+
+    if (variant.productId !== data.productId) {
+      throw new Error('Variant does not belong to this product');
+    }
+  }
+
+  await addItemToWishlist(prisma, wishlistId, data.productId, data.variantId ?? null);
+
+  return getWishlistById(userId, wishlistId);
+}
+
+/**
+ * Remove an item from a wishlist
+ */
+export async function removeWishlistItem(
+  userId: string,
+  wishlistId: string,
+  itemId: string
+): Promise<WishlistResponse> {
+  const wishlist = await findOwnedWishlist(userId, wishlistId);
+
+  if (!wishlist.items.some((item) => item.id === itemId)) {
+    throw new Error('Wishlist item not found');
+  }
+
+  await prisma.wishlistItem.delete({ where: { id: itemId } });
+
+  return getWishlistById(userId, wishlistId);
+}
+
+/**
+ * Move a cart line to a wishlist ("Saved for later" unless another list is
+ * given), taking it out of the cart
+ */
+export async function saveCartItemForLater(
+  userId: string,
+  cartItemId: string,
+  data: SaveCartItemRequest
+): Promise<WishlistMoveResponse> {
+  const cartItem = await prisma.cartItem.findFirst({
+    where: { id: cartItemId, cart: { userId } },
+  });
+
+  if (!cartItem) {
+    throw new Error('Cart item not found');
+  }
+
+  const wishlist = data.wishlistId
+    ? await findOwnedWishlist(userId, data.wishlistId)
+    : await getOrCreateDefaultWishlist(userId);
+
+  await prisma.$transaction(async (tx) => {
+    await addItemToWishlist(tx, wishlist.id, cartItem.productId, cartItem.variantId);
+    await tx.cartItem.delete({ where: { id: cartItem.id } });
+  });
+
+  return {
+    cart: await cartService.getCart({ userId }),
+    wishlist: await getWishlistById(userId, wishlist.id),
+  };
+}
+
+/**
+ * Move a wishlist item into the cart. The usual cart checks apply (active
+ * product, stock); the item only leaves the wishlist once it is in the cart.
+ */
+export async function moveWishlistItemToCart(
+  userId: string,
+  wishlistId: string,
+  itemId: string,
+  data: MoveWishlistItemToCartRequest
+): Promise<WishlistMoveResponse> {
+  const wishlist = await findOwnedWishlist(userId, wishlistId);
+
+  const item = wishlist.items.find((line) => line.id === itemId);
+  if (!item) {
+    throw new Error('Wishlist item not found');
+  }
+
+  const cart = await cartService.addToCart(
+    { userId },
+    {
+      productId: item.productId,
+      ...(item.variantId && { variantId: item.variantId }),
+      quantity: data.quantity ?? 1,
+    }
+  );
+
+  await prisma.wishlistItem.deleteMany({ where: { id: item.id } });
+
+  return {
+    cart,
+    wishlist: await getWishlistById(userId, wishlistId),
+  };
+}
+
+/**
+ * Share a wishlist through a public link (the existing link is kept if it
+ * is already shared)
+ */
+export async function shareWishlist(userId: string, wishlistId: string): Promise<WishlistResponse> {
+  const wishlist = await findOwnedWishlist(userId, wishlistId);
+
+  if (wishlist.shareToken) {
+    return mapWishlistToResponse(wishlist);
+  }
+
+  const shared = await prisma.wishlist.update({
+    where: { id: wishlistId },
+    data: { shareToken: crypto.randomBytes(16).toString('base64url') },
+    include: wishlistInclude,
+  });
+
+  return mapWishlistToResponse(shared);
+}
+
+/**
+ * Stop sharing a wishlist; its old link stops working
+ */
+export async function unshareWishlist(userId: string, wishlistId: string): Promise<WishlistResponse> {
+  await findOwnedWishlist(userId, wishlistId);
+
+  const wishlist = await prisma.wishlist.update({
+    where: { id: wishlistId },
+    data: { shareToken: null },
+    include: wishlistInclude,
+  });
+
+  return mapWishlistToResponse(wishlist);
+}
+
+/**
+ * View a shared wishlist through its public link
+ */
+export async function getSharedWishlist(shareToken: string): Promise<SharedWishlistResponse> {
+  const wishlist = await prisma.wishlist.findUnique({
+    where: { shareToken },
+    include: {
+      ...wishlistInclude,
+      user: { select: { name: true } },
+    },
+  });
+
+  if (!wishlist) {
+    throw new Error('Wishlist not found');
+  }
+
+  const items = wishlist.items.map(mapWishlistItemToResponse);
+
+  return {
+    name: wishlist.name,
+    ownerName: wishlist.user.name,
+    items,
+    itemCount: items.length,
+  };
+}
+
+// Helper to map wishlist item to response with its live price and stock
+function mapWishlistItemToResponse(item: any): WishlistItemResponse {
+  const stock = item.variant ? Math.min(item.variant.stock, item.product.stock) : item.product.stock;
+
+  return {
+    id: item.id,
+    productId: item.productId,
+    variantId: item.variantId,
+    addedAt: item.createdAt,
+    currentPrice: cartService.getUnitPrice(item.product, item.variant),
+    stock,
+    inStock: stock > 0,
+    available: item.product.status === 'ACTIVE',
+    product: {
+      id: item.product.id,
+      name: item.product.name,
+      price: item.product.price,
+      discount: item.product.discount,
+      status: item.product.status,
+      image: item.product.images?.[0]?.url ?? null,
+    },
+    variant: item.variant
+      ? {
+          id: item.variant.id,
+          name: item.variant.name,
+          value: item.variant.value,
+          priceDiff: item.variant.priceDiff,
+        }
+      : null,
+  };
+}
+
+// Helper to map wishlist to response
+function mapWishlistToResponse(wishlist: any): WishlistResponse {
+  const items = wishlist.items.map(mapWishlistItemToResponse);
+
+  return {
+    id: wishlist.id,
+    name: wishlist.name,
+    isDefault: wishlist.isDefault,
+    shareUrl: wishlist.shareToken ? `${frontendUrl}/wishlists/shared/${wishlist.shareToken}` : null,
+    items,
+    itemCount: items.length,
+    createdAt: wishlist.createdAt,
+    updatedAt: wishlist.updatedAt,
+  };
+}
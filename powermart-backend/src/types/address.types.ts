@@ -0,0 +1,43 @@
+// Request DTOs
+export interface CreateAddressRequest {
+  fullName: string;
+  phoneNumber: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  notes?: string;
+  isDefault?: boolean;
+}
+
+export interface UpdateAddressRequest {
+  fullName?: string;
+  phoneNumber?: string;
+  line1?: string;
+  line2?: string | null;
+  city?: string;
+  state?: string | null;
+  postalCode?: string | null;
+  notes?: string | null;
+  isDefault?: boolean;
+}
+
+// Response DTOs
+export interface AddressResponse {
+  id: string;
+  userId: string;
+  fullName: string;
+  phoneNumber: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string | null;
+  postalCode: string | null;
+  country: string;
+  notes: string | null;
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -1,4 +1,5 @@
 import { UserRole, AccountStatus } from '../../prisma/generated/enums.ts';
+import type { CartMergeResponse } from './cart.types.ts';
 
 // Request DTOs
 export interface RegisterRequest {
@@ -72,6 +73,7 @@ export interface AuthResponse {
   user: UserResponse;
   accessToken: string;
   refreshToken: string;
+  cartMerge?: CartMergeResponse; // Set when a guest cart was merged into the user's cart
 }
 
 export interface TokenResponse {
@@ -95,3 +97,8 @@ export interface RefreshTokenPayload {
   userId: string;
   tokenId: string;
 }
+
+export interface GuestTokenPayload {
+  guestId: string;
+  type: 'guest';
+}
@@ -1,3 +1,9 @@
+import type { CouponType } from '../../prisma/generated/enums.ts';
+import type { ShippingQuoteResponse } from './shipping.types.ts';
+
+// Who a cart belongs to: a signed-in user, or a shopper holding a guest token
+export type CartOwner = { userId: string; guestId?: never } | { guestId: string; userId?: never };
+
 export interface AddToCartRequest {
   productId: string;
   variantId?: string;
@@ -8,6 +14,10 @@ export interface UpdateCartItemRequest {
   quantity: number;
 }
 
+export interface ApplyCouponRequest {
+  code: string;
+}
+
 export interface CartItemResponse {
   id: string;
   productId: string;
@@ -17,6 +27,8 @@ export interface CartItemResponse {
   deliveryChargeSnapshot: number;
   itemTotal: number;
   deliveryTotal: number;
+  currentPrice: number; // Live unit price, compare with priceSnapshot
+  priceChange: CartPriceChangeDirection | null;
   createdAt: Date;
   updatedAt: Date;
   product?: {
@@ -38,14 +50,67 @@ export interface CartItemResponse {
   };
 }
 
+export type CartPriceChangeDirection = 'INCREASE' | 'DECREASE';
+
+// A line whose live price no longer matches the price it was added at
+export interface CartPriceChangeResponse {
+  itemId: string;
+  productId: string;
+  variantId: string | null;
+  name: string;
+  quantity: number;
+  direction: CartPriceChangeDirection;
+  snapshotPrice: number;
+  currentPrice: number;
+  unitDifference: number; // currentPrice - snapshotPrice
+  lineDifference: number; // unitDifference * quantity
+}
+
+export interface AcknowledgePriceChangesRequest {
+  itemIds?: string[]; // Defaults to every changed line
+}
+
+export interface CartCouponResponse {
+  code: string;
+  description: string | null;
+  type: CouponType;
+  value: number;
+  discountAmount: number;
+  error: string | null; // Why the coupon no longer applies, if it doesn't
+}
+
+export interface CartShippingResponse extends ShippingQuoteResponse {
+  addressId: string;
+}
+
+export interface CartMergeLine {
+  productId: string;
+  variantId: string | null;
+  requested: number; // Combined quantity of the guest and user carts
+  quantity: number; // Quantity kept (0 when dropped)
+  reason: 'INSUFFICIENT_STOCK' | 'OUT_OF_STOCK' | 'UNAVAILABLE';
+}
+
+export interface CartMergeResponse {
+  mergedCount: number; // Guest cart lines merged into the user's cart
+  adjusted: CartMergeLine[];
+  dropped: CartMergeLine[];
+}
+
 export interface CartResponse {
   id: string;
-  userId: string;
+  userId: string | null;
+  guest: boolean;
   items: CartItemResponse[];
   itemCount: number;
   subtotal: number;
   totalDelivery: number;
+  shipping: CartShippingResponse | null; // null until the user has an address (always for guests)
+  coupon: CartCouponResponse | null;
+  discount: number;
   total: number;
+  priceChanges: CartPriceChangeResponse[];
+  requiresPriceAcknowledgement: boolean; // Price increases block checkout until acknowledged
   createdAt: Date;
   updatedAt: Date;
 }
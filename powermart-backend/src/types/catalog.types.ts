@@ -0,0 +1,67 @@
+import type { ProductResponse, ProductDetailResponse } from './shop.types.ts';
+
+export type CatalogSort = 'newest' | 'price_asc' | 'price_desc' | 'best_selling' | 'rating';
+
+export const CATALOG_SORTS: readonly CatalogSort[] = [
+  'newest',
+  'price_asc',
+  'price_desc',
+  'best_selling',
+  'rating',
+];
+
+// Filters
+export interface CatalogFilters {
+  categoryId?: string;
+  categorySlug?: string;
+  shopId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+  sort?: CatalogSort;
+}
+
+// Response DTOs
+export interface CatalogShopResponse {
+  id: string;
+  name: string;
+  logo: string | null;
+}
+
+export interface CatalogProductResponse extends ProductResponse {
+  image: string | null;
+  shop: CatalogShopResponse;
+}
+
+export interface CatalogProductDetailResponse extends ProductDetailResponse {
+  shop: CatalogShopResponse;
+}
+
+export interface PaginatedCatalogResponse {
+  products: CatalogProductResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Search
+export interface CatalogSearchHighlight {
+  name: string;
+  snippet: string | null;
+}
+
+export interface CatalogSearchResult extends CatalogProductResponse {
+  rank: number;
+  highlight: CatalogSearchHighlight;
+}
+
+export interface PaginatedCatalogSearchResponse {
+  query: string;
+  products: CatalogSearchResult[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,54 @@
+import type { CommissionScope } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface CreateCommissionRuleRequest {
+  scope: CommissionScope;
+  categoryId?: string;
+  vendorId?: string;
+  shopId?: string;
+  rate: number;
+  effectiveFrom?: Date;
+  note?: string;
+}
+
+// Filters
+export interface CommissionRuleFilters {
+  scope?: CommissionScope;
+  categoryId?: string;
+  vendorId?: string;
+  shopId?: string;
+}
+
+// What a line needs for its commission to be resolved
+export interface CommissionTarget {
+  shopId: string;
+  vendorId: string;
+  categoryId: string | null;
+}
+
+export interface ResolvedCommission {
+  rate: number;
+  ruleId: string | null; // null when the built-in default rate applied
+}
+
+// Response DTOs
+export interface CommissionRuleResponse {
+  id: string;
+  scope: CommissionScope;
+  categoryId: string | null;
+  vendorId: string | null;
+  shopId: string | null;
+  rate: number;
+  effectiveFrom: Date;
+  note: string | null;
+  createdById: string | null;
+  createdAt: Date;
+}
+
+export interface PaginatedCommissionRulesResponse {
+  rules: CommissionRuleResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
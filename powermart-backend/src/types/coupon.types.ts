@@ -0,0 +1,83 @@
+import type { CouponScope, CouponType } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface CreateCouponRequest {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number;
+  minSpend?: number;
+  scope?: CouponScope;
+  shopId?: string;
+  categoryId?: string;
+  productId?: string;
+  usageLimit?: number;
+  perUserLimit?: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+  isActive?: boolean;
+}
+
+export interface UpdateCouponRequest {
+  description?: string;
+  maxDiscount?: number | null;
+  minSpend?: number;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
+  isActive?: boolean;
+}
+
+// Filters
+export interface CouponFilters {
+  scope?: CouponScope;
+  isActive?: boolean;
+  search?: string;
+}
+
+// A priced cart or order line, as seen by the coupon engine
+export interface CouponLine {
+  productId: string;
+  shopId: string;
+  categoryId: string | null;
+  lineSubtotal: number; // Unit price x quantity, excluding delivery
+}
+
+export interface CouponEvaluation {
+  eligibleSubtotal: number;
+  discountAmount: number;
+  lineDiscounts: number[]; // Share of the discount per line, in the order given
+}
+
+// Response DTOs
+export interface CouponResponse {
+  id: string;
+  code: string;
+  description: string | null;
+  type: CouponType;
+  value: number;
+  maxDiscount: number | null;
+  minSpend: number;
+  scope: CouponScope;
+  shopId: string | null;
+  categoryId: string | null;
+  productId: string | null;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  usedCount: number;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaginatedCouponsResponse {
+  coupons: CouponResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,35 @@
+import type { CourierTrackingStatus, ShipmentStatus } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface BookShipmentRequest {
+  courier?: string;
+  weightKg?: number;
+}
+
+// Response DTOs
+export interface CourierResponse {
+  name: string;
+  displayName: string;
+}
+
+export interface ShipmentTrackingEventResponse {
+  status: CourierTrackingStatus;
+  description: string | null;
+  location: string | null;
+  occurredAt: Date;
+}
+
+export interface ShipmentTrackingResponse {
+  shipmentId: string;
+  courier: string;
+  trackingCode: string;
+  status: CourierTrackingStatus;
+  shipmentStatus: ShipmentStatus;
+  events: ShipmentTrackingEventResponse[];
+}
+
+export interface CourierWebhookResult {
+  received: true;
+  duplicate: boolean;
+  shipmentStatus: ShipmentStatus | null;
+}
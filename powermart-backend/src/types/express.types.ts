@@ -3,6 +3,9 @@ import type { JwtPayload } from './auth.types.ts';
 
 export interface AuthenticatedRequest extends Request {
   user?: JwtPayload;
+  guest?: {
+    guestId: string;
+  };
   vendor?: {
     id: string;
     userId: string;
@@ -0,0 +1,45 @@
+import type { ContactChannel } from '../../prisma/generated/enums.ts';
+import type { OrderDetailResponse } from './order.types.ts';
+
+// Request DTOs
+export interface GuestCheckoutRequest {
+  email?: string;
+  phoneNumber?: string; // Defaults to the address phone number
+  address: {
+    fullName: string;
+    phoneNumber: string;
+    line1: string;
+    line2?: string;
+    city: string;
+    state?: string;
+    postalCode?: string;
+    notes?: string;
+  };
+  paymentMethod?: 'COD';
+  notes?: string;
+}
+
+export interface SendOrderClaimOTPRequest {
+  channel: ContactChannel;
+  destination: string; // Email address or phone number the guest orders were placed with
+}
+
+export interface ClaimGuestOrdersRequest extends SendOrderClaimOTPRequest {
+  otpCode: string;
+}
+
+// Response DTOs
+export interface GuestSessionResponse {
+  guestToken: string;
+}
+
+export interface GuestCheckoutResponse {
+  order: OrderDetailResponse;
+  trackingToken: string; // Only returned once; the order stores its hash
+  trackingUrl: string;
+}
+
+export interface ClaimGuestOrdersResponse {
+  claimedOrderIds: string[];
+  claimedCount: number;
+}
@@ -1,4 +1,19 @@
-import type { OrderStatus, PaymentStatus, PaymentMethod, OrderItemStatus } from '../../prisma/generated/enums.ts';
+import type {
+  OrderStatus,
+  PaymentStatus,
+  PaymentMethod,
+  OrderItemStatus,
+  OrderActorRole,
+  OrderEventType,
+} from '../../prisma/generated/enums.ts';
+import type { ShipmentResponse } from './shipment.types.ts';
+
+// Who is changing an order: the buyer, a vendor of one of its items, an admin,
+// or the platform itself (e.g. courier webhooks)
+export interface OrderActor {
+  userId: string | null;
+  role: OrderActorRole;
+}
 
 // Request DTOs
 export interface CreateOrderRequest {
@@ -16,25 +31,24 @@ export interface OrderItemRequest {
 
 export interface UpdateOrderItemStatusRequest {
   status: OrderItemStatus;
-  trackingCode?: string;
-  carrier?: string;
-  trackingUrl?: string;
-  estimatedDelivery?: Date;
+  note?: string;
 }
 
 export interface UpdateOrderStatusRequest {
   status: OrderStatus;
+  note?: string;
 }
 
 export interface UpdatePaymentStatusRequest {
   paymentStatus: PaymentStatus;
   paymentMethod?: PaymentMethod;
+  note?: string;
 }
 
 // Response DTOs - Order Address
 export interface OrderAddressResponse {
   id: string;
-  userId: string;
+  userId: string | null;
   fullName: string;
   phoneNumber: string;
   line1: string;
@@ -53,15 +67,13 @@ export interface OrderItemResponse {
   orderId: string;
   productId: string;
   shopId: string;
+  shipmentId: string | null;
   variantId: string | null;
   quantity: number;
   unitPrice: number;
   deliveryCharge: number;
   totalPrice: number;
   status: OrderItemStatus;
-  trackingCode: string | null;
-  carrier: string | null;
-  trackingUrl: string | null;
   deliveredAt: Date | null;
   createdAt: Date;
   product?: {
@@ -79,20 +91,20 @@ export interface OrderItemResponse {
 // Response DTOs - Order
 export interface OrderResponse {
   id: string;
-  userId: string;
+  userId: string | null; // null for unclaimed guest orders
+  guestEmail: string | null;
+  guestPhone: string | null;
   orderNumber: string;
   status: OrderStatus;
   paymentStatus: PaymentStatus | null;
   paymentMethod: PaymentMethod | null;
-  trackingCode: string | null;
-  carrier: string | null;
-  trackingUrl: string | null;
-  estimatedDelivery: Date | null;
   deliveredAt: Date | null;
   subtotalAmount: number;
   discountAmount: number;
   shippingFee: number;
   totalAmount: number;
+  refundedAmount: number;
+  couponCode: string | null;
   notes: string | null;
   shippingAddressId: string;
   placedAt: Date;
@@ -101,6 +113,7 @@ export interface OrderResponse {
 
 export interface OrderDetailResponse extends OrderResponse {
   items: OrderItemResponse[];
+  shipments: ShipmentResponse[]; // One per shop
   shippingAddress: OrderAddressResponse;
 }
 
@@ -120,3 +133,93 @@ export interface OrderFilters {
   startDate?: Date;
   endDate?: Date;
 }
+
+// Stock reservation
+export interface StockLine {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface StockFailure {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// Order timeline
+export interface OrderEventInput {
+  orderId: string;
+  orderItemId?: string | null;
+  type: OrderEventType;
+  fromValue?: string | null;
+  toValue?: string | null;
+  note?: string | null;
+}
+
+export interface OrderTimelineEventResponse {
+  id: string;
+  orderItemId: string | null;
+  type: OrderEventType;
+  actorId: string | null;
+  actorName: string | null;
+  actorRole: OrderActorRole;
+  fromValue: string | null;
+  toValue: string | null;
+  note: string | null;
+  item: {
+    id: string;
+    productName: string;
+  } | null;
+  createdAt: Date;
+}
+
+export interface OrderTimelineResponse {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  events: OrderTimelineEventResponse[];
+}
+
+// Vendor order inbox
+export interface VendorOrderFilters {
+  status?: OrderItemStatus;
+  shopId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface VendorOrderItemResponse extends OrderItemResponse {
+  shop: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface VendorOrderResponse {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  paymentStatus: PaymentStatus | null;
+  paymentMethod: PaymentMethod | null;
+  notes: string | null;
+  placedAt: Date;
+  buyer: {
+    id: string;
+    name: string | null;
+  } | null; // null for unclaimed guest orders
+  shippingAddress: OrderAddressResponse;
+  items: VendorOrderItemResponse[];
+  shipments: ShipmentResponse[];
+  vendorTotal: number;
+}
+
+export interface PaginatedVendorOrdersResponse {
+  orders: VendorOrderResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,28 @@
+import type { PaymentIntentStatus } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface CreatePaymentIntentRequest {
+  orderId: string;
+  provider?: string;
+}
+
+// Response DTOs
+export interface PaymentIntentResponse {
+  id: string;
+  orderId: string;
+  provider: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  redirectUrl: string | null;
+  failureReason: string | null;
+  expiresAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface PaymentWebhookResult {
+  received: true;
+  duplicate: boolean;
+  status: PaymentIntentStatus | null;
+}
@@ -0,0 +1,35 @@
+import type { ContactChannel, ProductAlertType } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface CreateProductAlertRequest {
+  productId: string;
+  variantId?: string;
+  type: ProductAlertType;
+  targetPrice?: number; // Required for PRICE_DROP
+  channel: ContactChannel;
+  phoneNumber?: string; // Required for PHONE (WhatsApp)
+}
+
+// Response DTOs
+export interface ProductAlertResponse {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  type: ProductAlertType;
+  targetPrice: number | null;
+  channel: ContactChannel;
+  phoneNumber: string | null;
+  triggeredAt: Date | null;
+  createdAt: Date;
+  product: {
+    id: string;
+    name: string;
+    currentPrice: number;
+    stock: number;
+  };
+  variant: {
+    id: string;
+    name: string;
+    value: string;
+  } | null;
+}
@@ -0,0 +1,72 @@
+import type { ProductAnswerRole, ProductQAStatus } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface AskQuestionRequest {
+  body: string;
+}
+
+export interface AnswerQuestionRequest {
+  body: string;
+}
+
+export interface ModerateQARequest {
+  status: ProductQAStatus;
+  note?: string;
+}
+
+// Filters
+export interface VendorQuestionFilters {
+  status?: 'UNANSWERED' | 'ANSWERED'; // Defaults to UNANSWERED
+  productId?: string;
+}
+
+export interface AdminQuestionFilters {
+  status?: ProductQAStatus;
+  productId?: string;
+}
+
+// Response DTOs
+export interface ProductAnswerResponse {
+  id: string;
+  questionId: string;
+  body: string;
+  authorRole: ProductAnswerRole;
+  author: {
+    id: string;
+    name: string | null;
+  };
+  upvoteCount: number;
+  status: ProductQAStatus;
+  moderationNote: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProductQuestionResponse {
+  id: string;
+  productId: string;
+  body: string;
+  status: ProductQAStatus;
+  moderationNote: string | null;
+  author: {
+    id: string;
+    name: string | null;
+  };
+  vendorAnsweredAt: Date | null;
+  answerCount: number;
+  answers: ProductAnswerResponse[]; // Vendor answers first, then by upvotes
+  product?: {
+    id: string;
+    name: string;
+  } | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaginatedProductQuestionsResponse {
+  questions: ProductQuestionResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
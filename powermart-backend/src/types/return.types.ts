@@ -0,0 +1,70 @@
+import type { ReturnReason, ReturnStatus } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface CreateReturnRequest {
+  orderItemId: string;
+  quantity?: number;
+  reason: ReturnReason;
+  description?: string;
+  evidence?: string[];
+}
+
+export interface ApproveReturnRequest {
+  note?: string;
+}
+
+export interface RejectReturnRequest {
+  reason: string;
+}
+
+export interface ReceiveReturnRequest {
+  restock?: boolean;
+  note?: string;
+}
+
+export interface RefundReturnRequest {
+  amount?: number;
+  note?: string;
+}
+
+// Filters
+export interface ReturnFilters {
+  status?: ReturnStatus;
+  shopId?: string;
+}
+
+// Response DTOs
+export interface ReturnResponse {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  orderItemId: string;
+  shopId: string;
+  product: {
+    id: string;
+    name: string;
+  };
+  quantity: number;
+  reason: ReturnReason;
+  description: string | null;
+  evidence: string[];
+  status: ReturnStatus;
+  vendorNote: string | null;
+  rejectionReason: string | null;
+  restocked: boolean;
+  refundAmount: number | null;
+  approvedAt: Date | null;
+  rejectedAt: Date | null;
+  receivedAt: Date | null;
+  refundedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaginatedReturnsResponse {
+  returns: ReturnResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
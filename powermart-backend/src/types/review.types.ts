@@ -1,3 +1,14 @@
+import type { ReviewReportReason, ReviewStatus } from '../../prisma/generated/enums.ts';
+
+export type ReviewSort = 'most_helpful' | 'newest' | 'highest_rating' | 'lowest_rating';
+
+export const REVIEW_SORTS: readonly ReviewSort[] = [
+  'most_helpful',
+  'newest',
+  'highest_rating',
+  'lowest_rating',
+];
+
 export interface CreateReviewRequest {
   productId: string;
   orderItemId: string;
@@ -10,6 +21,27 @@ export interface UpdateReviewRequest {
   comment?: string;
 }
 
+export interface ReportReviewRequest {
+  reason: ReviewReportReason;
+  details?: string;
+}
+
+export interface ReviewReplyRequest {
+  body: string;
+}
+
+export interface ModerateReviewRequest {
+  status: ReviewStatus;
+  note?: string;
+}
+
+// Filters
+export interface AdminReviewFilters {
+  status?: ReviewStatus;
+  reported?: boolean; // Only reviews with open abuse reports
+  productId?: string;
+}
+
 export interface ReviewResponse {
   id: string;
   productId: string;
@@ -19,6 +51,12 @@ export interface ReviewResponse {
   rating: number;
   comment: string | null;
   isVerifiedPurchase: boolean;
+  status: ReviewStatus;
+  helpfulCount: number;
+  vendorReply: {
+    body: string;
+    repliedAt: Date;
+  } | null;
   createdAt: Date;
   updatedAt: Date;
   user?: {
@@ -31,6 +69,21 @@ export interface ReviewResponse {
   } | undefined;
 }
 
+export interface ReviewReportResponse {
+  id: string;
+  userId: string;
+  reason: ReviewReportReason;
+  details: string | null;
+  createdAt: Date;
+}
+
+export interface AdminReviewResponse extends ReviewResponse {
+  moderationNote: string | null;
+  moderatedAt: Date | null;
+  reportCount: number;
+  reports: ReviewReportResponse[];
+}
+
 export interface ReviewSummary {
   productId: string;
   avgRating: number;
@@ -44,3 +97,11 @@ export interface PaginatedReviewsResponse {
   limit: number;
   totalPages: number;
 }
+
+export interface PaginatedAdminReviewsResponse {
+  reviews: AdminReviewResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,93 @@
+import type {
+  LedgerAccount,
+  LedgerTransactionType,
+  PayoutBatchStatus,
+} from '../../prisma/generated/enums.ts';
+
+// One side of a ledger transaction
+export interface LedgerPosting {
+  account: LedgerAccount;
+  shopId?: string;
+  amount: number;
+  availableAt?: Date;
+}
+
+// Request DTOs
+export interface GeneratePayoutBatchRequest {
+  minAmount?: number;
+}
+
+// Filters
+export interface StatementFilters {
+  shopId?: string;
+}
+
+// Response DTOs
+export interface StatementEntryResponse {
+  id: string;
+  type: LedgerTransactionType;
+  reference: string;
+  description: string | null;
+  shopId: string | null;
+  orderItemId: string | null;
+  shipmentId: string | null;
+  returnRequestId: string | null;
+  amount: number;
+  availableAt: Date;
+  createdAt: Date;
+}
+
+export interface SettlementStatementResponse {
+  balance: number; // Everything owed to the vendor
+  available: number; // Part of the balance that can be paid out now
+  pending: number; // Held for the return window or an open return
+  paidOut: number; // Sent to the vendor in payout batches
+  entries: StatementEntryResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface PayoutItemResponse {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  amount: number;
+  accountTitle: string;
+  bankName: string;
+  branchCode: string | null;
+  iban: string | null;
+  accountNumber: string;
+}
+
+export interface SkippedPayoutResponse {
+  vendorId: string;
+  vendorName: string;
+  amount: number;
+  reason: string;
+}
+
+export interface PayoutBatchResponse {
+  id: string;
+  status: PayoutBatchStatus;
+  totalAmount: number;
+  itemCount: number;
+  items: PayoutItemResponse[];
+  paidAt: Date | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+}
+
+export interface GeneratePayoutBatchResponse {
+  batch: PayoutBatchResponse;
+  skipped: SkippedPayoutResponse[];
+}
+
+export interface PaginatedPayoutBatchesResponse {
+  batches: Omit<PayoutBatchResponse, 'items'>[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
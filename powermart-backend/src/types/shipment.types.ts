@@ -0,0 +1,91 @@
+import type {
+  CourierTrackingStatus,
+  OrderStatus,
+  ShipmentStatus,
+  ShippingZone,
+} from '../../prisma/generated/enums.ts';
+import type { OrderAddressResponse, OrderItemResponse } from './order.types.ts';
+
+// Request DTOs
+export interface ShipShipmentRequest {
+  shipmentId: string;
+  trackingCode: string;
+  carrier?: string;
+  trackingUrl?: string;
+  weightKg?: number;
+  estimatedDelivery?: Date;
+}
+
+export interface BulkConfirmShipmentsRequest {
+  shipmentIds: string[];
+  note?: string;
+}
+
+export interface BulkShipShipmentsRequest {
+  shipments: ShipShipmentRequest[];
+  note?: string;
+}
+
+// Filters
+export interface ShipmentFilters {
+  status?: ShipmentStatus;
+  shopId?: string;
+}
+
+// Response DTOs
+export interface ShipmentResponse {
+  id: string;
+  orderId: string;
+  shopId: string;
+  shop?: {
+    id: string;
+    name: string;
+  };
+  status: ShipmentStatus;
+  shippingFee: number;
+  zone: ShippingZone | null;
+  courier: string | null;
+  courierStatus: CourierTrackingStatus | null;
+  carrier: string | null;
+  trackingCode: string | null;
+  trackingUrl: string | null;
+  weightKg: number | null;
+  estimatedDelivery: Date | null;
+  shippedAt: Date | null;
+  deliveredAt: Date | null;
+  cancelledAt: Date | null;
+  itemIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VendorShipmentResponse extends ShipmentResponse {
+  order: {
+    id: string;
+    orderNumber: string;
+    status: OrderStatus;
+    placedAt: Date;
+  };
+  buyer: {
+    id: string;
+    name: string | null;
+  } | null; // null for unclaimed guest orders
+  shippingAddress: OrderAddressResponse;
+  items: OrderItemResponse[];
+}
+
+export interface PaginatedVendorShipmentsResponse {
+  shipments: VendorShipmentResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface BulkShipmentActionResponse {
+  updated: string[];
+  failed: {
+    shipmentId: string;
+    error: string;
+  }[];
+}
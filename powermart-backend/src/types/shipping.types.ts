@@ -0,0 +1,65 @@
+import type { ShippingRateBasis, ShippingZone } from '../../prisma/generated/enums.ts';
+
+// Request DTOs
+export interface ShippingRateInput {
+  zone: ShippingZone;
+  upTo?: number | null;
+  fee: number;
+}
+
+export interface UpsertShippingProfileRequest {
+  basis?: ShippingRateBasis;
+  originCity: string;
+  freeShippingThreshold?: number | null;
+  rates: ShippingRateInput[];
+}
+
+// What the rate engine needs to know about an order or cart line
+export interface ShippingLine {
+  shopId: string;
+  quantity: number;
+  lineSubtotal: number;
+  weightKg: number | null;
+  deliveryCharge: number; // Per-unit charge for shops without a profile
+}
+
+export interface ShippingDestination {
+  city: string;
+  state: string | null;
+}
+
+// Response DTOs
+export interface ShippingRateResponse {
+  id: string;
+  zone: ShippingZone;
+  upTo: number | null;
+  fee: number;
+}
+
+export interface ShippingProfileResponse {
+  id: string;
+  shopId: string;
+  basis: ShippingRateBasis;
+  originCity: string;
+  freeShippingThreshold: number | null;
+  rates: ShippingRateResponse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ShopShippingQuote {
+  shopId: string;
+  shopName: string;
+  zone: ShippingZone | null; // null for shops without a profile
+  fee: number;
+  freeShipping: boolean;
+  amountToFreeShipping: number | null; // How much more to spend at this shop for free shipping
+  error: string | null; // Set when the shop does not deliver to the destination
+}
+
+export interface ShippingQuoteResponse {
+  destination: ShippingDestination;
+  shops: ShopShippingQuote[];
+  total: number;
+  deliverable: boolean;
+}
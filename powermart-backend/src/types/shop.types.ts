@@ -50,6 +50,7 @@ export interface CreateProductRequest {
   stock?: number;
   sku?: string;
   deliveryCharge?: number;
+  weightKg?: number;
   categoryId?: string;
   images?: string[];
   variants?: ProductVariantInput[];
@@ -64,6 +65,7 @@ export interface UpdateProductRequest {
   stock?: number;
   sku?: string;
   deliveryCharge?: number;
+  weightKg?: number | null;
   categoryId?: string;
 }
 
@@ -83,6 +85,7 @@ export interface ProductResponse {
   price: number;
   discount: number | null;
   deliveryCharge: number;
+  weightKg: number | null;
   status: ProductStatus;
   stock: number;
   sku: string | null;
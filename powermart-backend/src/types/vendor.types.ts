@@ -67,6 +67,7 @@ export interface KYCResponse {
   status: KYCStatus;
   submittedAt: Date;
   reviewedAt: Date | null;
+  rejectionReason: string | null;
   documents: KYCDocumentResponse[];
   bankDetails: BankDetailsResponse[];
 }
@@ -91,3 +92,46 @@ export interface BankDetailsResponse {
   isPrimary: boolean;
   createdAt: Date;
 }
+
+// Admin KYC Review
+export interface RejectKYCRequest {
+  reason: string;
+}
+
+export interface KYCReviewVendor {
+  id: string;
+  name: string;
+  phoneNumber: string;
+  phoneVerified: boolean;
+  email: string;
+}
+
+export interface KYCSubmissionSummary {
+  id: string;
+  vendorId: string;
+  status: KYCStatus;
+  submittedAt: Date;
+  reviewedAt: Date | null;
+  documentCount: number;
+  vendor: KYCReviewVendor;
+}
+
+export interface PaginatedKYCSubmissionsResponse {
+  submissions: KYCSubmissionSummary[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface KYCDocumentReviewResponse extends KYCDocumentResponse {
+  frontImageSignedUrl: string | null;
+  backImageSignedUrl: string | null;
+}
+
+export interface KYCReviewDetailResponse extends Omit<KYCResponse, 'documents'> {
+  reviewedById: string | null;
+  vendor: KYCReviewVendor;
+  documents: KYCDocumentReviewResponse[];
+  signedUrlsExpireAt: Date;
+}
@@ -0,0 +1,74 @@
+import type { CartResponse } from './cart.types.ts';
+
+// Request DTOs
+export interface CreateWishlistRequest {
+  name: string;
+}
+
+export interface UpdateWishlistRequest {
+  name: string;
+}
+
+export interface AddWishlistItemRequest {
+  productId: string;
+  variantId?: string;
+}
+
+export interface SaveCartItemRequest {
+  wishlistId?: string; // Defaults to the "Saved for later" list
+}
+
+export interface MoveWishlistItemToCartRequest {
+  quantity?: number; // Defaults to 1
+}
+
+// Response DTOs
+export interface WishlistItemResponse {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  addedAt: Date;
+  currentPrice: number; // Live unit price, including discount and variant price difference
+  stock: number;
+  inStock: boolean;
+  available: boolean; // Product is active and can be added to the cart
+  product: {
+    id: string;
+    name: string;
+    price: number;
+    discount: number | null;
+    status: string;
+    image: string | null;
+  };
+  variant: {
+    id: string;
+    name: string;
+    value: string;
+    priceDiff: number | null;
+  } | null;
+}
+
+export interface WishlistResponse {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  shareUrl: string | null; // Public link while the list is shared
+  items: WishlistItemResponse[];
+  itemCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What a shared link shows: the list, without its owner's details
+export interface SharedWishlistResponse {
+  name: string;
+  ownerName: string | null;
+  items: WishlistItemResponse[];
+  itemCount: number;
+}
+
+// Moving a line between the cart and a wishlist changes both
+export interface WishlistMoveResponse {
+  cart: CartResponse;
+  wishlist: WishlistResponse;
+}
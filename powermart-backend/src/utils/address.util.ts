@@ -0,0 +1,174 @@
+/**
+ * Pakistan address helpers used by the address book and checkout
+ */
+
+export const DEFAULT_COUNTRY = 'Pakistan';
+
+/**
+ * Provinces and territories accepted in the `state` field
+ */
+export const PAKISTAN_PROVINCES = [
+  'Punjab',
+  'Sindh',
+  'Khyber Pakhtunkhwa',
+  'Balochistan',
+  'Islamabad Capital Territory',
+  'Gilgit-Baltistan',
+  'Azad Jammu and Kashmir',
+] as const;
+
+/**
+ * Cities we deliver to, in their canonical spelling
+ */
+export const PAKISTAN_CITIES = [
+  'Abbottabad',
+  'Attock',
+  'Bahawalnagar',
+  'Bahawalpur',
+  'Bannu',
+  'Burewala',
+  'Chakwal',
+  'Chaman',
+  'Charsadda',
+  'Chiniot',
+  'Dadu',
+  'Dera Ghazi Khan',
+  'Dera Ismail Khan',
+  'Faisalabad',
+  'Gilgit',
+  'Gujranwala',
+  'Gujrat',
+  'Gwadar',
+  'Hafizabad',
+  'Hyderabad',
+  'Islamabad',
+  'Jacobabad',
+  'Jhang',
+  'Jhelum',
+  'Kamoke',
+  'Karachi',
+  'Kasur',
+  'Khairpur',
+  'Khanewal',
+  'Khuzdar',
+  'Kohat',
+  'Lahore',
+  'Larkana',
+  'Mandi Bahauddin',
+  'Mardan',
+  'Mianwali',
+  'Mingora',
+  'Mirpur',
+  'Mirpur Khas',
+  'Multan',
+  'Muzaffarabad',
+  'Muzaffargarh',
+  'Nawabshah',
+  'Nowshera',
+  'Okara',
+  'Pakpattan',
+  'Peshawar',
+  'Quetta',
+  'Rahim Yar Khan',
+  'Rawalpindi',
+  'Sadiqabad',
+  'Sahiwal',
+  'Sargodha',
+  'Sheikhupura',
+  'Sialkot',
+  'Skardu',
+  'Sukkur',
+  'Swabi',
+  'Tando Adam',
+  'Taxila',
+  'Turbat',
+  'Vehari',
+  'Wah Cantonment',
+] as const;
+
+/**
+ * Common alternate spellings mapped to the canonical city name
+ */
+const CITY_ALIASES: Record<string, string> = {
+  'pindi': 'Rawalpindi',
+  'isb': 'Islamabad',
+  'khi': 'Karachi',
+  'lhr': 'Lahore',
+  'fsd': 'Faisalabad',
+  'lyallpur': 'Faisalabad',
+  'dg khan': 'Dera Ghazi Khan',
+  'di khan': 'Dera Ismail Khan',
+  'rykhan': 'Rahim Yar Khan',
+  'ry khan': 'Rahim Yar Khan',
+  'mirpurkhas': 'Mirpur Khas',
+  'wah cantt': 'Wah Cantonment',
+  'wah': 'Wah Cantonment',
+  'swat': 'Mingora',
+  'hyd': 'Hyderabad',
+};
+
+/**
+ * Pakistani mobile number: 03XXXXXXXXX, 3XXXXXXXXX, 923XXXXXXXXX,
+ * +923XXXXXXXXX or 00923XXXXXXXXX (spaces and dashes are ignored)
+ */
+const PK_MOBILE_REGEX = /^(?:\+92|0092|92|0)?3\d{9}$/;
+
+function compactPhone(phone: string): string {
+  return phone.replace(/[\s-]/g, '');
+}
+
+/**
+ * Check if a phone number is a valid Pakistani mobile number
+ */
+export function isValidPakistaniPhone(phone: string): boolean {
+  return PK_MOBILE_REGEX.test(compactPhone(phone));
+}
+
+/**
+ * Normalize a Pakistani mobile number to E.164 (+923XXXXXXXXX)
+ * @throws if the number is not a valid Pakistani mobile number
+ */
+export function normalizePakistaniPhone(phone: string): string {
+  const compact = compactPhone(phone);
+  if (!PK_MOBILE_REGEX.test(compact)) {
+    throw new Error('Invalid phone number. Use a Pakistani mobile number like 03001234567');
+  }
+
+  const digits = compact.replace(/\D/g, '');
+  return `+92${digits.slice(-10)}`;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[.\s]+/g, ' ');
+}
+
+/**
+ * Resolve a user-entered city to its canonical name, or null if unknown
+ */
+export function resolvePakistaniCity(city: string): string | null {
+  const key = normalizeKey(city);
+  const alias = CITY_ALIASES[key];
+  if (alias) {
+    return alias;
+  }
+
+  return PAKISTAN_CITIES.find((name) => name.toLowerCase() === key) ?? null;
+}
+
+/**
+ * Resolve a user-entered province to its canonical name, or null if unknown
+ */
+export function resolvePakistaniProvince(state: string): string | null {
+  const key = normalizeKey(state);
+  const aliases: Record<string, string> = {
+    'kpk': 'Khyber Pakhtunkhwa',
+    'kp': 'Khyber Pakhtunkhwa',
+    'ict': 'Islamabad Capital Territory',
+    'islamabad': 'Islamabad Capital Territory',
+    'gb': 'Gilgit-Baltistan',
+    'ajk': 'Azad Jammu and Kashmir',
+    'azad kashmir': 'Azad Jammu and Kashmir',
+  };
+
+  return aliases[key] ?? PAKISTAN_PROVINCES.find((name) => name.toLowerCase() === key) ?? null;
+}
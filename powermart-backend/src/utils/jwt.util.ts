@@ -1,11 +1,13 @@
 import jwt from 'jsonwebtoken';
 import type { SignOptions } from 'jsonwebtoken';
-import type { JwtPayload, RefreshTokenPayload } from '../types/auth.types.ts';
+import type { GuestTokenPayload, JwtPayload, RefreshTokenPayload } from '../types/auth.types.ts';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key-change-in-production';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN ?? '15m';
 const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN ?? '7d';
+const GUEST_TOKEN_SECRET = process.env.GUEST_TOKEN_SECRET || 'your-guest-secret-key-change-in-production';
+const GUEST_TOKEN_EXPIRES_IN = process.env.GUEST_TOKEN_EXPIRES_IN ?? '30d';
 
 /**
  * Generate an access token
@@ -47,6 +49,31 @@ export function verifyRefreshToken(token: string): RefreshTokenPayload {
   }
 }
 
+/**
+ * Generate a guest token, identifying an anonymous shopper's cart
+ */
+export function generateGuestToken(guestId: string): string {
+  const payload: GuestTokenPayload = { guestId, type: 'guest' };
+  return jwt.sign(payload, GUEST_TOKEN_SECRET, {
+    expiresIn: GUEST_TOKEN_EXPIRES_IN,
+  } as SignOptions);
+}
+
+/**
+ * Verify and decode a guest token
+ */
+export function verifyGuestToken(token: string): GuestTokenPayload {
+  try {
+    const payload = jwt.verify(token, GUEST_TOKEN_SECRET) as GuestTokenPayload;
+    if (payload.type !== 'guest' || !payload.guestId) {
+      throw new Error('Not a guest token');
+    }
+    return payload;
+  } catch (error) {
+    throw new Error('Invalid or expired guest token');
+  }
+}
+
 /**
  * Calculate refresh token expiration date
  */
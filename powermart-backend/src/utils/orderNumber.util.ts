@@ -0,0 +1,85 @@
+/**
+ * Order numbers read as `<PREFIX>-<YYMMDD>-<counter>-<check digit>`, e.g.
+ * `PM-251220-0042-7`: the counter restarts every day and the check digit
+ * (Luhn, over the date and counter) catches most typos read over the phone.
+ */
+
+// Letters only, so the number stays easy to read out
+export const ORDER_NUMBER_PREFIX =
+  (process.env.ORDER_NUMBER_PREFIX ?? 'PM').toUpperCase().replace(/[^A-Z]/g, '') || 'PM';
+
+// The day an order number belongs to is taken in this time zone
+const ORDER_NUMBER_TIMEZONE = process.env.ORDER_NUMBER_TIMEZONE ?? 'Asia/Karachi';
+
+const COUNTER_DIGITS = 4;
+
+// Numbers issued before the daily counter, e.g. ORD-20251201-K3F9QZ
+const LEGACY_ORDER_NUMBER = /^ORD-\d{8}-[A-Z0-9]{6}$/;
+
+/**
+ * The counter day (YYMMDD) for a date
+ */
+export function getOrderNumberDay(date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: ORDER_NUMBER_TIMEZONE,
+    year: '2-digit',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return `${part('year')}${part('month')}${part('day')}`;
+}
+
+/**
+ * Luhn check digit for a string of digits
+ */
+export function computeCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    // Double every other digit, starting with the rightmost
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Build the order number for a day's counter value
+ */
+export function formatOrderNumber(day: string, counter: number): string {
+  const sequence = String(counter).padStart(COUNTER_DIGITS, '0');
+  return `${ORDER_NUMBER_PREFIX}-${day}-${sequence}-${computeCheckDigit(`${day}${sequence}`)}`;
+}
+
+/**
+ * Turn a typed order number into its stored form. Case, spaces and dashes
+ * are forgiven; a wrong check digit is not. Legacy numbers pass through.
+ */
+export function normalizeOrderNumber(input: string): string {
+  const value = input.trim().toUpperCase();
+
+  if (LEGACY_ORDER_NUMBER.test(value)) {
+    return value;
+  }
+
+  const match = value
+    .replace(/[\s-]/g, '')
+    .match(new RegExp(`^([A-Z]+)(\\d{6})(\\d{${COUNTER_DIGITS},})(\\d)$`));
+
+  if (!match) {
+    throw new Error('Invalid order number format');
+  }
+
+  const [, prefix, day, sequence, checkDigit] = match as unknown as [string, string, string, string, string];
+
+  if (computeCheckDigit(`${day}${sequence}`) !== Number(checkDigit)) {
+    throw new Error('Invalid order number: check digit does not match, please re-check the number');
+  }
+
+  return `${prefix}-${day}-${sequence}-${checkDigit}`;
+}
@@ -0,0 +1,203 @@
+import type {
+  OrderActorRole,
+  OrderItemStatus,
+  OrderStatus,
+  ShipmentStatus,
+} from '../../prisma/generated/enums.ts';
+
+/**
+ * Order item transitions: current status -> next status -> roles allowed to make it.
+ * CANCELLED and RETURNED are terminal.
+ */
+export const ORDER_ITEM_TRANSITIONS: Record<
+  OrderItemStatus,
+  Partial<Record<OrderItemStatus, OrderActorRole[]>>
+> = {
+  PENDING: {
+    CONFIRMED: ['VENDOR', 'ADMIN'],
+    CANCELLED: ['CUSTOMER', 'VENDOR', 'ADMIN'],
+  },
+  CONFIRMED: {
+    SHIPPED: ['VENDOR', 'ADMIN', 'SYSTEM'],
+    CANCELLED: ['CUSTOMER', 'VENDOR', 'ADMIN'],
+  },
+  SHIPPED: {
+    DELIVERED: ['VENDOR', 'ADMIN', 'SYSTEM'],
+    RETURNED: ['VENDOR', 'ADMIN', 'SYSTEM'],
+  },
+  DELIVERED: {
+    RETURNED: ['VENDOR', 'ADMIN', 'SYSTEM'],
+  },
+  CANCELLED: {},
+  RETURNED: {},
+};
+
+/**
+ * Order-level transitions. The order status itself is derived from its
+ * items; an order-level change is applied to every item that can make it.
+ */
+export const ORDER_TRANSITIONS: Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, OrderActorRole[]>>
+> = {
+  PENDING: {
+    CONFIRMED: ['ADMIN'],
+    CANCELLED: ['CUSTOMER', 'ADMIN'],
+  },
+  CONFIRMED: {
+    SHIPPED: ['ADMIN'],
+    CANCELLED: ['CUSTOMER', 'ADMIN'],
+  },
+  PARTIALLY_SHIPPED: {
+    SHIPPED: ['ADMIN'],
+  },
+  SHIPPED: {
+    DELIVERED: ['ADMIN'],
+    RETURNED: ['ADMIN'],
+  },
+  PARTIALLY_DELIVERED: {
+    DELIVERED: ['ADMIN'],
+  },
+  DELIVERED: {
+    RETURNED: ['ADMIN'],
+  },
+  CANCELLED: {},
+  RETURNED: {},
+};
+
+// Helper to check a transition against a table, throwing a descriptive error
+function assertTransition<S extends string>(
+  table: Record<S, Partial<Record<S, OrderActorRole[]>>>,
+  label: string,
+  from: S,
+  to: S,
+  role: OrderActorRole
+): void {
+  const allowedRoles = table[from][to];
+
+  if (!allowedRoles) {
+    throw new Error(`Invalid ${label} status transition from ${from} to ${to}`);
+  }
+
+  if (!allowedRoles.includes(role)) {
+    throw new Error(`Unauthorized: ${role} cannot change ${label} status from ${from} to ${to}`);
+  }
+}
+
+/**
+ * Throw unless `role` may move an order item from `from` to `to`
+ */
+export function assertOrderItemTransition(
+  from: OrderItemStatus,
+  to: OrderItemStatus,
+  role: OrderActorRole
+): void {
+  assertTransition(ORDER_ITEM_TRANSITIONS, 'order item', from, to, role);
+}
+
+/**
+ * Throw unless `role` may move an order from `from` to `to`
+ */
+export function assertOrderTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  role: OrderActorRole
+): void {
+  assertTransition(ORDER_TRANSITIONS, 'order', from, to, role);
+}
+
+/**
+ * Throw unless `role` may move a shipment from `from` to `to`. Shipments
+ * move through the same steps as the items they carry.
+ */
+export function assertShipmentTransition(
+  from: ShipmentStatus,
+  to: ShipmentStatus,
+  role: OrderActorRole
+): void {
+  assertTransition(ORDER_ITEM_TRANSITIONS, 'shipment', from, to, role);
+}
+
+/**
+ * Whether `role` may move an order item from `from` to `to`
+ */
+export function canTransitionOrderItem(
+  from: OrderItemStatus,
+  to: OrderItemStatus,
+  role: OrderActorRole
+): boolean {
+  return ORDER_ITEM_TRANSITIONS[from][to]?.includes(role) ?? false;
+}
+
+/**
+ * Derive the parent order status from its item statuses.
+ * Cancelled items are ignored unless every item is cancelled.
+ */
+export function deriveOrderStatus(itemStatuses: OrderItemStatus[]): OrderStatus {
+  const active = itemStatuses.filter((status) => status !== 'CANCELLED');
+
+  if (active.length === 0) {
+    return itemStatuses.length === 0 ? 'PENDING' : 'CANCELLED';
+  }
+
+  const count = (statuses: OrderItemStatus[]) =>
+    active.filter((status) => statuses.includes(status)).length;
+
+  if (count(['RETURNED']) === active.length) {
+    return 'RETURNED';
+  }
+
+  if (count(['DELIVERED', 'RETURNED']) === active.length) {
+    return 'DELIVERED';
+  }
+
+  if (count(['DELIVERED']) > 0) {
+    return 'PARTIALLY_DELIVERED';
+  }
+
+  if (count(['SHIPPED', 'RETURNED']) === active.length) {
+    return 'SHIPPED';
+  }
+
+  if (count(['SHIPPED']) > 0) {
+    return 'PARTIALLY_SHIPPED';
+  }
+
+  if (count(['PENDING']) === 0) {
+    return 'CONFIRMED';
+  }
+
+  return 'PENDING';
+}
+
+/**
+ * Derive a shipment status from its item statuses. A shipment only moves
+ * on once every active item has, so it reflects the item furthest behind.
+ */
+export function deriveShipmentStatus(itemStatuses: OrderItemStatus[]): ShipmentStatus {
+  const active = itemStatuses.filter((status) => status !== 'CANCELLED');
+
+  if (active.length === 0) {
+    return itemStatuses.length === 0 ? 'PENDING' : 'CANCELLED';
+  }
+
+  const all = (statuses: OrderItemStatus[]) => active.every((status) => statuses.includes(status));
+
+  if (all(['RETURNED'])) {
+    return 'RETURNED';
+  }
+
+  if (all(['DELIVERED', 'RETURNED'])) {
+    return 'DELIVERED';
+  }
+
+  if (all(['SHIPPED', 'DELIVERED', 'RETURNED'])) {
+    return 'SHIPPED';
+  }
+
+  if (!active.includes('PENDING')) {
+    return 'CONFIRMED';
+  }
+
+  return 'PENDING';
+}
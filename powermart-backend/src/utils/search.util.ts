@@ -0,0 +1,87 @@
+/**
+ * Query helpers for storefront product search
+ */
+
+/**
+ * Minimum trigram word similarity for a product name to count as a fuzzy match
+ */
+export const FUZZY_MATCH_THRESHOLD = 0.3;
+
+/**
+ * Maximum number of terms taken from a search query
+ */
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Groups of interchangeable search terms. Roman Urdu has no fixed spelling,
+ * so each group lists the common spellings plus the English word sellers
+ * usually put in product names.
+ */
+const SEARCH_TERM_GROUPS: string[][] = [
+  ['taar', 'wire', 'wires', 'cable', 'cables'],
+  ['balb', 'bulb', 'bulbs', 'balab', 'lamp'],
+  ['pankha', 'pankhaa', 'pakha', 'fan', 'fans'],
+  ['button', 'batan', 'switch', 'switches', 'suich'],
+  ['breaker', 'brekar', 'breker', 'mcb'],
+  ['ups', 'inverter', 'invertar'],
+  ['battery', 'bettery', 'batri', 'betri'],
+  ['socket', 'soket', 'sokit', 'outlet'],
+  ['plug', 'plag'],
+  ['tube', 'tubelight', 'tubelite', 'tublight'],
+  ['extension', 'extention', 'ekstension'],
+  ['meter', 'metar', 'mitar'],
+  ['stabilizer', 'stablizer', 'stabilizar'],
+  ['solar', 'solr'],
+  ['light', 'lite', 'roshni', 'batti'],
+  ['charger', 'chargar'],
+];
+
+const TERM_VARIANTS = new Map<string, string[]>();
+for (const group of SEARCH_TERM_GROUPS) {
+  for (const term of group) {
+    TERM_VARIANTS.set(term, group);
+  }
+}
+
+/**
+ * Lowercase a query and strip everything except letters (any script) and digits
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Split a query into de-duplicated search terms
+ */
+export function getSearchTerms(query: string): string[] {
+  const normalized = normalizeSearchQuery(query);
+  if (!normalized) {
+    return [];
+  }
+
+  return [...new Set(normalized.split(' '))].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Expand a term to its known spelling variants and English equivalents
+ */
+export function expandSearchTerm(term: string): string[] {
+  return TERM_VARIANTS.get(term) ?? [term];
+}
+
+/**
+ * Build a `to_tsquery('simple', ...)` expression that requires every term,
+ * accepting any variant of each term as a prefix match,
+ * e.g. "pankha 56" -> "(pankha:* | pankhaa:* | pakha:* | fan:* | fans:*) & (56:*)"
+ */
+export function buildPrefixTsQuery(terms: string[]): string {
+  return terms
+    .map((term) => {
+      const variants = expandSearchTerm(term).map((variant) => `${variant}:*`);
+      return `(${variants.join(' | ')})`;
+    })
+    .join(' & ');
+}